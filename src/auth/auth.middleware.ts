@@ -61,8 +61,8 @@ class AuthMiddleware {
       req.authContext = {
         user: req.user,
         isAuthenticated: true,
-        permissions: req.user.user_metadata?.permissions || [],
-        role: req.user.user_metadata?.role || 'user'
+        permissions: req.user.app_metadata?.permissions || [],
+        role: req.user.app_metadata?.role || 'user'
       };
 
       next();
@@ -93,8 +93,8 @@ class AuthMiddleware {
         req.authContext = {
           user: req.user,
           isAuthenticated: true,
-          permissions: req.user.user_metadata?.permissions || [],
-          role: req.user.user_metadata?.role || 'user'
+          permissions: req.user.app_metadata?.permissions || [],
+          role: req.user.app_metadata?.role || 'user'
         };
       } else {
         req.isAuthenticated = false;
@@ -129,7 +129,9 @@ class AuthMiddleware {
         return;
       }
 
-      const userRole = req.user.user_metadata?.role || 'user';
+      // Users can edit their own user_metadata, so roles are read from
+      // app_metadata, which only the server can set
+      const userRole = req.user.app_metadata?.role || 'user';
       if (userRole !== requiredRole && userRole !== 'admin') {
         res.status(403).json({
           success: false,
@@ -161,8 +163,8 @@ class AuthMiddleware {
         return;
       }
 
-      const userPermissions = req.user.user_metadata?.permissions || [];
-      const userRole = req.user.user_metadata?.role || 'user';
+      const userPermissions = req.user.app_metadata?.permissions || [];
+      const userRole = req.user.app_metadata?.role || 'user';
 
       // Admin users have all permissions
       if (userRole === 'admin') {
@@ -201,8 +203,8 @@ class AuthMiddleware {
         return;
       }
 
-      const userPermissions = req.user.user_metadata?.permissions || [];
-      const userRole = req.user.user_metadata?.role || 'user';
+      const userPermissions = req.user.app_metadata?.permissions || [];
+      const userRole = req.user.app_metadata?.role || 'user';
 
       // Admin users have all permissions
       if (userRole === 'admin') {
@@ -56,4 +56,53 @@ export const config = {
       },
     },
   },
+  billing: {
+    // Seller details printed on receipts
+    companyName: process.env.BILLING_COMPANY_NAME || 'Poststack',
+    companyAddress: process.env.BILLING_COMPANY_ADDRESS || '',
+  },
+  scheduler: {
+    enabled: process.env.POST_DISPATCHER_ENABLED !== 'false',
+    intervalMs: parseInt(
+      process.env.POST_DISPATCHER_INTERVAL_MS || '30000',
+      10
+    ),
+    batchSize: parseInt(process.env.POST_DISPATCHER_BATCH_SIZE || '20', 10),
+    lockTimeoutMs: parseInt(
+      process.env.POST_DISPATCHER_LOCK_TIMEOUT_MS || '600000',
+      10
+    ),
+  },
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10),
+    purgeEnabled: process.env.TRASH_PURGE_ENABLED !== 'false',
+    purgeIntervalMs: parseInt(
+      process.env.TRASH_PURGE_INTERVAL_MS || '3600000',
+      10
+    ),
+  },
+  trials: {
+    enabled: process.env.TRIAL_EXPIRER_ENABLED !== 'false',
+    intervalMs: parseInt(
+      process.env.TRIAL_EXPIRER_INTERVAL_MS || '3600000',
+      10
+    ),
+    batchSize: parseInt(process.env.TRIAL_EXPIRER_BATCH_SIZE || '50', 10),
+    lockTimeoutMs: parseInt(
+      process.env.TRIAL_EXPIRER_LOCK_TIMEOUT_MS || '600000',
+      10
+    ),
+  },
+  evergreen: {
+    enabled: process.env.EVERGREEN_RECYCLER_ENABLED !== 'false',
+    intervalMs: parseInt(
+      process.env.EVERGREEN_RECYCLER_INTERVAL_MS || '900000',
+      10
+    ),
+    // Only slots this close are filled, leaving later ones free for the queue
+    horizonHours: parseInt(
+      process.env.EVERGREEN_RECYCLER_HORIZON_HOURS || '24',
+      10
+    ),
+  },
 };
@@ -3,9 +3,35 @@ import { config } from '../common/config';
 import {
   ExtendedUser,
   BillingInfo,
+  BillingInvoice,
+  BillingTrial,
+  BillingTrialStatus,
+  BillingWebhookEvent,
+  Coupon,
+  CouponRedemption,
   Post,
+  PostRevision,
+  PostImportJob,
+  EvergreenItem,
   PaginationOptions,
+  PostFilters,
+  PostSearchFilters,
+  PostTag,
+  Campaign,
+  PostTemplate,
+  PostTemplateVersion,
+  PostComment,
 } from '../types/core-modules.types';
+import {
+  WorkspaceMember,
+  WorkspaceRole,
+  WorkspaceSettings,
+} from '../modules/workspace/workspace.types';
+import { PostCursor } from '../modules/posts/search';
+import {
+  CreateNotificationDto,
+  UserNotification,
+} from '../modules/notifications/notifications.types';
 
 /**
  * Database service for handling core module operations
@@ -116,16 +142,35 @@ export class DatabaseService {
     return data as Post;
   }
 
+  /**
+   * Create several posts in a single insert
+   */
+  async createPosts(postsData: Partial<Post>[]): Promise<Post[]> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .insert(
+        postsData.map(postData => ({
+          ...postData,
+          created_at: now,
+          updated_at: now,
+        }))
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Error creating posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
   /**
    * Find posts by user ID with optional filters and pagination
    */
   async findUserPosts(
     userId: string,
-    options: PaginationOptions & {
-      workspace_id?: string;
-      status?: string;
-      search?: string;
-    } = {}
+    options: PaginationOptions & PostFilters = {}
   ): Promise<{ posts: Post[]; total: number }> {
     const {
       page = 1,
@@ -135,6 +180,8 @@ export class DatabaseService {
       workspace_id,
       status,
       search,
+      tag_id,
+      campaign_id,
     } = options;
 
     const offset = (page - 1) * limit;
@@ -148,14 +195,25 @@ export class DatabaseService {
       query = query.eq('workspace_id', workspace_id);
     }
 
+    // Trashed and archived posts only show up when asked for by status
     if (status) {
       query = query.eq('status', status);
+    } else {
+      query = query.not('status', 'in', '(DELETED,ARCHIVED)');
     }
 
     if (search) {
       query = query.or(`title.ilike.%${search}%,content.ilike.%${search}%`);
     }
 
+    if (tag_id) {
+      query = query.contains('tag_ids', [tag_id]);
+    }
+
+    if (campaign_id) {
+      query = query.eq('campaign_id', campaign_id);
+    }
+
     const { data, error, count } = await query
       .order(sortBy, { ascending: sortOrder === 'asc' })
       .range(offset, offset + limit - 1);
@@ -170,6 +228,93 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * Find posts matching search filters, newest first, starting after a
+   * cursor. `text` is a full-text query matched against `search_vector`,
+   * a generated tsvector over each post's title, content and variant text.
+   */
+  async findPostsAfterCursor(
+    filters: Omit<
+      PostSearchFilters,
+      'q' | 'author_id' | 'platform' | 'social_account_id'
+    > & {
+      user_id?: string;
+      social_account_ids?: string[];
+      text?: string;
+    },
+    cursor: PostCursor | null,
+    limit: number
+  ): Promise<Post[]> {
+    let query = this.adminClient.from('posts').select('*');
+
+    if (filters.user_id) {
+      query = query.eq('user_id', filters.user_id);
+    }
+
+    if (filters.workspace_id) {
+      query = query.eq('workspace_id', filters.workspace_id);
+    }
+
+    // Trashed and archived posts only show up when asked for by status
+    if (filters.status) {
+      query = query.eq('status', filters.status);
+    } else {
+      query = query.not('status', 'in', '(DELETED,ARCHIVED)');
+    }
+
+    if (filters.tag_id) {
+      query = query.contains('tag_ids', [filters.tag_id]);
+    }
+
+    if (filters.campaign_id) {
+      query = query.eq('campaign_id', filters.campaign_id);
+    }
+
+    if (filters.social_account_ids) {
+      query = query.overlaps('social_account_ids', filters.social_account_ids);
+    }
+
+    if (filters.text) {
+      query = query.textSearch('search_vector', filters.text, {
+        type: 'websearch',
+        config: 'simple',
+      });
+    }
+
+    if (filters.has_media === true) {
+      query = query.neq('media_urls', '{}');
+    } else if (filters.has_media === false) {
+      query = query.eq('media_urls', '{}');
+    }
+
+    const ranges = [
+      ['created_at', filters.created_from, filters.created_to],
+      ['scheduled_for', filters.scheduled_from, filters.scheduled_to],
+      ['published_at', filters.published_from, filters.published_to],
+    ] as const;
+    for (const [column, from, to] of ranges) {
+      if (from) query = query.gte(column, new Date(from).toISOString());
+      if (to) query = query.lte(column, new Date(to).toISOString());
+    }
+
+    if (cursor) {
+      query = query.or(
+        `created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`
+      );
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Error searching posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
   /**
    * Find a single post by ID
    */
@@ -226,67 +371,1677 @@ export class DatabaseService {
     }
   }
 
-  // ===== Billing Operations =====
+  /**
+   * Find a user's posts in the trash, most recently deleted first
+   */
+  async findTrashedPosts(
+    userId: string,
+    workspaceId?: string
+  ): Promise<Post[]> {
+    let query = this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('status', 'DELETED');
+
+    if (workspaceId) {
+      query = query.eq('workspace_id', workspaceId);
+    }
+
+    const { data, error } = await query.order('deleted_at', {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new Error(`Error finding trashed posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
 
   /**
-   * Get billing information for a user
+   * Permanently delete trashed posts, optionally only one user's or those
+   * deleted before a cutoff. Returns how many were removed.
    */
-  async findBillingInfo(userId: string): Promise<BillingInfo | null> {
+  async purgeTrashedPosts(filters: {
+    userId?: string;
+    workspaceId?: string;
+    deletedBefore?: string;
+  }): Promise<number> {
+    let query = this.adminClient.from('posts').delete().eq('status', 'DELETED');
+
+    if (filters.userId) {
+      query = query.eq('user_id', filters.userId);
+    }
+
+    if (filters.workspaceId) {
+      query = query.eq('workspace_id', filters.workspaceId);
+    }
+
+    if (filters.deletedBefore) {
+      query = query.lt('deleted_at', filters.deletedBefore);
+    }
+
+    const { data, error } = await query.select('id');
+
+    if (error) {
+      throw new Error(`Error purging trashed posts: ${error.message}`);
+    }
+
+    return (data || []).length;
+  }
+
+  /**
+   * Find all posts in a recurring series, in publish order
+   */
+  async findSeriesPosts(seriesId: string, userId: string): Promise<Post[]> {
     const { data, error } = await this.adminClient
-      .from('billing_info')
+      .from('posts')
+      .select('*')
+      .eq('recurrence->>series_id', seriesId)
+      .eq('user_id', userId)
+      .order('scheduled_for', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding series posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  /**
+   * Store the outcome of a post import
+   */
+  async createPostImportJob(
+    jobData: Omit<PostImportJob, 'id' | 'created_at'>
+  ): Promise<PostImportJob> {
+    const { data, error } = await this.adminClient
+      .from('post_import_jobs')
+      .insert({
+        ...jobData,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating post import job: ${error.message}`);
+    }
+
+    return data as PostImportJob;
+  }
+
+  /**
+   * Find a user's post import job
+   */
+  async findPostImportJob(
+    jobId: string,
+    userId: string
+  ): Promise<PostImportJob | null> {
+    const { data, error } = await this.adminClient
+      .from('post_import_jobs')
       .select('*')
+      .eq('id', jobId)
       .eq('user_id', userId)
       .single();
 
     if (error && error.code !== 'PGRST116') {
-      throw new Error(`Error finding billing info: ${error.message}`);
+      throw new Error(`Error finding post import job: ${error.message}`);
     }
 
-    return data as BillingInfo;
+    return data as PostImportJob;
   }
 
   /**
-   * Create billing information for a user
+   * Store a new post revision
    */
-  async createBillingInfo(
-    billingData: Partial<BillingInfo>
-  ): Promise<BillingInfo> {
+  async createPostRevision(
+    revisionData: Omit<PostRevision, 'id' | 'created_at'>
+  ): Promise<PostRevision> {
     const { data, error } = await this.adminClient
-      .from('billing_info')
+      .from('post_revisions')
       .insert({
-        ...billingData,
+        ...revisionData,
         created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
       })
       .select()
       .single();
 
     if (error) {
-      throw new Error(`Error creating billing info: ${error.message}`);
+      throw new Error(`Error creating post revision: ${error.message}`);
     }
 
-    return data as BillingInfo;
+    return data as PostRevision;
   }
 
   /**
-   * Update billing information for a user
+   * Find every revision of a post, oldest first
    */
-  async updateBillingInfo(
-    userId: string,
-    updates: Partial<BillingInfo>
-  ): Promise<BillingInfo> {
+  async findPostRevisions(postId: string): Promise<PostRevision[]> {
     const { data, error } = await this.adminClient
-      .from('billing_info')
+      .from('post_revisions')
+      .select('*')
+      .eq('post_id', postId)
+      .order('revision', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding post revisions: ${error.message}`);
+    }
+
+    return (data || []) as PostRevision[];
+  }
+
+  /**
+   * Find a single revision of a post by its number
+   */
+  async findPostRevision(
+    postId: string,
+    revision: number
+  ): Promise<PostRevision | null> {
+    const { data, error } = await this.adminClient
+      .from('post_revisions')
+      .select('*')
+      .eq('post_id', postId)
+      .eq('revision', revision)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding post revision: ${error.message}`);
+    }
+
+    return data as PostRevision;
+  }
+
+  /**
+   * Find the number of a post's latest revision, or 0 if it has none
+   */
+  async findLatestPostRevisionNumber(postId: string): Promise<number> {
+    const { data, error } = await this.adminClient
+      .from('post_revisions')
+      .select('revision')
+      .eq('post_id', postId)
+      .order('revision', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Error finding latest post revision: ${error.message}`);
+    }
+
+    return (data?.[0]?.revision as number | undefined) ?? 0;
+  }
+
+  /**
+   * Find a post by ID regardless of its author, for workspace-level actions.
+   * Callers must check the user's workspace membership themselves.
+   */
+  async findWorkspacePost(postId: string): Promise<Post | null> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('id', postId)
+      .not('workspace_id', 'is', null)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding workspace post: ${error.message}`);
+    }
+
+    return data as Post;
+  }
+
+  /**
+   * Find a workspace's posts that are booked for a time after `from`,
+   * whether scheduled or waiting for approval, soonest first
+   */
+  async findWorkspaceUpcomingPosts(
+    workspaceId: string,
+    from: string
+  ): Promise<Post[]> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .in('status', ['SCHEDULED', 'PENDING_APPROVAL'])
+      .gt('scheduled_for', from)
+      .order('scheduled_for', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding upcoming posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  /**
+   * Find a workspace's posts published within [from, to), or scheduled
+   * within it if not yet published, including each occurrence of recurring
+   * series
+   */
+  async findWorkspaceCalendarPosts(
+    workspaceId: string,
+    from: string,
+    to: string
+  ): Promise<Post[]> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .neq('status', 'DELETED')
+      .or(
+        `and(published_at.is.null,scheduled_for.gte."${from}",scheduled_for.lt."${to}"),` +
+          `and(published_at.gte."${from}",published_at.lt."${to}")`
+      );
+
+    if (error) {
+      throw new Error(`Error finding calendar posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  /**
+   * Find a workspace's posts that are waiting for approval, oldest first
+   */
+  async findPendingApprovalPosts(workspaceId: string): Promise<Post[]> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .eq('status', 'PENDING_APPROVAL')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding posts pending approval: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  /**
+   * Find scheduled posts that are due and have not been handed to Postiz yet
+   */
+  async findDueScheduledPosts(
+    dueBefore: string,
+    limit: number
+  ): Promise<Post[]> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('status', 'SCHEDULED')
+      .is('postiz_post_id', null)
+      .lte('scheduled_for', dueBefore)
+      .order('scheduled_for', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Error finding due posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  /**
+   * Find posts stuck in PUBLISHING whose dispatch lock is older than the cutoff
+   */
+  async findStaleDispatchingPosts(lockedBefore: string): Promise<Post[]> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('status', 'PUBLISHING')
+      .lt('settings->dispatch->>locked_at', lockedBefore);
+
+    if (error) {
+      throw new Error(`Error finding stale posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  /**
+   * Update a post only if it is still in the expected status.
+   * Returns null when another process changed the status first.
+   */
+  async transitionPostStatus(
+    postId: string,
+    fromStatus: Post['status'],
+    updates: Partial<Post>
+  ): Promise<Post | null> {
+    const { data, error } = await this.adminClient
+      .from('posts')
       .update({ ...updates, updated_at: new Date().toISOString() })
-      .eq('user_id', userId)
+      .eq('id', postId)
+      .eq('status', fromStatus)
+      .select();
+
+    if (error) {
+      throw new Error(`Error updating post status: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? (data[0] as Post) : null;
+  }
+
+  // ===== Evergreen Library Operations =====
+
+  /**
+   * Add a post to its workspace's evergreen library
+   */
+  async createEvergreenItem(
+    itemData: Omit<EvergreenItem, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<EvergreenItem> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('evergreen_items')
+      .insert({ ...itemData, created_at: now, updated_at: now })
       .select()
       .single();
 
     if (error) {
-      throw new Error(`Error updating billing info: ${error.message}`);
+      throw new Error(`Error creating evergreen item: ${error.message}`);
     }
 
-    return data as BillingInfo;
+    return data as EvergreenItem;
+  }
+
+  /**
+   * Find the evergreen library entry for a post
+   */
+  async findEvergreenItemByPost(postId: string): Promise<EvergreenItem | null> {
+    const { data, error } = await this.adminClient
+      .from('evergreen_items')
+      .select('*')
+      .eq('post_id', postId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding evergreen item: ${error.message}`);
+    }
+
+    return data as EvergreenItem;
+  }
+
+  /**
+   * Find a workspace's evergreen library, oldest entries first
+   */
+  async findWorkspaceEvergreenItems(
+    workspaceId: string
+  ): Promise<EvergreenItem[]> {
+    const { data, error } = await this.adminClient
+      .from('evergreen_items')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding evergreen items: ${error.message}`);
+    }
+
+    return (data || []) as EvergreenItem[];
+  }
+
+  /**
+   * Find active evergreen items across all workspaces
+   */
+  async findActiveEvergreenItems(): Promise<EvergreenItem[]> {
+    const { data, error } = await this.adminClient
+      .from('evergreen_items')
+      .select('*')
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding evergreen items: ${error.message}`);
+    }
+
+    return (data || []) as EvergreenItem[];
+  }
+
+  /**
+   * Update an evergreen library entry
+   */
+  async updateEvergreenItem(
+    itemId: string,
+    updates: Partial<EvergreenItem>
+  ): Promise<EvergreenItem> {
+    const { data, error } = await this.adminClient
+      .from('evergreen_items')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', itemId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating evergreen item: ${error.message}`);
+    }
+
+    return data as EvergreenItem;
+  }
+
+  /**
+   * Update an evergreen item only if it has not been reposted since it was
+   * read, so that concurrent recyclers can't both repost it. Resolves to null
+   * when someone else got there first.
+   */
+  async claimEvergreenItem(
+    item: EvergreenItem,
+    updates: Partial<EvergreenItem>
+  ): Promise<EvergreenItem | null> {
+    const { data, error } = await this.adminClient
+      .from('evergreen_items')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', item.id)
+      .eq('repost_count', item.repost_count)
+      .select();
+
+    if (error) {
+      throw new Error(`Error claiming evergreen item: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? (data[0] as EvergreenItem) : null;
+  }
+
+  /**
+   * Remove an evergreen library entry
+   */
+  async deleteEvergreenItem(itemId: string): Promise<void> {
+    const { error } = await this.adminClient
+      .from('evergreen_items')
+      .delete()
+      .eq('id', itemId);
+
+    if (error) {
+      throw new Error(`Error deleting evergreen item: ${error.message}`);
+    }
+  }
+
+  // ===== Tag Operations =====
+
+  /**
+   * Create a workspace tag
+   */
+  async createPostTag(
+    tagData: Omit<PostTag, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<PostTag> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('post_tags')
+      .insert({ ...tagData, created_at: now, updated_at: now })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating tag: ${error.message}`);
+    }
+
+    return data as PostTag;
+  }
+
+  /**
+   * Find a tag by ID
+   */
+  async findPostTag(tagId: string): Promise<PostTag | null> {
+    const { data, error } = await this.adminClient
+      .from('post_tags')
+      .select('*')
+      .eq('id', tagId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding tag: ${error.message}`);
+    }
+
+    return data as PostTag;
+  }
+
+  /**
+   * Find a workspace's tags, sorted by name
+   */
+  async findWorkspacePostTags(workspaceId: string): Promise<PostTag[]> {
+    const { data, error } = await this.adminClient
+      .from('post_tags')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding tags: ${error.message}`);
+    }
+
+    return (data || []) as PostTag[];
+  }
+
+  /**
+   * Update a tag
+   */
+  async updatePostTag(
+    tagId: string,
+    updates: Partial<PostTag>
+  ): Promise<PostTag> {
+    const { data, error } = await this.adminClient
+      .from('post_tags')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', tagId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating tag: ${error.message}`);
+    }
+
+    return data as PostTag;
+  }
+
+  /**
+   * Delete a tag and take it off every post that has it
+   */
+  async deletePostTag(tagId: string): Promise<void> {
+    const { data: posts, error: findError } = await this.adminClient
+      .from('posts')
+      .select('id, tag_ids')
+      .contains('tag_ids', [tagId]);
+
+    if (findError) {
+      throw new Error(`Error finding tagged posts: ${findError.message}`);
+    }
+
+    for (const post of (posts || []) as Pick<Post, 'id' | 'tag_ids'>[]) {
+      const { error } = await this.adminClient
+        .from('posts')
+        .update({
+          tag_ids: (post.tag_ids ?? []).filter(id => id !== tagId),
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', post.id);
+
+      if (error) {
+        throw new Error(`Error removing tag from post: ${error.message}`);
+      }
+    }
+
+    const { error } = await this.adminClient
+      .from('post_tags')
+      .delete()
+      .eq('id', tagId);
+
+    if (error) {
+      throw new Error(`Error deleting tag: ${error.message}`);
+    }
+  }
+
+  // ===== Campaign Operations =====
+
+  /**
+   * Create a workspace campaign
+   */
+  async createCampaign(
+    campaignData: Omit<Campaign, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<Campaign> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('campaigns')
+      .insert({ ...campaignData, created_at: now, updated_at: now })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating campaign: ${error.message}`);
+    }
+
+    return data as Campaign;
+  }
+
+  /**
+   * Find a campaign by ID
+   */
+  async findCampaign(campaignId: string): Promise<Campaign | null> {
+    const { data, error } = await this.adminClient
+      .from('campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding campaign: ${error.message}`);
+    }
+
+    return data as Campaign;
+  }
+
+  /**
+   * Find a workspace's campaigns, newest first
+   */
+  async findWorkspaceCampaigns(workspaceId: string): Promise<Campaign[]> {
+    const { data, error } = await this.adminClient
+      .from('campaigns')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Error finding campaigns: ${error.message}`);
+    }
+
+    return (data || []) as Campaign[];
+  }
+
+  /**
+   * Update a campaign
+   */
+  async updateCampaign(
+    campaignId: string,
+    updates: Partial<Campaign>
+  ): Promise<Campaign> {
+    const { data, error } = await this.adminClient
+      .from('campaigns')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', campaignId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating campaign: ${error.message}`);
+    }
+
+    return data as Campaign;
+  }
+
+  /**
+   * Delete a campaign. Its posts are kept and taken out of the campaign.
+   */
+  async deleteCampaign(campaignId: string): Promise<void> {
+    const { error: postsError } = await this.adminClient
+      .from('posts')
+      .update({ campaign_id: null, updated_at: new Date().toISOString() })
+      .eq('campaign_id', campaignId);
+
+    if (postsError) {
+      throw new Error(
+        `Error removing posts from campaign: ${postsError.message}`
+      );
+    }
+
+    const { error } = await this.adminClient
+      .from('campaigns')
+      .delete()
+      .eq('id', campaignId);
+
+    if (error) {
+      throw new Error(`Error deleting campaign: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find the status of every post in a campaign, leaving out trashed posts
+   */
+  async findCampaignPostStatuses(
+    campaignId: string
+  ): Promise<Post['status'][]> {
+    const { data, error } = await this.adminClient
+      .from('posts')
+      .select('status')
+      .eq('campaign_id', campaignId)
+      .neq('status', 'DELETED');
+
+    if (error) {
+      throw new Error(`Error finding campaign posts: ${error.message}`);
+    }
+
+    return ((data || []) as Pick<Post, 'status'>[]).map(post => post.status);
+  }
+
+  // ===== Comment Operations =====
+
+  /**
+   * Add a comment to a post
+   */
+  async createPostComment(
+    commentData: Omit<PostComment, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<PostComment> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('post_comments')
+      .insert({ ...commentData, created_at: now, updated_at: now })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating comment: ${error.message}`);
+    }
+
+    return data as PostComment;
+  }
+
+  /**
+   * Find a comment by ID
+   */
+  async findPostComment(commentId: string): Promise<PostComment | null> {
+    const { data, error } = await this.adminClient
+      .from('post_comments')
+      .select('*')
+      .eq('id', commentId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding comment: ${error.message}`);
+    }
+
+    return data as PostComment;
+  }
+
+  /**
+   * Find every comment on a post, oldest first
+   */
+  async findPostComments(postId: string): Promise<PostComment[]> {
+    const { data, error } = await this.adminClient
+      .from('post_comments')
+      .select('*')
+      .eq('post_id', postId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding comments: ${error.message}`);
+    }
+
+    return (data || []) as PostComment[];
+  }
+
+  /**
+   * Update a comment
+   */
+  async updatePostComment(
+    commentId: string,
+    updates: Partial<PostComment>
+  ): Promise<PostComment> {
+    const { data, error } = await this.adminClient
+      .from('post_comments')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', commentId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating comment: ${error.message}`);
+    }
+
+    return data as PostComment;
+  }
+
+  /**
+   * Delete a comment along with its replies
+   */
+  async deletePostComment(commentId: string): Promise<void> {
+    const { error } = await this.adminClient
+      .from('post_comments')
+      .delete()
+      .or(`id.eq.${commentId},parent_id.eq.${commentId}`);
+
+    if (error) {
+      throw new Error(`Error deleting comment: ${error.message}`);
+    }
+  }
+
+  // ===== Post Template Operations =====
+
+  /**
+   * Create a workspace post template
+   */
+  async createPostTemplate(
+    templateData: Omit<PostTemplate, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<PostTemplate> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('post_templates')
+      .insert({ ...templateData, created_at: now, updated_at: now })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating post template: ${error.message}`);
+    }
+
+    return data as PostTemplate;
+  }
+
+  /**
+   * Find a post template by ID
+   */
+  async findPostTemplate(templateId: string): Promise<PostTemplate | null> {
+    const { data, error } = await this.adminClient
+      .from('post_templates')
+      .select('*')
+      .eq('id', templateId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding post template: ${error.message}`);
+    }
+
+    return data as PostTemplate;
+  }
+
+  /**
+   * Find a workspace's post templates, sorted by name
+   */
+  async findWorkspacePostTemplates(
+    workspaceId: string
+  ): Promise<PostTemplate[]> {
+    const { data, error } = await this.adminClient
+      .from('post_templates')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding post templates: ${error.message}`);
+    }
+
+    return (data || []) as PostTemplate[];
+  }
+
+  /**
+   * Update a post template
+   */
+  async updatePostTemplate(
+    templateId: string,
+    updates: Partial<PostTemplate>
+  ): Promise<PostTemplate> {
+    const { data, error } = await this.adminClient
+      .from('post_templates')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating post template: ${error.message}`);
+    }
+
+    return data as PostTemplate;
+  }
+
+  /**
+   * Delete a post template. Its versions are kept so posts created from
+   * it can still be traced.
+   */
+  async deletePostTemplate(templateId: string): Promise<void> {
+    const { error } = await this.adminClient
+      .from('post_templates')
+      .delete()
+      .eq('id', templateId);
+
+    if (error) {
+      throw new Error(`Error deleting post template: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a version of a post template
+   */
+  async createPostTemplateVersion(
+    versionData: Omit<PostTemplateVersion, 'id' | 'created_at'>
+  ): Promise<PostTemplateVersion> {
+    const { data, error } = await this.adminClient
+      .from('post_template_versions')
+      .insert({ ...versionData, created_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating post template version: ${error.message}`);
+    }
+
+    return data as PostTemplateVersion;
+  }
+
+  /**
+   * Find every version of a post template, oldest first
+   */
+  async findPostTemplateVersions(
+    templateId: string
+  ): Promise<PostTemplateVersion[]> {
+    const { data, error } = await this.adminClient
+      .from('post_template_versions')
+      .select('*')
+      .eq('template_id', templateId)
+      .order('version', { ascending: true });
+
+    if (error) {
+      throw new Error(`Error finding post template versions: ${error.message}`);
+    }
+
+    return (data || []) as PostTemplateVersion[];
+  }
+
+  /**
+   * Find posts created from a template, optionally from one version only,
+   * newest first
+   */
+  async findTemplatePosts(
+    templateId: string,
+    version?: number
+  ): Promise<Post[]> {
+    let query = this.adminClient
+      .from('posts')
+      .select('*')
+      .eq('template->>template_id', templateId)
+      .neq('status', 'DELETED');
+
+    if (version !== undefined) {
+      query = query.eq('template->>version', String(version));
+    }
+
+    const { data, error } = await query.order('created_at', {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new Error(`Error finding template posts: ${error.message}`);
+    }
+
+    return (data || []) as Post[];
+  }
+
+  // ===== Notification Operations =====
+
+  /**
+   * Store a notification for a user
+   */
+  async createNotification(
+    notificationData: CreateNotificationDto
+  ): Promise<UserNotification> {
+    const { data, error } = await this.adminClient
+      .from('notifications')
+      .insert({ ...notificationData, created_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating notification: ${error.message}`);
+    }
+
+    return data as UserNotification;
+  }
+
+  /**
+   * Find a user's notifications, newest first
+   */
+  async findUserNotifications(
+    userId: string,
+    unreadOnly: boolean,
+    limit: number
+  ): Promise<UserNotification[]> {
+    let query = this.adminClient
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Error finding notifications: ${error.message}`);
+    }
+
+    return (data || []) as UserNotification[];
+  }
+
+  /**
+   * Mark a user's unread notifications as read, limited to the given IDs
+   * when provided
+   */
+  async markNotificationsRead(
+    userId: string,
+    notificationIds?: string[]
+  ): Promise<UserNotification[]> {
+    let query = this.adminClient
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .is('read_at', null);
+
+    if (notificationIds) {
+      query = query.in('id', notificationIds);
+    }
+
+    const { data, error } = await query.select();
+
+    if (error) {
+      throw new Error(`Error marking notifications read: ${error.message}`);
+    }
+
+    return (data || []) as UserNotification[];
+  }
+
+  // ===== Billing Operations =====
+
+  /**
+   * Get billing information for a user
+   */
+  async findBillingInfo(userId: string): Promise<BillingInfo | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_info')
+      .select('*')
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding billing info: ${error.message}`);
+    }
+
+    return data as BillingInfo;
+  }
+
+  /**
+   * Create billing information for a user
+   */
+  async createBillingInfo(
+    billingData: Partial<BillingInfo>
+  ): Promise<BillingInfo> {
+    const { data, error } = await this.adminClient
+      .from('billing_info')
+      .insert({
+        ...billingData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating billing info: ${error.message}`);
+    }
+
+    return data as BillingInfo;
+  }
+
+  /**
+   * Update billing information for a user
+   */
+  async updateBillingInfo(
+    userId: string,
+    updates: Partial<BillingInfo>
+  ): Promise<BillingInfo> {
+    const { data, error } = await this.adminClient
+      .from('billing_info')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating billing info: ${error.message}`);
+    }
+
+    return data as BillingInfo;
+  }
+
+  /**
+   * Find the billing information linked to a Dodo customer
+   */
+  async findBillingInfoByCustomerId(
+    customerId: string
+  ): Promise<BillingInfo | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_info')
+      .select('*')
+      .eq('dodo_billing_customer_id', customerId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding billing info: ${error.message}`);
+    }
+
+    return data as BillingInfo | null;
+  }
+
+  /**
+   * Record a received billing webhook event, or return null if an event
+   * with the same ID was already recorded
+   */
+  async createBillingWebhookEvent(
+    event: Omit<BillingWebhookEvent, 'processed_at' | 'error_message'>
+  ): Promise<BillingWebhookEvent | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_webhook_events')
+      .insert(event)
+      .select()
+      .single();
+
+    // Unique violation on the event ID
+    if (error?.code === '23505') {
+      return null;
+    }
+
+    if (error) {
+      throw new Error(`Error recording webhook event: ${error.message}`);
+    }
+
+    return data as BillingWebhookEvent;
+  }
+
+  /**
+   * Claim a recorded billing webhook event for processing again if it
+   * failed, or if its processing started at or before `staleBefore` and
+   * never finished. Returns null when the event can't be claimed.
+   */
+  async claimBillingWebhookEvent(
+    eventId: string,
+    staleBefore: string,
+    startedAt: string
+  ): Promise<BillingWebhookEvent | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_webhook_events')
+      .update({ status: 'processing', processing_started_at: startedAt })
+      .eq('id', eventId)
+      .or(
+        `status.eq.failed,and(status.eq.processing,processing_started_at.lte.${staleBefore})`
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Error claiming webhook event: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? (data[0] as BillingWebhookEvent) : null;
+  }
+
+  /**
+   * Update a recorded billing webhook event
+   */
+  async updateBillingWebhookEvent(
+    eventId: string,
+    updates: Partial<BillingWebhookEvent>
+  ): Promise<void> {
+    const { error } = await this.adminClient
+      .from('billing_webhook_events')
+      .update(updates)
+      .eq('id', eventId);
+
+    if (error) {
+      throw new Error(`Error updating webhook event: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create or update an invoice, matched on its Dodo invoice ID
+   */
+  async saveBillingInvoice(
+    invoice: Omit<BillingInvoice, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<BillingInvoice> {
+    const { data: existing, error: findError } = await this.adminClient
+      .from('billing_invoices')
+      .select('id')
+      .eq('dodo_invoice_id', invoice.dodo_invoice_id)
+      .single();
+
+    if (findError && findError.code !== 'PGRST116') {
+      throw new Error(`Error finding invoice: ${findError.message}`);
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = existing
+      ? await this.adminClient
+          .from('billing_invoices')
+          .update({ ...invoice, updated_at: now })
+          .eq('id', existing.id)
+          .select()
+          .single()
+      : await this.adminClient
+          .from('billing_invoices')
+          .insert({ ...invoice, created_at: now, updated_at: now })
+          .select()
+          .single();
+
+    if (error) {
+      throw new Error(`Error saving invoice: ${error.message}`);
+    }
+
+    return data as BillingInvoice;
+  }
+
+  /**
+   * Find a user's invoices, newest first
+   */
+  async findUserBillingInvoices(userId: string): Promise<BillingInvoice[]> {
+    const { data, error } = await this.adminClient
+      .from('billing_invoices')
+      .select('*')
+      .eq('user_id', userId)
+      .order('issued_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Error finding invoices: ${error.message}`);
+    }
+
+    return (data || []) as BillingInvoice[];
+  }
+
+  /**
+   * Find an invoice by ID
+   */
+  async findBillingInvoice(invoiceId: string): Promise<BillingInvoice | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding invoice: ${error.message}`);
+    }
+
+    return data as BillingInvoice | null;
+  }
+
+  /**
+   * Find a trial taken by a user or for a workspace
+   */
+  async findBillingTrial(
+    userId: string,
+    workspaceId: string
+  ): Promise<BillingTrial | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_trials')
+      .select('*')
+      .or(`user_id.eq.${userId},workspace_id.eq.${workspaceId}`)
+      .limit(1);
+
+    if (error) {
+      throw new Error(`Error finding trial: ${error.message}`);
+    }
+
+    return (data?.[0] as BillingTrial) || null;
+  }
+
+  /**
+   * Record a trial, or return null if the user or workspace already has one
+   */
+  async createBillingTrial(
+    trial: Omit<BillingTrial, 'id'>
+  ): Promise<BillingTrial | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_trials')
+      .insert(trial)
+      .select()
+      .single();
+
+    // Unique violation on the user or workspace
+    if (error?.code === '23505') {
+      return null;
+    }
+
+    if (error) {
+      throw new Error(`Error creating trial: ${error.message}`);
+    }
+
+    return data as BillingTrial;
+  }
+
+  /**
+   * Update a user's trial only if it is still in the expected status.
+   * Returns null when another process changed the status first.
+   */
+  async transitionBillingTrial(
+    userId: string,
+    fromStatus: BillingTrialStatus,
+    updates: Partial<BillingTrial>
+  ): Promise<BillingTrial | null> {
+    const { data, error } = await this.adminClient
+      .from('billing_trials')
+      .update(updates)
+      .eq('user_id', userId)
+      .eq('status', fromStatus)
+      .select();
+
+    if (error) {
+      throw new Error(`Error updating trial: ${error.message}`);
+    }
+
+    return data && data.length > 0 ? (data[0] as BillingTrial) : null;
+  }
+
+  /**
+   * Find billing info for trials that ended at or before `now`
+   */
+  async findEndedTrials(now: string, limit: number): Promise<BillingInfo[]> {
+    const { data, error } = await this.adminClient
+      .from('billing_info')
+      .select('*')
+      .eq('subscription_status', 'trialing')
+      .lte('trial_ends_at', now)
+      .order('trial_ends_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Error finding ended trials: ${error.message}`);
+    }
+
+    return (data || []) as BillingInfo[];
+  }
+
+  /**
+   * Find trials claimed for conversion at or before `convertingBefore`
+   */
+  async findStaleConvertingTrials(
+    convertingBefore: string,
+    limit: number
+  ): Promise<BillingTrial[]> {
+    const { data, error } = await this.adminClient
+      .from('billing_trials')
+      .select('*')
+      .eq('status', 'converting')
+      .lte('converting_at', convertingBefore)
+      .order('converting_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Error finding stale trials: ${error.message}`);
+    }
+
+    return (data || []) as BillingTrial[];
+  }
+
+  // ===== Coupon Operations =====
+
+  /**
+   * Create a coupon
+   */
+  async createCoupon(
+    couponData: Omit<Coupon, 'id' | 'created_at' | 'updated_at'>
+  ): Promise<Coupon> {
+    const now = new Date().toISOString();
+    const { data, error } = await this.adminClient
+      .from('coupons')
+      .insert({ ...couponData, created_at: now, updated_at: now })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error creating coupon: ${error.message}`);
+    }
+
+    return data as Coupon;
+  }
+
+  /**
+   * Find a coupon by ID
+   */
+  async findCoupon(couponId: string): Promise<Coupon | null> {
+    const { data, error } = await this.adminClient
+      .from('coupons')
+      .select('*')
+      .eq('id', couponId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding coupon: ${error.message}`);
+    }
+
+    return data as Coupon | null;
+  }
+
+  /**
+   * Find a coupon by its (normalized) code
+   */
+  async findCouponByCode(code: string): Promise<Coupon | null> {
+    const { data, error } = await this.adminClient
+      .from('coupons')
+      .select('*')
+      .eq('code', code)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding coupon: ${error.message}`);
+    }
+
+    return data as Coupon | null;
+  }
+
+  /**
+   * Find every coupon, newest first
+   */
+  async findCoupons(): Promise<Coupon[]> {
+    const { data, error } = await this.adminClient
+      .from('coupons')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Error finding coupons: ${error.message}`);
+    }
+
+    return (data || []) as Coupon[];
+  }
+
+  /**
+   * Update a coupon
+   */
+  async updateCoupon(
+    couponId: string,
+    updates: Partial<Coupon>
+  ): Promise<Coupon> {
+    const { data, error } = await this.adminClient
+      .from('coupons')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', couponId)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error updating coupon: ${error.message}`);
+    }
+
+    return data as Coupon;
+  }
+
+  /**
+   * Delete a coupon. Discounts already applied keep their copy of it.
+   */
+  async deleteCoupon(couponId: string): Promise<void> {
+    const { error } = await this.adminClient
+      .from('coupons')
+      .delete()
+      .eq('id', couponId);
+
+    if (error) {
+      throw new Error(`Error deleting coupon: ${error.message}`);
+    }
+  }
+
+  /**
+   * Find a user's redemption of a coupon
+   */
+  async findCouponRedemption(
+    couponId: string,
+    userId: string
+  ): Promise<CouponRedemption | null> {
+    const { data, error } = await this.adminClient
+      .from('coupon_redemptions')
+      .select('*')
+      .eq('coupon_id', couponId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding coupon redemption: ${error.message}`);
+    }
+
+    return data as CouponRedemption | null;
+  }
+
+  /**
+   * Count a redemption against a coupon. Returns null, without redeeming,
+   * if the coupon was redeemed by someone else since it was read.
+   */
+  async redeemCoupon(
+    coupon: Coupon,
+    userId: string,
+    plan: CouponRedemption['plan']
+  ): Promise<CouponRedemption | null> {
+    const { data: updated, error: updateError } = await this.adminClient
+      .from('coupons')
+      .update({
+        times_redeemed: coupon.times_redeemed + 1,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', coupon.id)
+      .eq('times_redeemed', coupon.times_redeemed)
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Error redeeming coupon: ${updateError.message}`);
+    }
+
+    if (!updated || updated.length === 0) {
+      return null;
+    }
+
+    const { data, error } = await this.adminClient
+      .from('coupon_redemptions')
+      .insert({
+        coupon_id: coupon.id,
+        user_id: userId,
+        plan,
+        redeemed_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error recording coupon redemption: ${error.message}`);
+    }
+
+    return data as CouponRedemption;
+  }
+
+  /**
+   * Remove a user's redemption of a coupon. Returns false, without
+   * releasing, if the coupon was redeemed by someone else since it was read.
+   */
+  async releaseCouponRedemption(
+    coupon: Coupon,
+    userId: string
+  ): Promise<boolean> {
+    const { data: updated, error: updateError } = await this.adminClient
+      .from('coupons')
+      .update({
+        times_redeemed: Math.max(coupon.times_redeemed - 1, 0),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', coupon.id)
+      .eq('times_redeemed', coupon.times_redeemed)
+      .select('id');
+
+    if (updateError) {
+      throw new Error(`Error releasing coupon: ${updateError.message}`);
+    }
+
+    if (!updated || updated.length === 0) {
+      return false;
+    }
+
+    const { error } = await this.adminClient
+      .from('coupon_redemptions')
+      .delete()
+      .eq('coupon_id', coupon.id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Error removing coupon redemption: ${error.message}`);
+    }
+
+    return true;
+  }
+
+  // ===== Workspace Operations =====
+
+  /**
+   * Get the settings of a workspace
+   */
+  async findWorkspaceSettings(
+    workspaceId: string
+  ): Promise<WorkspaceSettings | null> {
+    const { data, error } = await this.adminClient
+      .from('workspaces')
+      .select('settings')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding workspace settings: ${error.message}`);
+    }
+
+    return (data?.settings as WorkspaceSettings) || null;
+  }
+
+  /**
+   * Find a user's role in a workspace, or null if they are not an active member
+   */
+  async findWorkspaceMemberRole(
+    workspaceId: string,
+    userId: string
+  ): Promise<WorkspaceRole | null> {
+    const { data, error } = await this.adminClient
+      .from('workspace_memberships')
+      .select('role')
+      .eq('workspace_id', workspaceId)
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding workspace member role: ${error.message}`);
+    }
+
+    return (data?.role as WorkspaceRole) || null;
+  }
+
+  /**
+   * Find the active members of a workspace with their names and emails
+   */
+  async findWorkspaceMembers(
+    workspaceId: string
+  ): Promise<
+    Pick<WorkspaceMember, 'user_id' | 'role' | 'email' | 'user_name'>[]
+  > {
+    const { data, error } = await this.adminClient
+      .from('workspace_memberships')
+      .select('user_id, role, users (email, name)')
+      .eq('workspace_id', workspaceId)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Error finding workspace members: ${error.message}`);
+    }
+
+    return (data || []).map((member: any) => ({
+      user_id: member.user_id,
+      role: member.role,
+      email: member.users?.email || '',
+      user_name: member.users?.name || '',
+    }));
+  }
+
+  /**
+   * Find the user who owns a workspace, and whose plan its posts count
+   * against
+   */
+  async findWorkspaceOwnerId(workspaceId: string): Promise<string | null> {
+    const { data, error } = await this.adminClient
+      .from('workspaces')
+      .select('created_by')
+      .eq('id', workspaceId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      throw new Error(`Error finding workspace owner: ${error.message}`);
+    }
+
+    return (data?.created_by as string) || null;
   }
 
   /**
@@ -16,13 +16,20 @@ import { requestLogger } from './middleware/requestLogger';
 import authController from './modules/auth';
 import workspaceController from './modules/workspace';
 import usersController from './modules/users';
-import billingController from './modules/billing';
+import billingController, { dodoWebhookRoutes } from './modules/billing';
 import postsController from './modules/posts';
+import notificationsController from './modules/notifications';
 import socialTokensController from './modules/social-tokens';
 import webhooksController from './modules/webhooks';
 import postizIntegrationController from './modules/postiz-integration';
 import proxyController from './modules/proxy';
 import { backendProxy } from './modules/proxy/backend.proxy';
+import {
+  EvergreenRecycler,
+  PostDispatcher,
+  TrashPurger,
+  TrialExpirer,
+} from './modules/scheduler';
 
 // Setup global error handling
 setupErrorHandling();
@@ -48,6 +55,10 @@ app.use(
   })
 );
 
+// Billing webhooks verify a signature over the raw body, so they are
+// mounted before the body parsers
+app.use('/api/billing/webhooks', dodoWebhookRoutes);
+
 // Parse request body
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -75,6 +86,7 @@ app.use('/api/workspaces', workspaceController);
 app.use('/api/users', usersController);
 app.use('/api/billing', billingController);
 app.use('/api/posts', postsController);
+app.use('/api/notifications', notificationsController);
 app.use('/api', socialTokensController);
 app.use('/api', webhooksController);
 app.use('/api', postizIntegrationController);
@@ -140,4 +152,24 @@ app.listen(PORT, () => {
   } else {
     console.warn('⚠️ SERVICE_ROLE_KEY is NOT set in middleware .env');
   }
+
+  // Publish SCHEDULED posts when they become due
+  if (config.scheduler.enabled) {
+    new PostDispatcher().start();
+  }
+
+  // Refill empty posting slots from workspace evergreen libraries
+  if (config.evergreen.enabled) {
+    new EvergreenRecycler().start();
+  }
+
+  // Permanently delete posts left in the trash past the retention period
+  if (config.trash.purgeEnabled) {
+    new TrashPurger().start();
+  }
+
+  // Convert or downgrade free trials once they end
+  if (config.trials.enabled) {
+    new TrialExpirer().start();
+  }
 });
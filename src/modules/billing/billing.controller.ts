@@ -63,6 +63,12 @@ router.get(
         status: billingInfo.subscription_status || 'inactive',
         currentPeriodEnd: billingInfo.current_period_end,
         cancelAtPeriodEnd: billingInfo.cancel_at_period_end,
+        discount: billingInfo.discount ?? null,
+        trialEndsAt:
+          billingInfo.subscription_status === 'trialing'
+            ? billingInfo.trial_ends_at
+            : null,
+        trialDaysRemaining: billingInfo.trial_days_remaining ?? null,
       },
     });
   })
@@ -147,7 +153,13 @@ router.post(
       });
     }
 
-    const { planId, billingInterval, paymentMethodId } = req.body;
+    const {
+      planId,
+      billingInterval,
+      paymentMethodId,
+      couponCode,
+      prorationDate,
+    } = req.body;
 
     if (
       !planId ||
@@ -172,7 +184,9 @@ router.post(
         req.user.id,
         planId as 'FREE' | 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE',
         billingInterval as 'monthly' | 'yearly',
-        paymentMethodId
+        paymentMethodId,
+        couponCode,
+        prorationDate
       );
 
       return res.json({
@@ -326,6 +340,209 @@ router.delete(
   })
 );
 
+// Preview the prorated cost of changing plan or billing interval
+router.post(
+  '/preview-change',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { planId, billingInterval, couponCode } = req.body;
+
+    if (
+      !planId ||
+      typeof planId !== 'string' ||
+      !['STARTER', 'PROFESSIONAL', 'ENTERPRISE'].includes(planId)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid paid planId is required',
+      });
+    }
+
+    if (!['monthly', 'yearly'].includes(billingInterval)) {
+      return res.status(400).json({
+        success: false,
+        message: "Billing interval must be 'monthly' or 'yearly'",
+      });
+    }
+
+    if (couponCode !== undefined && typeof couponCode !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Coupon code must be a string',
+      });
+    }
+
+    try {
+      const preview = await billingService.previewPlanChange(
+        req.user.id,
+        planId as 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE',
+        billingInterval as 'monthly' | 'yearly',
+        couponCode as string | undefined
+      );
+
+      return res.json({
+        success: true,
+        data: preview,
+      });
+    } catch (error: any) {
+      return res.status(400).json({
+        success: false,
+        message: error.message || 'Failed to preview plan change',
+      });
+    }
+  })
+);
+
+// Start a free trial of a paid plan for a workspace
+router.post(
+  '/trial',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { planId, workspaceId, billingInterval, paymentMethodId } = req.body;
+
+    if (
+      !planId ||
+      typeof planId !== 'string' ||
+      !['STARTER', 'PROFESSIONAL', 'ENTERPRISE'].includes(planId)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid paid planId is required',
+      });
+    }
+
+    if (!workspaceId || typeof workspaceId !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'workspaceId is required',
+      });
+    }
+
+    if (
+      billingInterval !== undefined &&
+      !['monthly', 'yearly'].includes(billingInterval)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: "Billing interval must be 'monthly' or 'yearly'",
+      });
+    }
+
+    const billingInfo = await billingService.startTrial(
+      req.user.id,
+      planId as 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE',
+      workspaceId,
+      billingInterval as 'monthly' | 'yearly' | undefined,
+      paymentMethodId
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: billingInfo,
+      message: `Started ${planId} trial`,
+    });
+  })
+);
+
+// Get invoice history
+router.get(
+  '/invoices',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const invoices = await billingService.getInvoices(req.user.id);
+
+    return res.json({
+      success: true,
+      data: invoices,
+    });
+  })
+);
+
+// Get a single invoice
+router.get(
+  '/invoices/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const invoice = await billingService.getInvoice(
+      req.user.id,
+      req.params.id as string
+    );
+
+    return res.json({
+      success: true,
+      data: invoice,
+    });
+  })
+);
+
+// Download an invoice receipt as HTML (default) or PDF
+router.get(
+  '/invoices/:id/receipt',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const format = req.query.format ?? 'html';
+    if (format !== 'html' && format !== 'pdf') {
+      return res.status(400).json({
+        success: false,
+        message: "Format must be 'html' or 'pdf'",
+      });
+    }
+
+    const { invoice, content } = await billingService.getReceipt(
+      req.user.id,
+      req.params.id as string,
+      format
+    );
+
+    const filename = `receipt-${invoice.number.replace(/[^\w.-]/g, '_')}`;
+    if (format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader(
+        'Content-Disposition',
+        `attachment; filename="${filename}.pdf"`
+      );
+    } else {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `inline; filename="${filename}.html"`
+      );
+    }
+
+    return res.send(content);
+  })
+);
+
 // Create billing portal session
 router.post(
   '/portal',
@@ -1,18 +1,34 @@
 import {
   BillingInfo,
+  BillingInvoice,
+  BillingTrialStatus,
+  Coupon,
+  CouponPreview,
   PlanConfig,
   PlanLimits,
+  ProrationPreview,
 } from '../../types/core-modules.types';
 import {
   CreatePaymentMethodDto,
   PaymentMethod,
   SubscriptionRequest,
   SubscriptionResponse,
+  SubscriptionUpdateRequest,
   BillingPortalSessionResponse,
 } from '../../types/payment.types';
 import { db } from '../../database/database.service';
 import { DodoService } from './dodo.service';
+import { calculateProration } from './proration';
+import { renderReceiptHtml, renderReceiptPdf } from './receipt';
+import { CouponsService } from '../coupons/coupons.service';
+import { calculateDiscount } from '../coupons/coupon.validation';
 import { config } from '../../common/config';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
 
 // Plan configurations
 const PLAN_CONFIGS: Record<string, PlanConfig> = {
@@ -52,6 +68,7 @@ const PLAN_CONFIGS: Record<string, PlanConfig> = {
       'Enhanced analytics',
       'Email support',
     ],
+    trialDays: 7,
   },
   PROFESSIONAL: {
     id: 'PROFESSIONAL',
@@ -73,6 +90,7 @@ const PLAN_CONFIGS: Record<string, PlanConfig> = {
       'Priority support',
       'Custom branding',
     ],
+    trialDays: 14,
   },
   ENTERPRISE: {
     id: 'ENTERPRISE',
@@ -97,19 +115,43 @@ const PLAN_CONFIGS: Record<string, PlanConfig> = {
   },
 };
 
+// Plan prices above are charged in this currency
+const PLAN_CURRENCY = 'USD';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How old a proration date from a preview can be when changing plan
+const MAX_PRORATION_DATE_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * A plan's price for one billing interval, in cents
+ */
+const getPlanPrice = (
+  planConfig: PlanConfig,
+  billingInterval: 'monthly' | 'yearly'
+): number =>
+  Math.round(
+    (billingInterval === 'yearly'
+      ? planConfig.priceYearly
+      : planConfig.priceMonthly) * 100
+  );
+
 /**
  * Billing service for managing subscription plans and usage
  */
 export class BillingService {
   private dodoService: DodoService;
+  private couponsService: CouponsService;
 
   constructor() {
     // Initialize Dodo payment service
     this.dodoService = new DodoService();
+    this.couponsService = new CouponsService();
   }
 
   /**
-   * Get billing information for a user
+   * Get billing information for a user, with the days left in their trial
+   * if they are on one
    */
   async getBillingInfo(userId: string): Promise<BillingInfo> {
     let billingInfo = await db.findBillingInfo(userId);
@@ -126,6 +168,17 @@ export class BillingService {
       });
     }
 
+    if (
+      billingInfo.subscription_status === 'trialing' &&
+      billingInfo.trial_ends_at
+    ) {
+      const remainingMs = Date.parse(billingInfo.trial_ends_at) - Date.now();
+      billingInfo.trial_days_remaining = Math.max(
+        0,
+        Math.ceil(remainingMs / DAY_MS)
+      );
+    }
+
     return billingInfo;
   }
 
@@ -150,7 +203,8 @@ export class BillingService {
    * Check if user can create a new post based on their plan limits
    */
   async canCreatePost(
-    userId: string
+    userId: string,
+    count: number = 1
   ): Promise<{ canCreate: boolean; reason?: string }> {
     const billingInfo = await this.getBillingInfo(userId);
     const planConfig =
@@ -159,7 +213,7 @@ export class BillingService {
     if (planConfig.limits.maxPosts === -1) return { canCreate: true };
 
     const canCreate =
-      billingInfo.posts_used_this_month < planConfig.limits.maxPosts;
+      billingInfo.posts_used_this_month + count <= planConfig.limits.maxPosts;
     return {
       canCreate,
       reason: canCreate
@@ -215,10 +269,10 @@ export class BillingService {
   /**
    * Increment post usage count
    */
-  async incrementPostUsage(userId: string): Promise<void> {
+  async incrementPostUsage(userId: string, count: number = 1): Promise<void> {
     const billingInfo = await this.getBillingInfo(userId);
     await db.updateBillingInfo(userId, {
-      posts_used_this_month: billingInfo.posts_used_this_month + 1,
+      posts_used_this_month: billingInfo.posts_used_this_month + count,
     });
   }
 
@@ -264,13 +318,17 @@ export class BillingService {
 
   /**
    * Update user plan
-   * This integrates with Dodo Payments API
+   * This integrates with Dodo Payments API. Changes to an existing
+   * subscription are prorated as `previewPlanChange` shows; pass the
+   * preview's `prorationDate` to be charged exactly what it showed.
    */
   async updatePlan(
     userId: string,
     planId: 'FREE' | 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE',
     billingInterval: 'monthly' | 'yearly' = 'monthly',
-    paymentMethodId?: string
+    paymentMethodId?: string,
+    couponCode?: string,
+    prorationDate?: string
   ): Promise<BillingInfo> {
     if (!PLAN_CONFIGS[planId]) {
       throw new Error(`Invalid plan: ${planId}`);
@@ -278,14 +336,34 @@ export class BillingService {
 
     // Free plan doesn't require payment processing
     if (planId === 'FREE') {
+      if (couponCode) {
+        throw new Error('Coupons only apply to paid plans');
+      }
+
+      const currentInfo = await this.getBillingInfo(userId);
+      if (currentInfo.subscription_status === 'trialing') {
+        await this.closeTrial(userId, 'cancelled');
+      }
+
       return await db.updateBillingInfo(userId, {
         current_plan: planId,
         subscription_status: 'active',
         billing_interval: null,
+        discount: null,
         updated_at: new Date().toISOString(),
       });
     }
 
+    // Check the coupon before anything is charged
+    const coupon = couponCode
+      ? await this.couponsService.getRedeemableCoupon(
+          userId,
+          couponCode,
+          planId,
+          PLAN_CURRENCY
+        )
+      : null;
+
     // Get user billing info
     const billingInfo = await this.getBillingInfo(userId);
 
@@ -326,20 +404,485 @@ export class BillingService {
       subscriptionRequest.paymentMethodId = paymentMethodId;
     }
 
-    const subscription = await this.dodoService.createSubscription(
-      billingInfo.dodo_billing_customer_id!,
-      subscriptionRequest
-    );
+    if (coupon) {
+      subscriptionRequest.couponCode = coupon.code;
+    }
 
-    // Update billing info in database
-    return await db.updateBillingInfo(userId, {
+    // Switch an existing paid subscription in place, prorated, rather than
+    // starting another one
+    const subscriptionId = this.hasPaidPeriod(billingInfo)
+      ? await this.findSubscriptionId(billingInfo)
+      : undefined;
+
+    const proration = subscriptionId
+      ? this.calculatePlanChange(
+          billingInfo,
+          planId,
+          billingInterval,
+          this.resolveProrationDate(billingInfo, prorationDate),
+          coupon
+        )
+      : null;
+
+    // Redeem the coupon before charging, so that it can't be charged at a
+    // discount once it has run out. It is given back if the charge fails.
+    const discount = coupon
+      ? await this.couponsService.redeemCoupon(userId, coupon, planId)
+      : null;
+
+    let subscription: SubscriptionResponse;
+    try {
+      if (subscriptionId && proration) {
+        const updateRequest: SubscriptionUpdateRequest = {
+          planId: dodoPlanId,
+          billingInterval,
+          prorationAmount: proration.total,
+          prorationDate: proration.proration_date,
+        };
+        if (coupon) {
+          updateRequest.couponCode = coupon.code;
+        }
+
+        subscription = await this.dodoService.updateSubscription(
+          subscriptionId,
+          updateRequest
+        );
+      } else {
+        subscription = await this.dodoService.createSubscription(
+          billingInfo.dodo_billing_customer_id,
+          subscriptionRequest
+        );
+      }
+    } catch (error) {
+      if (coupon) {
+        await this.couponsService.releaseCoupon(userId, coupon.id);
+      }
+      throw error;
+    }
+
+    const updates: Partial<BillingInfo> = {
       current_plan: planId,
       subscription_status: subscription.status,
       billing_interval: billingInterval,
       current_period_start: subscription.currentPeriodStart,
       current_period_end: subscription.currentPeriodEnd,
       cancel_at_period_end: subscription.cancelAtPeriodEnd,
+      dodo_subscription_id: subscription.id,
       updated_at: new Date().toISOString(),
+    };
+
+    if (discount) {
+      // One-off discounts only cover the first billing period
+      if (discount.duration === 'once') {
+        discount.ends_at = subscription.currentPeriodEnd;
+      }
+      updates.discount = discount;
+    }
+
+    // Paying during a trial converts it
+    if (billingInfo.subscription_status === 'trialing') {
+      await this.closeTrial(userId, 'converted');
+    }
+
+    // Update billing info in database
+    return await db.updateBillingInfo(userId, updates);
+  }
+
+  /**
+   * Preview what a plan costs for one billing period with a coupon, without
+   * redeeming it
+   */
+  async previewCoupon(
+    userId: string,
+    couponCode: unknown,
+    planId: BillingInfo['current_plan'],
+    billingInterval: 'monthly' | 'yearly'
+  ): Promise<CouponPreview> {
+    const planConfig = PLAN_CONFIGS[planId];
+    if (!planConfig) {
+      throw new Error(`Invalid plan: ${planId}`);
+    }
+
+    const coupon = await this.couponsService.getRedeemableCoupon(
+      userId,
+      couponCode,
+      planId,
+      PLAN_CURRENCY
+    );
+
+    const price = getPlanPrice(planConfig, billingInterval);
+    const discount = calculateDiscount(coupon, price);
+
+    const preview: CouponPreview = {
+      code: coupon.code,
+      plan: planId,
+      billing_interval: billingInterval,
+      currency: PLAN_CURRENCY,
+      price,
+      discount,
+      total: price - discount,
+      duration: coupon.duration,
+    };
+    if (coupon.duration === 'repeating' && coupon.duration_in_months) {
+      preview.duration_in_months = coupon.duration_in_months;
+    }
+
+    return preview;
+  }
+
+  /**
+   * Preview the prorated charge or credit for switching plan and/or billing
+   * interval now, with a coupon if one is given. The coupon is not redeemed.
+   */
+  async previewPlanChange(
+    userId: string,
+    planId: BillingInfo['current_plan'],
+    billingInterval: 'monthly' | 'yearly',
+    couponCode?: string
+  ): Promise<ProrationPreview> {
+    const coupon = couponCode
+      ? await this.couponsService.getRedeemableCoupon(
+          userId,
+          couponCode,
+          planId,
+          PLAN_CURRENCY
+        )
+      : null;
+
+    const billingInfo = await this.getBillingInfo(userId);
+    return this.calculatePlanChange(
+      billingInfo,
+      planId,
+      billingInterval,
+      new Date(),
+      coupon
+    );
+  }
+
+  /**
+   * Start a free trial of a paid plan for a workspace the user owns. Each
+   * user and each workspace can only have one trial. A payment method given
+   * here is used to convert the trial when it ends.
+   */
+  async startTrial(
+    userId: string,
+    planId: BillingInfo['current_plan'],
+    workspaceId: string,
+    billingInterval: 'monthly' | 'yearly' = 'monthly',
+    paymentMethodId?: string
+  ): Promise<BillingInfo> {
+    const trialDays = PLAN_CONFIGS[planId]?.trialDays;
+    if (!trialDays) {
+      throw new ValidationError('Invalid trial', [
+        {
+          field: 'planId',
+          value: planId,
+          message: `The ${planId} plan has no free trial`,
+        },
+      ]);
+    }
+
+    const ownerId = await db.findWorkspaceOwnerId(workspaceId);
+    if (!ownerId) {
+      throw new NotFoundError('Workspace', workspaceId);
+    }
+    if (ownerId !== userId) {
+      throw new AuthorizationError(
+        'Only the workspace owner can start a free trial'
+      );
+    }
+
+    const billingInfo = await this.getBillingInfo(userId);
+    if (billingInfo.current_plan !== 'FREE') {
+      throw new ConflictError(
+        'Free trials are only available on the Free plan'
+      );
+    }
+
+    const usedMessage =
+      'A free trial has already been used by this account or workspace';
+    if (await db.findBillingTrial(userId, workspaceId)) {
+      throw new ConflictError(usedMessage);
+    }
+
+    const startsAt = new Date();
+    const endsAt = new Date(startsAt.getTime() + trialDays * DAY_MS);
+    const trial = await db.createBillingTrial({
+      user_id: userId,
+      workspace_id: workspaceId,
+      plan: planId,
+      status: 'active',
+      started_at: startsAt.toISOString(),
+      ends_at: endsAt.toISOString(),
+    });
+    if (!trial) {
+      throw new ConflictError(usedMessage);
+    }
+
+    const updates: Partial<BillingInfo> = {
+      current_plan: planId,
+      subscription_status: 'trialing',
+      billing_interval: billingInterval,
+      cancel_at_period_end: false,
+      trial_started_at: trial.started_at,
+      trial_ends_at: trial.ends_at,
+      updated_at: new Date().toISOString(),
+    };
+    if (paymentMethodId) {
+      updates.default_payment_method_id = paymentMethodId;
+    }
+
+    await db.updateBillingInfo(userId, updates);
+    return await this.getBillingInfo(userId);
+  }
+
+  /**
+   * End a user's trial once its time is up. The trial converts to a paid
+   * subscription if the user has a payment method and didn't cancel;
+   * otherwise, or if the payment fails, they are moved to the Free plan.
+   * The trial is claimed first so that only one instance charges for it.
+   */
+  async endTrial(userId: string, now: Date = new Date()): Promise<BillingInfo> {
+    const billingInfo = await this.getBillingInfo(userId);
+    if (
+      billingInfo.subscription_status !== 'trialing' ||
+      !billingInfo.trial_ends_at ||
+      Date.parse(billingInfo.trial_ends_at) > now.getTime()
+    ) {
+      return billingInfo;
+    }
+
+    const claimed = await db.transitionBillingTrial(userId, 'active', {
+      status: 'converting',
+      converting_at: now.toISOString(),
+    });
+    if (!claimed) {
+      return billingInfo;
+    }
+
+    try {
+      return await this.convertTrial(userId, billingInfo, now);
+    } catch (error) {
+      // Hand the trial back so that a later run can end it
+      await db.transitionBillingTrial(userId, 'converting', {
+        status: 'active',
+        converting_at: null,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Finish a trial whose conversion was interrupted. If billing was already
+   * changed the trial is closed to match; otherwise the user moves to the
+   * Free plan.
+   */
+  async recoverTrial(userId: string, now: Date = new Date()): Promise<void> {
+    const billingInfo = await this.getBillingInfo(userId);
+    if (billingInfo.subscription_status === 'trialing') {
+      await this.downgradeTrial(userId, 'expired', 'converting', now);
+      return;
+    }
+
+    await this.closeTrial(
+      userId,
+      billingInfo.current_plan === 'FREE' ? 'expired' : 'converted',
+      'converting',
+      now
+    );
+  }
+
+  /**
+   * Convert a claimed trial to a paid subscription, or move the user to the
+   * Free plan if they cancelled or can't be charged
+   */
+  private async convertTrial(
+    userId: string,
+    billingInfo: BillingInfo,
+    now: Date
+  ): Promise<BillingInfo> {
+    if (billingInfo.cancel_at_period_end) {
+      return await this.downgradeTrial(userId, 'cancelled', 'converting', now);
+    }
+
+    if (
+      billingInfo.default_payment_method_id &&
+      billingInfo.current_plan !== 'FREE'
+    ) {
+      let converted: BillingInfo;
+      try {
+        converted = await this.updatePlan(
+          userId,
+          billingInfo.current_plan,
+          billingInfo.billing_interval ?? 'monthly',
+          billingInfo.default_payment_method_id
+        );
+      } catch (error) {
+        console.error(`Failed to convert trial for user ${userId}:`, error);
+        return await this.downgradeTrial(userId, 'expired', 'converting', now);
+      }
+
+      // The user has paid, so the trial must not be handed back. If it
+      // can't be closed now, the trial expirer recovers it later.
+      try {
+        await this.closeTrial(userId, 'converted', 'converting', now);
+      } catch (error) {
+        console.error(`Failed to close trial for user ${userId}:`, error);
+      }
+      return converted;
+    }
+
+    return await this.downgradeTrial(userId, 'expired', 'converting', now);
+  }
+
+  /**
+   * Move a trialing user back to the Free plan
+   */
+  private async downgradeTrial(
+    userId: string,
+    status: BillingTrialStatus,
+    fromStatus: BillingTrialStatus = 'active',
+    now: Date = new Date()
+  ): Promise<BillingInfo> {
+    // Billing changes first, so a failure leaves the trial open to retry
+    const billingInfo = await db.updateBillingInfo(userId, {
+      current_plan: 'FREE',
+      subscription_status: 'active',
+      billing_interval: null,
+      cancel_at_period_end: false,
+      updated_at: now.toISOString(),
+    });
+
+    await this.closeTrial(userId, status, fromStatus, now);
+    return billingInfo;
+  }
+
+  /**
+   * Whether the user is paying for the current billing period, so that a
+   * plan change has unused time to credit
+   */
+  private hasPaidPeriod(billingInfo: BillingInfo): boolean {
+    return (
+      billingInfo.current_plan !== 'FREE' &&
+      (billingInfo.subscription_status === 'active' ||
+        billingInfo.subscription_status === 'past_due') &&
+      Boolean(billingInfo.billing_interval)
+    );
+  }
+
+  /**
+   * The prorated cost of moving a user to a paid plan and interval at
+   * `prorationDate`, less any coupon
+   */
+  private calculatePlanChange(
+    billingInfo: BillingInfo,
+    planId: BillingInfo['current_plan'],
+    billingInterval: 'monthly' | 'yearly',
+    prorationDate: Date,
+    coupon?: Coupon | null
+  ): ProrationPreview {
+    const newPlanConfig = PLAN_CONFIGS[planId];
+    if (!newPlanConfig || planId === 'FREE') {
+      throw new Error(`Invalid plan: ${planId}`);
+    }
+
+    const paidPeriod = this.hasPaidPeriod(billingInfo);
+    const currentInterval = paidPeriod
+      ? billingInfo.billing_interval
+      : undefined;
+    if (
+      paidPeriod &&
+      billingInfo.current_plan === planId &&
+      currentInterval === billingInterval
+    ) {
+      throw new Error(
+        `You are already on the ${planId} plan billed ${billingInterval}`
+      );
+    }
+
+    const currentPlanConfig = PLAN_CONFIGS[billingInfo.current_plan];
+    return calculateProration({
+      currentPlan: billingInfo.current_plan,
+      ...(currentInterval ? { currentInterval } : {}),
+      currentPrice:
+        currentInterval && currentPlanConfig
+          ? getPlanPrice(currentPlanConfig, currentInterval)
+          : 0,
+      ...(billingInfo.current_period_start
+        ? { periodStart: billingInfo.current_period_start }
+        : {}),
+      ...(billingInfo.current_period_end
+        ? { periodEnd: billingInfo.current_period_end }
+        : {}),
+      newPlan: planId,
+      newInterval: billingInterval,
+      newPrice: getPlanPrice(newPlanConfig, billingInterval),
+      currency: PLAN_CURRENCY,
+      prorationDate,
+      ...(coupon ? { coupon } : {}),
+    });
+  }
+
+  /**
+   * Use the proration date from a preview if it is recent and within the
+   * current period, so the charge matches what the user was shown
+   */
+  private resolveProrationDate(
+    billingInfo: BillingInfo,
+    prorationDate?: string
+  ): Date {
+    const now = new Date();
+    if (!prorationDate) {
+      return now;
+    }
+
+    const date = new Date(prorationDate);
+    const periodStart = billingInfo.current_period_start
+      ? Date.parse(billingInfo.current_period_start)
+      : NaN;
+    if (
+      isNaN(date.getTime()) ||
+      date.getTime() > now.getTime() ||
+      now.getTime() - date.getTime() > MAX_PRORATION_DATE_AGE_MS ||
+      date.getTime() < periodStart
+    ) {
+      throw new Error(
+        'Proration date has expired, please preview the change again'
+      );
+    }
+
+    return date;
+  }
+
+  /**
+   * The user's Dodo subscription, for billing info saved before the
+   * subscription ID was stored
+   */
+  private async findSubscriptionId(
+    billingInfo: BillingInfo
+  ): Promise<string | undefined> {
+    if (billingInfo.dodo_subscription_id) {
+      return billingInfo.dodo_subscription_id;
+    }
+    if (!billingInfo.dodo_billing_customer_id) {
+      return undefined;
+    }
+
+    const customer = await this.dodoService.getCustomer(
+      billingInfo.dodo_billing_customer_id
+    );
+    return customer.subscriptions?.data?.[0]?.id;
+  }
+
+  private async closeTrial(
+    userId: string,
+    status: BillingTrialStatus,
+    fromStatus: BillingTrialStatus = 'active',
+    now: Date = new Date()
+  ): Promise<void> {
+    await db.transitionBillingTrial(userId, fromStatus, {
+      status,
+      ended_at: now.toISOString(),
     });
   }
 
@@ -353,6 +896,19 @@ export class BillingService {
     // Get user billing info
     const billingInfo = await this.getBillingInfo(userId);
 
+    // Trials have nothing to cancel with Dodo. Cancelling at period end stops
+    // the trial converting when it ends.
+    if (billingInfo.subscription_status === 'trialing') {
+      if (!atPeriodEnd) {
+        return await this.downgradeTrial(userId, 'cancelled');
+      }
+
+      return await db.updateBillingInfo(userId, {
+        cancel_at_period_end: true,
+        updated_at: new Date().toISOString(),
+      });
+    }
+
     // Can't cancel if no subscription or Free plan
     if (
       billingInfo.current_plan === 'FREE' ||
@@ -376,6 +932,7 @@ export class BillingService {
         return await db.updateBillingInfo(userId, {
           current_plan: 'FREE',
           subscription_status: 'cancelled',
+          discount: null,
           updated_at: new Date().toISOString(),
         });
       }
@@ -490,6 +1047,38 @@ export class BillingService {
     );
   }
 
+  /**
+   * Get the user's invoices, newest first
+   */
+  async getInvoices(userId: string): Promise<BillingInvoice[]> {
+    return await db.findUserBillingInvoices(userId);
+  }
+
+  /**
+   * Get one of the user's invoices
+   */
+  async getInvoice(userId: string, invoiceId: string): Promise<BillingInvoice> {
+    const invoice = await db.findBillingInvoice(invoiceId);
+    if (!invoice || invoice.user_id !== userId) {
+      throw new NotFoundError('Invoice', invoiceId);
+    }
+    return invoice;
+  }
+
+  /**
+   * Render one of the user's invoices as a receipt
+   */
+  async getReceipt(
+    userId: string,
+    invoiceId: string,
+    format: 'html' | 'pdf'
+  ): Promise<{ invoice: BillingInvoice; content: string | Buffer }> {
+    const invoice = await this.getInvoice(userId, invoiceId);
+    const content =
+      format === 'pdf' ? renderReceiptPdf(invoice) : renderReceiptHtml(invoice);
+    return { invoice, content };
+  }
+
   /**
    * Reset monthly usage counters
    * This would typically be run by a cron job at the beginning of each month
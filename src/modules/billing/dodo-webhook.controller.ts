@@ -0,0 +1,32 @@
+import express, { Router, Request, Response } from 'express';
+import { asyncHandler } from '../../utils/async-handler';
+import { DodoWebhookService } from './dodo-webhook.service';
+
+const router = Router();
+const dodoWebhookService = new DodoWebhookService();
+
+// Dodo webhook endpoint (public, authenticated by its signature). The
+// signature covers the exact bytes sent, so the body is read raw.
+router.post(
+  '/dodo',
+  express.raw({ type: '*/*', limit: '1mb' }),
+  asyncHandler(async (req: Request, res: Response) => {
+    const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+    const result = await dodoWebhookService.handleWebhook(rawBody, {
+      id: (req.headers['webhook-id'] as string) || '',
+      timestamp: (req.headers['webhook-timestamp'] as string) || '',
+      signature: (req.headers['webhook-signature'] as string) || '',
+    });
+
+    return res.json({
+      success: true,
+      data: result,
+      message: result.duplicate
+        ? 'Webhook already processed'
+        : 'Webhook processed successfully',
+    });
+  })
+);
+
+export { router as dodoWebhookRoutes };
+export default router;
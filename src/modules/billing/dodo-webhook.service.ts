@@ -0,0 +1,318 @@
+import { config } from '../../common/config';
+import { db } from '../../database/database.service';
+import { BillingInfo } from '../../types/core-modules.types';
+import { InvoiceStatus } from '../../types/enums.types';
+import {
+  DodoInvoiceObject,
+  DodoPaymentMethodObject,
+  DodoSubscriptionObject,
+  DodoWebhookEvent,
+  DodoWebhookHeaders,
+} from '../../types/payment.types';
+import { DodoService } from './dodo.service';
+import { toBillingInvoice, toIsoTime } from './invoices';
+
+type PaidPlan = Exclude<BillingInfo['current_plan'], 'FREE'>;
+
+// Events still processing after this long are assumed to have crashed
+export const WEBHOOK_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface DodoWebhookResult {
+  event_id: string;
+  type: string;
+  duplicate: boolean;
+}
+
+/**
+ * Find the plan and billing interval behind a Dodo plan ID
+ */
+export const resolveDodoPlan = (
+  dodoPlanId: string
+): { plan: PaidPlan; interval: 'monthly' | 'yearly' } | null => {
+  for (const [plan, intervals] of Object.entries(config.dodo.planIds)) {
+    if (intervals.monthly === dodoPlanId) {
+      return { plan: plan as PaidPlan, interval: 'monthly' };
+    }
+    if (intervals.yearly === dodoPlanId) {
+      return { plan: plan as PaidPlan, interval: 'yearly' };
+    }
+  }
+  return null;
+};
+
+/**
+ * Map a Dodo subscription status onto the ones we track
+ */
+export const toSubscriptionStatus = (
+  status: string
+): NonNullable<BillingInfo['subscription_status']> => {
+  switch (status) {
+    case 'canceled':
+    case 'cancelled':
+      return 'cancelled';
+    case 'trialing':
+      return 'trialing';
+    case 'past_due':
+    case 'unpaid':
+    case 'incomplete':
+      return 'past_due';
+    default:
+      return 'active';
+  }
+};
+
+/**
+ * Processes Dodo Payments webhooks, keeping each customer's billing info in
+ * step with their Dodo subscription
+ */
+export class DodoWebhookService {
+  private dodoService: DodoService;
+
+  constructor() {
+    this.dodoService = new DodoService();
+  }
+
+  /**
+   * Verify and process a webhook delivery. Events already processed are
+   * acknowledged without being applied again; failed ones, and ones whose
+   * processing stalled, are retried when Dodo redelivers them.
+   */
+  async handleWebhook(
+    rawBody: string,
+    headers: DodoWebhookHeaders
+  ): Promise<DodoWebhookResult> {
+    const event = this.dodoService.parseWebhookEvent(rawBody, headers);
+    const result = { event_id: event.id, type: event.type, duplicate: false };
+
+    const now = new Date();
+    const recorded = await db.createBillingWebhookEvent({
+      id: event.id,
+      type: event.type,
+      status: 'processing',
+      received_at: now.toISOString(),
+      processing_started_at: now.toISOString(),
+    });
+    if (!recorded) {
+      const claimed = await db.claimBillingWebhookEvent(
+        event.id,
+        new Date(now.getTime() - WEBHOOK_PROCESSING_TIMEOUT_MS).toISOString(),
+        now.toISOString()
+      );
+      if (!claimed) {
+        return { ...result, duplicate: true };
+      }
+    }
+
+    try {
+      await this.applyEvent(event);
+    } catch (error: any) {
+      await db.updateBillingWebhookEvent(event.id, {
+        status: 'failed',
+        error_message: error.message,
+      });
+      throw error;
+    }
+
+    await db.updateBillingWebhookEvent(event.id, {
+      status: 'processed',
+      processed_at: new Date().toISOString(),
+    });
+
+    return result;
+  }
+
+  private async applyEvent(event: DodoWebhookEvent): Promise<void> {
+    switch (event.type) {
+      case 'subscription.created':
+      case 'subscription.updated':
+        await this.handleSubscriptionChanged(
+          event.data.object as DodoSubscriptionObject
+        );
+        break;
+
+      case 'subscription.canceled':
+      case 'subscription.cancelled':
+        await this.handleSubscriptionCanceled(
+          event.data.object as DodoSubscriptionObject
+        );
+        break;
+
+      case 'invoice.created':
+      case 'invoice.finalized':
+      case 'invoice.updated':
+      case 'invoice.voided':
+        await this.handleInvoiceChanged(
+          event.data.object as DodoInvoiceObject,
+          event.type === 'invoice.voided' ? InvoiceStatus.VOID : undefined
+        );
+        break;
+
+      case 'invoice.paid':
+        await this.handleInvoicePaid(event.data.object as DodoInvoiceObject);
+        break;
+
+      case 'invoice.payment_failed':
+        await this.handleInvoiceFailed(event.data.object as DodoInvoiceObject);
+        break;
+
+      case 'payment_method.attached':
+      case 'payment_method.updated':
+        await this.handlePaymentMethodChanged(
+          event.data.object as DodoPaymentMethodObject
+        );
+        break;
+
+      case 'payment_method.detached':
+        await this.handlePaymentMethodDetached(
+          event.data.object as DodoPaymentMethodObject
+        );
+        break;
+
+      default:
+        console.warn(`Ignoring unhandled Dodo webhook event: ${event.type}`);
+    }
+  }
+
+  private async handleSubscriptionChanged(
+    subscription: DodoSubscriptionObject
+  ): Promise<void> {
+    const billingInfo = await this.findCustomer(subscription.customer_id);
+    if (!billingInfo) return;
+
+    const status = toSubscriptionStatus(subscription.status);
+    if (status === 'cancelled') {
+      await this.handleSubscriptionCanceled(subscription);
+      return;
+    }
+
+    const resolved = resolveDodoPlan(subscription.plan_id);
+    if (!resolved) {
+      throw new Error(`Unknown Dodo plan: ${subscription.plan_id}`);
+    }
+
+    const updates: Partial<BillingInfo> = {
+      current_plan: resolved.plan,
+      billing_interval: resolved.interval,
+      subscription_status: status,
+      dodo_subscription_id: subscription.id,
+      cancel_at_period_end: subscription.cancel_at_period_end ?? false,
+    };
+    const periodStart = toIsoTime(subscription.current_period_start);
+    const periodEnd = toIsoTime(subscription.current_period_end);
+    if (periodStart) updates.current_period_start = periodStart;
+    if (periodEnd) updates.current_period_end = periodEnd;
+
+    await db.updateBillingInfo(billingInfo.user_id, updates);
+  }
+
+  private async handleSubscriptionCanceled(
+    subscription: DodoSubscriptionObject
+  ): Promise<void> {
+    const billingInfo = await this.findCustomer(subscription.customer_id);
+    if (!billingInfo) return;
+
+    // A cancellation for a subscription the user has since replaced
+    if (
+      billingInfo.dodo_subscription_id &&
+      billingInfo.dodo_subscription_id !== subscription.id
+    ) {
+      return;
+    }
+
+    await db.updateBillingInfo(billingInfo.user_id, {
+      current_plan: 'FREE',
+      subscription_status: 'cancelled',
+      cancel_at_period_end: false,
+      billing_interval: null,
+      dodo_subscription_id: null,
+      discount: null,
+    });
+  }
+
+  /**
+   * Keep a local copy of the invoice for invoice history and receipts
+   */
+  private async handleInvoiceChanged(
+    invoice: DodoInvoiceObject,
+    status?: InvoiceStatus
+  ): Promise<BillingInfo | null> {
+    const billingInfo = await this.findCustomer(invoice.customer_id);
+    if (!billingInfo) return null;
+
+    const record = toBillingInvoice(invoice, billingInfo.user_id, status);
+    if (status === InvoiceStatus.PAID && !record.paid_at) {
+      record.paid_at = new Date().toISOString();
+    }
+    await db.saveBillingInvoice(record);
+
+    return billingInfo;
+  }
+
+  private async handleInvoicePaid(invoice: DodoInvoiceObject): Promise<void> {
+    const billingInfo = await this.handleInvoiceChanged(
+      invoice,
+      InvoiceStatus.PAID
+    );
+    if (!billingInfo) return;
+
+    const updates: Partial<BillingInfo> = { subscription_status: 'active' };
+    const periodStart = toIsoTime(invoice.period_start);
+    const periodEnd = toIsoTime(invoice.period_end);
+    if (periodStart) updates.current_period_start = periodStart;
+    if (periodEnd) updates.current_period_end = periodEnd;
+
+    await db.updateBillingInfo(billingInfo.user_id, updates);
+  }
+
+  private async handleInvoiceFailed(invoice: DodoInvoiceObject): Promise<void> {
+    const billingInfo = await this.handleInvoiceChanged(invoice);
+    if (!billingInfo) return;
+
+    await db.updateBillingInfo(billingInfo.user_id, {
+      subscription_status: 'past_due',
+    });
+  }
+
+  private async handlePaymentMethodChanged(
+    paymentMethod: DodoPaymentMethodObject
+  ): Promise<void> {
+    const billingInfo = await this.findCustomer(paymentMethod.customer_id);
+    if (!billingInfo) return;
+
+    if (paymentMethod.is_default) {
+      await db.updateBillingInfo(billingInfo.user_id, {
+        default_payment_method_id: paymentMethod.id,
+      });
+    } else if (billingInfo.default_payment_method_id === paymentMethod.id) {
+      await this.handlePaymentMethodDetached(paymentMethod);
+    }
+  }
+
+  private async handlePaymentMethodDetached(
+    paymentMethod: DodoPaymentMethodObject
+  ): Promise<void> {
+    const billingInfo = await this.findCustomer(paymentMethod.customer_id);
+    if (billingInfo?.default_payment_method_id !== paymentMethod.id) return;
+
+    await db.updateBillingInfo(billingInfo.user_id, {
+      default_payment_method_id: null,
+    });
+  }
+
+  /**
+   * Find the billing info for a Dodo customer. Events for customers we
+   * don't know are acknowledged and skipped.
+   */
+  private async findCustomer(
+    customerId: string | undefined
+  ): Promise<BillingInfo | null> {
+    const billingInfo = customerId
+      ? await db.findBillingInfoByCustomerId(customerId)
+      : null;
+
+    if (!billingInfo) {
+      console.warn(`No billing info for Dodo customer: ${customerId}`);
+    }
+    return billingInfo;
+  }
+}
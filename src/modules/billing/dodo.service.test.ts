@@ -0,0 +1,121 @@
+import { DodoWebhookHeaders } from '../../types/payment.types';
+import { AuthenticationError, ValidationError } from '../../utils/errors';
+import { DodoService } from './dodo.service';
+
+// Test vector from the Standard Webhooks specification
+const SECRET = 'whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw';
+const PAYLOAD = '{"test": 2432232314}';
+const HEADERS: DodoWebhookHeaders = {
+  id: 'msg_p5jXN8AQM9LWM0D4loKWxJek',
+  timestamp: '1614265330',
+  signature: 'v1,g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=',
+};
+const SIGNED_AT_MS = 1614265330 * 1000;
+
+const createService = (): DodoService => {
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  return new DodoService();
+};
+
+describe('DodoService.verifyWebhookSignature', () => {
+  const verify = (
+    overrides: Partial<DodoWebhookHeaders> = {},
+    payload = PAYLOAD,
+    now = SIGNED_AT_MS
+  ): boolean =>
+    createService().verifyWebhookSignature(
+      payload,
+      { ...HEADERS, ...overrides },
+      SECRET,
+      300,
+      now
+    );
+
+  it('accepts a valid signature', () => {
+    expect(verify()).toBe(true);
+  });
+
+  it('accepts any matching signature while the secret is rotated', () => {
+    expect(
+      verify({
+        signature: `v1,c2lnbmVkIHdpdGggdGhlIG9sZCBzZWNyZXQ= ${HEADERS.signature}`,
+      })
+    ).toBe(true);
+  });
+
+  it('rejects a changed payload, id or timestamp', () => {
+    expect(verify({}, '{"test": 2432232315}')).toBe(false);
+    expect(verify({ id: 'msg_other' })).toBe(false);
+    expect(verify({ timestamp: '1614265331' })).toBe(false);
+  });
+
+  it('rejects unsupported signature versions and malformed headers', () => {
+    expect(verify({ signature: HEADERS.signature.replace('v1,', 'v2,') })).toBe(
+      false
+    );
+    expect(verify({ signature: '' })).toBe(false);
+    expect(verify({ timestamp: 'yesterday' })).toBe(false);
+    expect(verify({ id: '' })).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance', () => {
+    expect(verify({}, PAYLOAD, SIGNED_AT_MS + 300 * 1000)).toBe(true);
+    expect(verify({}, PAYLOAD, SIGNED_AT_MS + 301 * 1000)).toBe(false);
+    expect(verify({}, PAYLOAD, SIGNED_AT_MS - 301 * 1000)).toBe(false);
+  });
+
+  it('rejects every webhook when no secret is configured', () => {
+    expect(
+      createService().verifyWebhookSignature(
+        PAYLOAD,
+        HEADERS,
+        '',
+        300,
+        SIGNED_AT_MS
+      )
+    ).toBe(false);
+  });
+});
+
+describe('DodoService.parseWebhookEvent', () => {
+  const parse = (payload: string, valid = true): unknown => {
+    const service = createService();
+    jest.spyOn(service, 'verifyWebhookSignature').mockReturnValue(valid);
+    return service.parseWebhookEvent(payload, HEADERS);
+  };
+
+  it('keys the event by its webhook id', () => {
+    expect(
+      parse(
+        JSON.stringify({
+          type: 'subscription.active',
+          data: { object: { id: 'sub_1' } },
+        })
+      )
+    ).toEqual({
+      id: HEADERS.id,
+      type: 'subscription.active',
+      data: { object: { id: 'sub_1' } },
+    });
+  });
+
+  it('rejects an invalid signature', () => {
+    expect(() => parse('{}', false)).toThrow(AuthenticationError);
+  });
+
+  it.each([
+    ['not json', 'not json'],
+    ['a missing type', JSON.stringify({ data: { object: {} } })],
+    [
+      'a null object',
+      JSON.stringify({ type: 'subscription.active', data: { object: null } }),
+    ],
+    [
+      'a non-object object',
+      JSON.stringify({ type: 'subscription.active', data: { object: 'sub' } }),
+    ],
+  ])('rejects %s', (_, payload) => {
+    expect(() => parse(payload)).toThrow(ValidationError);
+  });
+});
@@ -1,4 +1,5 @@
 import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
 import { config } from '../../common/config';
 import {
   CreatePaymentMethodDto,
@@ -8,9 +9,15 @@ import {
   PriceConfig,
   SubscriptionRequest,
   SubscriptionResponse,
+  SubscriptionUpdateRequest,
   BillingPortalSessionResponse,
   DodoWebhookEvent,
+  DodoWebhookHeaders,
 } from '../../types/payment.types';
+import { AuthenticationError, ValidationError } from '../../utils/errors';
+
+// How far a webhook's signing time may be from ours, in seconds
+export const DODO_WEBHOOK_TOLERANCE_SECONDS = 300;
 
 /**
  * Service for interacting with the Dodo Payments API
@@ -246,7 +253,7 @@ export class DodoService {
    */
   async updateSubscription(
     subscriptionId: string,
-    updates: { planId?: string; cancelAtPeriodEnd?: boolean }
+    updates: SubscriptionUpdateRequest
   ): Promise<SubscriptionResponse> {
     try {
       // In development without API key, use mock implementation
@@ -256,8 +263,20 @@ export class DodoService {
 
       const payload: any = {};
       if (updates.planId) payload.plan_id = updates.planId;
+      if (updates.billingInterval)
+        payload.billing_interval = updates.billingInterval;
+      if (updates.couponCode) payload.coupon = updates.couponCode;
       if (updates.cancelAtPeriodEnd !== undefined)
         payload.cancel_at_period_end = updates.cancelAtPeriodEnd;
+      if (updates.prorationAmount !== undefined) {
+        // We work out proration ourselves so it matches the preview
+        payload.proration_behavior = 'charge_amount';
+        payload.proration_amount = updates.prorationAmount;
+      }
+      if (updates.prorationDate)
+        payload.proration_date = Math.floor(
+          Date.parse(updates.prorationDate) / 1000
+        );
 
       const response = await this.client.patch(
         `/subscriptions/${subscriptionId}`,
@@ -369,43 +388,81 @@ export class DodoService {
   }
 
   /**
-   * Verify webhook signature
+   * Verify a webhook signed with the Standard Webhooks scheme. Each
+   * `v1,<base64>` signature is an HMAC-SHA256 of `<id>.<timestamp>.<raw body>`
+   * keyed with the base64 secret after its `whsec_` prefix; more than one is
+   * sent while the secret is being rotated. Timestamps further from ours
+   * than the tolerance are rejected to stop replays.
    */
   verifyWebhookSignature(
     payload: string,
-    signature: string,
-    webhookSecret: string = config.dodo?.webhookSecret || ''
+    headers: DodoWebhookHeaders,
+    webhookSecret: string = config.dodo?.webhookSecret || '',
+    toleranceSeconds: number = DODO_WEBHOOK_TOLERANCE_SECONDS,
+    now: number = Date.now()
   ): boolean {
-    // In a real implementation, you would verify the signature using a crypto library
-    // This is a simplified version for the example
     if (!webhookSecret) {
-      console.warn(
-        'No webhook secret provided, skipping signature verification'
-      );
-      return true;
+      console.error('No Dodo webhook secret configured, rejecting webhook');
+      return false;
+    }
+
+    const timestamp = Number(headers.timestamp);
+    if (!headers.id || !Number.isInteger(timestamp)) {
+      return false;
+    }
+
+    if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+      return false;
     }
 
-    // TODO: Implement actual signature verification
-    // Example: return crypto.createHmac('sha256', webhookSecret).update(payload).digest('hex') === signature;
-    return true;
+    const key = Buffer.from(webhookSecret.replace(/^whsec_/, ''), 'base64');
+    const expected = crypto
+      .createHmac('sha256', key)
+      .update(`${headers.id}.${headers.timestamp}.${payload}`)
+      .digest();
+
+    return (headers.signature || '')
+      .split(' ')
+      .filter(entry => entry.startsWith('v1,'))
+      .some(entry => {
+        const received = Buffer.from(entry.slice(3), 'base64');
+        return (
+          received.length === expected.length &&
+          crypto.timingSafeEqual(received, expected)
+        );
+      });
   }
 
   /**
-   * Parse webhook event
+   * Parse a webhook event, keyed by its `webhook-id` so redeliveries of the
+   * same event can be recognised
    */
-  parseWebhookEvent(payload: string, signature: string): DodoWebhookEvent {
+  parseWebhookEvent(
+    payload: string,
+    headers: DodoWebhookHeaders
+  ): DodoWebhookEvent {
     // Verify the signature first
-    const isValid = this.verifyWebhookSignature(payload, signature);
+    const isValid = this.verifyWebhookSignature(payload, headers);
     if (!isValid) {
-      throw new Error('Invalid webhook signature');
+      throw new AuthenticationError('Invalid webhook signature');
     }
 
+    let event: DodoWebhookEvent;
     try {
-      const event = JSON.parse(payload) as DodoWebhookEvent;
-      return event;
+      event = JSON.parse(payload) as DodoWebhookEvent;
     } catch (error) {
-      throw new Error('Failed to parse webhook payload');
+      throw new ValidationError('Failed to parse webhook payload');
     }
+
+    if (
+      typeof event?.type !== 'string' ||
+      !event.data?.object ||
+      typeof event.data.object !== 'object'
+    ) {
+      throw new ValidationError('Malformed webhook event');
+    }
+
+    return { ...event, id: headers.id };
   }
 
   // Mock implementations for development without API key
@@ -495,7 +552,7 @@ export class DodoService {
 
   private mockUpdateSubscription(
     subscriptionId: string,
-    updates: { planId?: string; cancelAtPeriodEnd?: boolean }
+    updates: SubscriptionUpdateRequest
   ): Promise<SubscriptionResponse> {
     const now = Date.now();
     const periodEnd = now + 30 * 24 * 60 * 60 * 1000;
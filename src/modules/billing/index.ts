@@ -1,7 +1,9 @@
 import { Router } from 'express';
 import { authenticateUser } from '../../auth/auth.middleware';
+import couponsRoutes from '../coupons/coupons.controller';
 import billingRoutes from './billing.controller';
 import { BillingService } from './billing.service';
+import dodoWebhookRoutes from './dodo-webhook.controller';
 
 // Create a new router
 const billingController = Router();
@@ -9,9 +11,12 @@ const billingController = Router();
 // Apply authentication middleware to all billing routes
 billingController.use(authenticateUser);
 
+// Mount the coupon routes
+billingController.use('/coupons', couponsRoutes);
+
 // Mount the billing routes
 billingController.use('/', billingRoutes);
 
-export { billingController, BillingService };
+export { billingController, dodoWebhookRoutes, BillingService };
 
 export default billingController;
@@ -0,0 +1,106 @@
+import { BillingInvoice } from '../../types/core-modules.types';
+import { BillingAddress, InvoiceItem } from '../../types/entity.types';
+import { InvoiceStatus } from '../../types/enums.types';
+import { DodoAddress, DodoInvoiceObject } from '../../types/payment.types';
+
+const INVOICE_STATUSES = Object.values(InvoiceStatus) as string[];
+
+/**
+ * Convert a Dodo timestamp in unix seconds to an ISO string
+ */
+export const toIsoTime = (seconds?: number): string | undefined =>
+  typeof seconds === 'number'
+    ? new Date(seconds * 1000).toISOString()
+    : undefined;
+
+const toBillingAddress = (
+  address: DodoAddress | undefined
+): BillingAddress | undefined => {
+  if (!address?.line1 || !address.city || !address.country) {
+    return undefined;
+  }
+
+  return {
+    line1: address.line1,
+    ...(address.line2 ? { line2: address.line2 } : {}),
+    city: address.city,
+    ...(address.state ? { state: address.state } : {}),
+    postalCode: address.postal_code ?? '',
+    country: address.country,
+    ...(address.tax_id ? { taxId: address.tax_id } : {}),
+  };
+};
+
+/**
+ * Build our invoice record from a Dodo invoice. `status` overrides the
+ * invoice's own status, for events that imply one.
+ */
+export const toBillingInvoice = (
+  invoice: DodoInvoiceObject,
+  userId: string,
+  status?: InvoiceStatus
+): Omit<BillingInvoice, 'id' | 'created_at' | 'updated_at'> => {
+  const items: InvoiceItem[] = (invoice.lines ?? []).map(line => {
+    const quantity = line.quantity ?? 1;
+    const item: InvoiceItem = {
+      description: line.description ?? 'Subscription',
+      quantity,
+      unitPrice: line.unit_amount ?? Math.round(line.amount / quantity),
+      amount: line.amount,
+    };
+    if (line.period) {
+      item.period = {
+        start: new Date(line.period.start * 1000).toISOString(),
+        end: new Date(line.period.end * 1000).toISOString(),
+      };
+    }
+    return item;
+  });
+
+  const subtotal =
+    invoice.subtotal ?? items.reduce((sum, item) => sum + item.amount, 0);
+  const discount = invoice.discount ?? 0;
+  const tax = invoice.tax ?? 0;
+  const total = invoice.total ?? subtotal - discount + tax;
+
+  const resolvedStatus =
+    status ??
+    (INVOICE_STATUSES.includes(invoice.status ?? '')
+      ? (invoice.status as InvoiceStatus)
+      : InvoiceStatus.OPEN);
+
+  const record: Omit<BillingInvoice, 'id' | 'created_at' | 'updated_at'> = {
+    user_id: userId,
+    dodo_invoice_id: invoice.id,
+    number: invoice.number ?? invoice.id,
+    status: resolvedStatus,
+    currency: (invoice.currency ?? 'usd').toUpperCase(),
+    subtotal,
+    discount,
+    tax,
+    total,
+    amount_paid:
+      invoice.amount_paid ??
+      (resolvedStatus === InvoiceStatus.PAID ? total : 0),
+    items,
+    issued_at: toIsoTime(invoice.created) ?? new Date().toISOString(),
+  };
+
+  const billingAddress = toBillingAddress(invoice.customer_address);
+  if (billingAddress) record.billing_address = billingAddress;
+  if (invoice.coupon_code) record.coupon_code = invoice.coupon_code;
+  if (invoice.customer_name) record.customer_name = invoice.customer_name;
+  if (invoice.customer_email) record.customer_email = invoice.customer_email;
+
+  const optionalTimes = {
+    period_start: toIsoTime(invoice.period_start),
+    period_end: toIsoTime(invoice.period_end),
+    due_date: toIsoTime(invoice.due_date),
+    paid_at: toIsoTime(invoice.paid_at),
+  };
+  for (const [field, value] of Object.entries(optionalTimes)) {
+    if (value) record[field as keyof typeof optionalTimes] = value;
+  }
+
+  return record;
+};
@@ -0,0 +1,121 @@
+/**
+ * Minimal PDF writer for text documents such as receipts. Pages are A4 and
+ * use the standard Helvetica fonts, so nothing has to be embedded.
+ */
+
+export interface PdfCell {
+  text: string;
+  // Distance from the left edge of the page, in points
+  x: number;
+}
+
+export interface PdfLine {
+  cells: PdfCell[];
+  size?: number;
+  bold?: boolean;
+  // Extra space above the line, in points
+  gap?: number;
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const DEFAULT_FONT_SIZE = 10;
+const LINE_HEIGHT = 1.4;
+
+/**
+ * Escape text for a PDF string literal. Characters outside Latin-1 can't be
+ * shown by the standard fonts, apart from the euro sign.
+ */
+const escapePdfText = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      if (char === '\\' || char === '(' || char === ')') return `\\${char}`;
+      if (char === '€') return '\\200';
+
+      const code = char.charCodeAt(0);
+      if (code >= 32 && code < 127) return char;
+      if (code >= 160 && code <= 255) return `\\${code.toString(8)}`;
+      return '?';
+    })
+    .join('');
+
+/**
+ * Lay the lines out top to bottom, starting new pages as needed, and
+ * return the page content streams
+ */
+const layoutPages = (lines: PdfLine[]): string[] => {
+  const pages: string[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const line of lines) {
+    const size = line.size ?? DEFAULT_FONT_SIZE;
+    const advance = (line.gap ?? 0) + size * LINE_HEIGHT;
+
+    if (y - advance < MARGIN) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN;
+    } else {
+      y -= advance;
+    }
+
+    const font = line.bold ? 'F2' : 'F1';
+    const current = pages[pages.length - 1] as string[];
+    for (const cell of line.cells) {
+      if (!cell.text) continue;
+      current.push(
+        `BT /${font} ${size} Tf ${cell.x} ${y.toFixed(2)} Td ` +
+          `(${escapePdfText(cell.text)}) Tj ET`
+      );
+    }
+  }
+
+  return pages.map(commands => commands.join('\n'));
+};
+
+/**
+ * Render lines of text as a PDF document
+ */
+export const renderTextPdf = (lines: PdfLine[]): Buffer => {
+  const contents = layoutPages(lines);
+
+  // Objects 1-4 are fixed; each page then takes a page and a content object
+  const pageIds = contents.map((_, index) => 5 + index * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] ` +
+      `/Count ${pageIds.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica ' +
+      '/Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold ' +
+      '/Encoding /WinAnsiEncoding >>',
+  ];
+  contents.forEach((content, index) => {
+    const contentId = (pageIds[index] as number) + 1;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> ` +
+        `/Contents ${contentId} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  // Everything written is ASCII, so string lengths are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach(offset => {
+    pdf += `${offset.toString().padStart(10, '0')} 00000 n \n`;
+  });
+  pdf +=
+    `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n` +
+    `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'ascii');
+};
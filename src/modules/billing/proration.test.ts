@@ -0,0 +1,148 @@
+import { Coupon } from '../../types/core-modules.types';
+import {
+  addBillingInterval,
+  calculateProration,
+  ProrationInput,
+} from './proration';
+
+// Halfway through a 30 day period
+const PRORATION_DATE = new Date('2026-03-16T00:00:00.000Z');
+
+const buildInput = (
+  overrides: Partial<ProrationInput> = {}
+): ProrationInput => ({
+  currentPlan: 'STARTER',
+  currentInterval: 'monthly',
+  currentPrice: 1000,
+  periodStart: '2026-03-01T00:00:00.000Z',
+  periodEnd: '2026-03-31T00:00:00.000Z',
+  newPlan: 'PROFESSIONAL',
+  newInterval: 'monthly',
+  newPrice: 3000,
+  currency: 'USD',
+  prorationDate: PRORATION_DATE,
+  ...overrides,
+});
+
+const buildCoupon = (overrides: Partial<Coupon> = {}): Coupon => ({
+  id: 'coupon-1',
+  code: 'SPRING20',
+  discount_type: 'percent',
+  percent_off: 20,
+  duration: 'once',
+  times_redeemed: 0,
+  plan_ids: [],
+  active: true,
+  created_by: 'admin-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('calculateProration', () => {
+  it('charges the rest of the current period on the same interval', () => {
+    expect(calculateProration(buildInput())).toEqual({
+      current_plan: 'STARTER',
+      current_interval: 'monthly',
+      new_plan: 'PROFESSIONAL',
+      new_interval: 'monthly',
+      currency: 'USD',
+      credit: 500,
+      charge: 1500,
+      discount: 0,
+      total: 1000,
+      proration_date: '2026-03-16T00:00:00.000Z',
+      period_start: '2026-03-01T00:00:00.000Z',
+      period_end: '2026-03-31T00:00:00.000Z',
+    });
+  });
+
+  it('credits more than it charges on a downgrade', () => {
+    const preview = calculateProration(
+      buildInput({
+        currentPlan: 'PROFESSIONAL',
+        currentPrice: 3000,
+        newPlan: 'STARTER',
+        newPrice: 1000,
+      })
+    );
+    expect(preview).toMatchObject({ credit: 1500, charge: 500, total: -1000 });
+  });
+
+  it('starts a new period when the interval changes', () => {
+    const preview = calculateProration(
+      buildInput({ newInterval: 'yearly', newPrice: 30000 })
+    );
+    expect(preview).toMatchObject({
+      credit: 500,
+      charge: 30000,
+      total: 29500,
+      period_start: '2026-03-16T00:00:00.000Z',
+      period_end: '2027-03-16T00:00:00.000Z',
+    });
+  });
+
+  it('charges in full without a paid period to credit', () => {
+    const input = buildInput({ currentPlan: 'FREE', currentPrice: 0 });
+    delete input.currentInterval;
+    delete input.periodStart;
+    delete input.periodEnd;
+
+    const preview = calculateProration(input);
+    expect(preview).toMatchObject({
+      credit: 0,
+      charge: 3000,
+      total: 3000,
+      period_start: '2026-03-16T00:00:00.000Z',
+      period_end: '2026-04-16T00:00:00.000Z',
+    });
+  });
+
+  it('starts a new period once the current one has ended', () => {
+    const preview = calculateProration(
+      buildInput({ prorationDate: new Date('2026-04-02T00:00:00.000Z') })
+    );
+    expect(preview).toMatchObject({ credit: 0, charge: 3000, total: 3000 });
+  });
+
+  it('discounts the prorated charge with a coupon', () => {
+    const preview = calculateProration(buildInput({ coupon: buildCoupon() }));
+    expect(preview).toMatchObject({
+      credit: 500,
+      charge: 1500,
+      discount: 300,
+      total: 700,
+      coupon_code: 'SPRING20',
+    });
+  });
+
+  it('never discounts more than the charge', () => {
+    const preview = calculateProration(
+      buildInput({
+        coupon: buildCoupon({
+          discount_type: 'fixed',
+          percent_off: null,
+          amount_off: 5000,
+          currency: 'USD',
+        }),
+      })
+    );
+    expect(preview).toMatchObject({
+      charge: 1500,
+      discount: 1500,
+      total: -500,
+    });
+  });
+});
+
+describe('addBillingInterval', () => {
+  it('adds a month or a year', () => {
+    const date = new Date('2026-03-16T12:00:00.000Z');
+    expect(addBillingInterval(date, 'monthly').toISOString()).toBe(
+      '2026-04-16T12:00:00.000Z'
+    );
+    expect(addBillingInterval(date, 'yearly').toISOString()).toBe(
+      '2027-03-16T12:00:00.000Z'
+    );
+  });
+});
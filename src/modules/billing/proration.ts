@@ -0,0 +1,99 @@
+import { Coupon, ProrationPreview } from '../../types/core-modules.types';
+import { calculateDiscount } from '../coupons/coupon.validation';
+
+type BillingInterval = 'monthly' | 'yearly';
+
+export interface ProrationInput {
+  currentPlan: ProrationPreview['current_plan'];
+  // Undefined when the user has no paid period to credit
+  currentInterval?: BillingInterval;
+  currentPrice: number;
+  periodStart?: string;
+  periodEnd?: string;
+  newPlan: ProrationPreview['new_plan'];
+  newInterval: BillingInterval;
+  newPrice: number;
+  currency: string;
+  prorationDate: Date;
+  // Discounts the charge for the new plan
+  coupon?: Coupon;
+}
+
+/**
+ * Add one billing interval to a date
+ */
+export const addBillingInterval = (
+  date: Date,
+  interval: BillingInterval
+): Date => {
+  const next = new Date(date);
+  if (interval === 'yearly') {
+    next.setUTCFullYear(next.getUTCFullYear() + 1);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return next;
+};
+
+/**
+ * Work out the prorated cost of a plan change at `prorationDate`.
+ *
+ * Changing plan on the same interval keeps the current billing period, so
+ * the new plan is only charged for the time left in it. Changing interval,
+ * or starting from no paid period, starts a new period at the proration
+ * date and charges the new plan in full.
+ */
+export const calculateProration = (input: ProrationInput): ProrationPreview => {
+  const now = input.prorationDate.getTime();
+  const start = input.periodStart ? Date.parse(input.periodStart) : NaN;
+  const end = input.periodEnd ? Date.parse(input.periodEnd) : NaN;
+
+  const hasPaidPeriod =
+    input.currentInterval !== undefined &&
+    input.currentPrice > 0 &&
+    !isNaN(start) &&
+    !isNaN(end) &&
+    end > start;
+
+  // Share of the current period that has not been used yet
+  const unusedFraction = hasPaidPeriod
+    ? Math.min(Math.max((end - now) / (end - start), 0), 1)
+    : 0;
+  const credit = Math.round(input.currentPrice * unusedFraction);
+
+  const keepsPeriod =
+    hasPaidPeriod && input.currentInterval === input.newInterval && end > now;
+  const charge = keepsPeriod
+    ? Math.round(input.newPrice * unusedFraction)
+    : input.newPrice;
+  const discount = input.coupon ? calculateDiscount(input.coupon, charge) : 0;
+
+  const preview: ProrationPreview = {
+    current_plan: input.currentPlan,
+    new_plan: input.newPlan,
+    new_interval: input.newInterval,
+    currency: input.currency,
+    credit,
+    charge,
+    discount,
+    total: charge - discount - credit,
+    proration_date: input.prorationDate.toISOString(),
+    period_start: keepsPeriod
+      ? new Date(start).toISOString()
+      : input.prorationDate.toISOString(),
+    period_end: keepsPeriod
+      ? new Date(end).toISOString()
+      : addBillingInterval(
+          input.prorationDate,
+          input.newInterval
+        ).toISOString(),
+  };
+  if (input.currentInterval) {
+    preview.current_interval = input.currentInterval;
+  }
+  if (input.coupon) {
+    preview.coupon_code = input.coupon.code;
+  }
+
+  return preview;
+};
@@ -0,0 +1,237 @@
+import { config } from '../../common/config';
+import { BillingInvoice } from '../../types/core-modules.types';
+import { PdfLine, renderTextPdf } from './pdf';
+
+// Left edges of the line item columns on the PDF receipt, in points
+const PDF_COLUMNS = {
+  description: 50,
+  quantity: 330,
+  unitPrice: 380,
+  amount: 470,
+};
+
+/**
+ * Format an amount in the currency's minor unit, e.g. 1999 USD as $19.99
+ */
+export const formatMoney = (amount: number, currency: string): string => {
+  try {
+    const formatter = new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency,
+    });
+    const digits = formatter.resolvedOptions().maximumFractionDigits ?? 2;
+    return formatter.format(amount / 10 ** digits);
+  } catch {
+    // Unknown currency codes
+    return `${(amount / 100).toFixed(2)} ${currency}`;
+  }
+};
+
+const formatDate = (value: string): string => value.slice(0, 10);
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * The billed-to block: name, email, address and tax ID, one per line
+ */
+const getCustomerLines = (invoice: BillingInvoice): string[] => {
+  const address = invoice.billing_address;
+  const lines = [
+    invoice.customer_name,
+    invoice.customer_email,
+    address?.line1,
+    address?.line2,
+    address
+      ? [address.postalCode, address.city, address.state]
+          .filter(Boolean)
+          .join(' ')
+      : undefined,
+    address?.country,
+    address?.taxId ? `Tax ID: ${address.taxId}` : undefined,
+  ];
+  return lines.filter((line): line is string => Boolean(line));
+};
+
+/**
+ * Receipt details shown under the title, as label/value pairs
+ */
+const getDetails = (invoice: BillingInvoice): [string, string][] => {
+  const details: [string, string][] = [
+    ['Invoice number', invoice.number],
+    ['Issued', formatDate(invoice.issued_at)],
+    ['Status', invoice.status],
+    ['Currency', invoice.currency],
+  ];
+  if (invoice.paid_at) {
+    details.splice(2, 0, ['Paid', formatDate(invoice.paid_at)]);
+  }
+  if (invoice.period_start && invoice.period_end) {
+    details.push([
+      'Billing period',
+      `${formatDate(invoice.period_start)} to ${formatDate(invoice.period_end)}`,
+    ]);
+  }
+  return details;
+};
+
+const getTotals = (invoice: BillingInvoice): [string, string][] => {
+  const totals: [string, string][] = [
+    ['Subtotal', formatMoney(invoice.subtotal, invoice.currency)],
+  ];
+  if (invoice.discount > 0) {
+    totals.push([
+      invoice.coupon_code ? `Discount (${invoice.coupon_code})` : 'Discount',
+      `-${formatMoney(invoice.discount, invoice.currency)}`,
+    ]);
+  }
+  totals.push(
+    ['Tax', formatMoney(invoice.tax, invoice.currency)],
+    ['Total', formatMoney(invoice.total, invoice.currency)],
+    ['Amount paid', formatMoney(invoice.amount_paid, invoice.currency)]
+  );
+  return totals;
+};
+
+/**
+ * Render an invoice as a standalone HTML receipt
+ */
+export const renderReceiptHtml = (invoice: BillingInvoice): string => {
+  const money = (amount: number) =>
+    escapeHtml(formatMoney(amount, invoice.currency));
+
+  const items = invoice.items
+    .map(item => {
+      const period = item.period
+        ? `<div class="period">${formatDate(item.period.start)} to ${formatDate(item.period.end)}</div>`
+        : '';
+      return `<tr><td>${escapeHtml(item.description)}${period}</td><td class="num">${item.quantity}</td><td class="num">${money(item.unitPrice)}</td><td class="num">${money(item.amount)}</td></tr>`;
+    })
+    .join('\n');
+
+  const details = getDetails(invoice)
+    .map(
+      ([label, value]) =>
+        `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+    )
+    .join('\n');
+
+  const totals = getTotals(invoice)
+    .map(
+      ([label, value]) =>
+        `<tr><td colspan="3" class="num">${escapeHtml(label)}</td><td class="num">${escapeHtml(value)}</td></tr>`
+    )
+    .join('\n');
+
+  const customer = getCustomerLines(invoice).map(escapeHtml).join('<br>');
+  const issuer = [config.billing.companyName, config.billing.companyAddress]
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join('<br>');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Receipt ${escapeHtml(invoice.number)}</title>
+<style>
+body { font-family: Helvetica, Arial, sans-serif; color: #222; max-width: 720px; margin: 40px auto; }
+table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+th, td { text-align: left; padding: 6px 4px; }
+.items th { border-bottom: 1px solid #999; }
+.items td { border-bottom: 1px solid #eee; }
+.num { text-align: right; }
+.period { color: #666; font-size: 12px; }
+</style>
+</head>
+<body>
+<p>${issuer}</p>
+<h1>Receipt</h1>
+<table class="details">
+${details}
+</table>
+<h2>Billed to</h2>
+<p>${customer}</p>
+<table class="items">
+<tr><th>Description</th><th class="num">Qty</th><th class="num">Unit price</th><th class="num">Amount</th></tr>
+${items}
+${totals}
+</table>
+</body>
+</html>
+`;
+};
+
+/**
+ * Render an invoice as a PDF receipt
+ */
+export const renderReceiptPdf = (invoice: BillingInvoice): Buffer => {
+  const text = (value: string, x = 50): PdfLine => ({
+    cells: [{ text: value, x }],
+  });
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+  const lines: PdfLine[] = [
+    { ...text(config.billing.companyName), bold: true },
+    ...(config.billing.companyAddress
+      ? [text(config.billing.companyAddress)]
+      : []),
+    { ...text('Receipt'), size: 18, bold: true, gap: 16 },
+    ...getDetails(invoice).map(([label, value], index) => ({
+      cells: [
+        { text: label, x: 50 },
+        { text: value, x: 160 },
+      ],
+      ...(index === 0 ? { gap: 8 } : {}),
+    })),
+    { ...text('Billed to'), bold: true, gap: 16 },
+    ...getCustomerLines(invoice).map(line => text(line)),
+    {
+      cells: [
+        { text: 'Description', x: PDF_COLUMNS.description },
+        { text: 'Qty', x: PDF_COLUMNS.quantity },
+        { text: 'Unit price', x: PDF_COLUMNS.unitPrice },
+        { text: 'Amount', x: PDF_COLUMNS.amount },
+      ],
+      bold: true,
+      gap: 16,
+    },
+  ];
+
+  invoice.items.forEach(item => {
+    lines.push({
+      cells: [
+        { text: item.description, x: PDF_COLUMNS.description },
+        { text: String(item.quantity), x: PDF_COLUMNS.quantity },
+        { text: money(item.unitPrice), x: PDF_COLUMNS.unitPrice },
+        { text: money(item.amount), x: PDF_COLUMNS.amount },
+      ],
+    });
+    if (item.period) {
+      lines.push({
+        ...text(
+          `${formatDate(item.period.start)} to ${formatDate(item.period.end)}`
+        ),
+        size: 8,
+      });
+    }
+  });
+
+  getTotals(invoice).forEach(([label, value], index) => {
+    lines.push({
+      cells: [
+        { text: label, x: PDF_COLUMNS.quantity },
+        { text: value, x: PDF_COLUMNS.amount },
+      ],
+      bold: label === 'Total',
+      ...(index === 0 ? { gap: 8 } : {}),
+    });
+  });
+
+  return renderTextPdf(lines);
+};
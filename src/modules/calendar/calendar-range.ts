@@ -0,0 +1,151 @@
+import { ErrorDetails } from '../../types/errors';
+import {
+  LocalDate,
+  addLocalDays,
+  compareLocalDates,
+  formatLocalDate,
+  getDaysInMonth,
+  getLocalWeekday,
+  getZonedDateParts,
+} from '../../utils/timezone';
+import { CalendarQuery, CalendarView } from './calendar.types';
+
+// Longest range a single calendar request can cover
+export const MAX_CALENDAR_DAYS = 62;
+
+export interface CalendarRange {
+  view: CalendarView;
+  start: LocalDate;
+  end: LocalDate;
+}
+
+/**
+ * Read a YYYY-MM-DD date, or null if it isn't a real calendar date
+ */
+export const parseLocalDate = (value: string): LocalDate | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const date = {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+  };
+  if (
+    date.month < 1 ||
+    date.month > 12 ||
+    date.day < 1 ||
+    date.day > getDaysInMonth(date.year, date.month)
+  ) {
+    return null;
+  }
+
+  return date;
+};
+
+/**
+ * Work out which days a calendar request covers, both ends included.
+ * Without `from`, the range starts at the current week (from Monday) or
+ * month in the workspace's time zone; without `to`, it runs to the end of
+ * that week or month.
+ */
+export const resolveCalendarRange = (
+  query: CalendarQuery,
+  now: Date,
+  timeZone: string
+): { range: CalendarRange | null; errors: ErrorDetails[] } => {
+  const errors: ErrorDetails[] = [];
+  const view = query.view ?? 'month';
+
+  if (view !== 'week' && view !== 'month') {
+    errors.push({
+      field: 'view',
+      value: view,
+      message: "View must be 'week' or 'month'",
+    });
+  }
+
+  const from = query.from ? parseLocalDate(query.from) : null;
+  if (query.from && !from) {
+    errors.push({
+      field: 'from',
+      value: query.from,
+      message: 'Must be a date in YYYY-MM-DD format',
+    });
+  }
+
+  const to = query.to ? parseLocalDate(query.to) : null;
+  if (query.to && !to) {
+    errors.push({
+      field: 'to',
+      value: query.to,
+      message: 'Must be a date in YYYY-MM-DD format',
+    });
+  }
+
+  if (errors.length > 0) {
+    return { range: null, errors };
+  }
+
+  let start: LocalDate;
+  if (from) {
+    start = from;
+  } else {
+    const today = getZonedDateParts(now, timeZone);
+    start =
+      view === 'week'
+        ? addLocalDays(today, -((getLocalWeekday(today) + 6) % 7))
+        : { year: today.year, month: today.month, day: 1 };
+  }
+
+  const end =
+    to ??
+    (view === 'week'
+      ? addLocalDays(start, 6)
+      : {
+          year: start.year,
+          month: start.month,
+          day: getDaysInMonth(start.year, start.month),
+        });
+
+  if (compareLocalDates(end, start) < 0) {
+    errors.push({
+      field: 'to',
+      value: formatLocalDate(end),
+      message: 'End of the range must not be before its start',
+    });
+  } else if (listLocalDates(start, end).length > MAX_CALENDAR_DAYS) {
+    errors.push({
+      field: 'to',
+      value: formatLocalDate(end),
+      message: `Calendar ranges can cover at most ${MAX_CALENDAR_DAYS} days`,
+    });
+  }
+
+  return errors.length > 0
+    ? { range: null, errors }
+    : { range: { view, start, end }, errors };
+};
+
+/**
+ * Every date from start to end, both included
+ */
+export const listLocalDates = (start: LocalDate, end: LocalDate): string[] => {
+  const dates: string[] = [];
+  for (
+    let date = start;
+    compareLocalDates(date, end) <= 0 && dates.length <= MAX_CALENDAR_DAYS;
+    date = addLocalDays(date, 1)
+  ) {
+    dates.push(formatLocalDate(date));
+  }
+  return dates;
+};
+
+/**
+ * The date an instant falls on in a time zone, as YYYY-MM-DD
+ */
+export const toLocalDateKey = (date: Date, timeZone: string): string =>
+  formatLocalDate(getZonedDateParts(date, timeZone));
@@ -0,0 +1,141 @@
+import { db } from '../../database/database.service';
+import { supabaseService } from '../../services/supabase.service';
+import { PostPlatform } from '../../types/enhanced.types';
+import { AuthorizationError, ValidationError } from '../../utils/errors';
+import {
+  DEFAULT_TIMEZONE,
+  addLocalDays,
+  formatLocalDate,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+import { findFreeSlots, hasPostingSlots } from '../posts/queue';
+import {
+  listLocalDates,
+  resolveCalendarRange,
+  toLocalDateKey,
+} from './calendar-range';
+import {
+  CalendarEntry,
+  CalendarQuery,
+  WorkspaceCalendar,
+} from './calendar.types';
+
+// Upper bound on the free slots shown in one calendar
+const MAX_CALENDAR_SLOTS = 1000;
+
+/**
+ * Builds a workspace's calendar from its posts, their per-platform
+ * publishing state and the free slots of its posting schedule
+ */
+export class CalendarService {
+  /**
+   * Get a workspace's calendar, with entries grouped by day in the
+   * workspace's time zone
+   */
+  async getWorkspaceCalendar(
+    userId: string,
+    workspaceId: string,
+    query: CalendarQuery
+  ): Promise<WorkspaceCalendar> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    const settings = await db.findWorkspaceSettings(workspaceId);
+    const timeZone =
+      settings?.timezone && isValidTimeZone(settings.timezone)
+        ? settings.timezone
+        : DEFAULT_TIMEZONE;
+
+    const now = new Date();
+    const { range, errors } = resolveCalendarRange(query, now, timeZone);
+    if (!range) {
+      throw new ValidationError('Invalid calendar range', errors);
+    }
+
+    const rangeStart = zonedTimeToUtc(
+      { ...range.start, hour: 0, minute: 0 },
+      timeZone
+    );
+    const rangeEnd = zonedTimeToUtc(
+      { ...addLocalDays(range.end, 1), hour: 0, minute: 0 },
+      timeZone
+    );
+
+    const posts = await db.findWorkspaceCalendarPosts(
+      workspaceId,
+      rangeStart.toISOString(),
+      rangeEnd.toISOString()
+    );
+    const platforms = await supabaseService.getPostPlatformsForPosts(
+      posts.map(post => post.id)
+    );
+    const platformsByPost = new Map<string, PostPlatform[]>();
+    platforms.forEach(platform => {
+      const list = platformsByPost.get(platform.post_id) ?? [];
+      list.push(platform);
+      platformsByPost.set(platform.post_id, list);
+    });
+
+    const entries: CalendarEntry[] = [];
+    for (const post of posts) {
+      // Published posts sit on the day they went out, as the query matches
+      const at = post.published_at ?? post.scheduled_for;
+      if (!at) continue;
+
+      entries.push({
+        type: 'post',
+        at: new Date(at).toISOString(),
+        post,
+        platforms: platformsByPost.get(post.id) ?? [],
+      });
+    }
+
+    // Free slots are only offered from now on
+    const schedule = settings?.default_posting_schedule;
+    if (hasPostingSlots(schedule) && rangeEnd > now) {
+      const taken = new Set(
+        posts
+          .filter(post => post.scheduled_for)
+          .map(post => Date.parse(post.scheduled_for as string))
+      );
+      findFreeSlots(
+        schedule,
+        timeZone,
+        rangeStart > now ? new Date(rangeStart.getTime() - 1) : now,
+        MAX_CALENDAR_SLOTS,
+        taken
+      )
+        .filter(slot => slot < rangeEnd)
+        .forEach(slot => {
+          entries.push({ type: 'queue_slot', at: slot.toISOString() });
+        });
+    }
+
+    entries.sort((a, b) => Date.parse(a.at) - Date.parse(b.at));
+
+    const days = listLocalDates(range.start, range.end).map(date => ({
+      date,
+      entries: [] as CalendarEntry[],
+    }));
+    const byDate = new Map(days.map(day => [day.date, day]));
+    entries.forEach(entry => {
+      byDate
+        .get(toLocalDateKey(new Date(entry.at), timeZone))
+        ?.entries.push(entry);
+    });
+
+    return {
+      workspace_id: workspaceId,
+      timezone: timeZone,
+      view: range.view,
+      from: formatLocalDate(range.start),
+      to: formatLocalDate(range.end),
+      days,
+    };
+  }
+}
@@ -0,0 +1,49 @@
+import { Post } from '../../types/core-modules.types';
+import { PostPlatform } from '../../types/enhanced.types';
+
+export type CalendarView = 'week' | 'month';
+
+/**
+ * A post on the calendar, with the publishing outcome for each of its
+ * targets. Occurrences of recurring posts are separate posts that share
+ * `post.recurrence.series_id`.
+ */
+export interface CalendarPostEntry {
+  type: 'post';
+  at: string;
+  post: Post;
+  platforms: PostPlatform[];
+}
+
+/**
+ * A free posting slot from the workspace's posting schedule
+ */
+export interface CalendarSlotEntry {
+  type: 'queue_slot';
+  at: string;
+}
+
+export type CalendarEntry = CalendarPostEntry | CalendarSlotEntry;
+
+/**
+ * One day in the workspace's time zone, with its entries in time order
+ */
+export interface CalendarDay {
+  date: string;
+  entries: CalendarEntry[];
+}
+
+export interface WorkspaceCalendar {
+  workspace_id: string;
+  timezone: string;
+  view: CalendarView;
+  from: string;
+  to: string;
+  days: CalendarDay[];
+}
+
+export interface CalendarQuery {
+  view?: CalendarView;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,56 @@
+import { CampaignDto } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+import { HEX_COLOR_PATTERN } from '../tags/tag.validation';
+
+const isDate = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(Date.parse(value));
+
+/**
+ * Validate a campaign, returning field-level errors
+ */
+export const validateCampaign = (
+  campaign: Partial<CampaignDto>
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (typeof campaign.name !== 'string' || !campaign.name.trim()) {
+    errors.push({ field: 'name', message: 'Campaign name is required' });
+  }
+
+  if (
+    campaign.color !== undefined &&
+    (typeof campaign.color !== 'string' ||
+      !HEX_COLOR_PATTERN.test(campaign.color))
+  ) {
+    errors.push({
+      field: 'color',
+      value: campaign.color,
+      message: 'Color must be a hex code such as #1a2b3c',
+    });
+  }
+
+  for (const field of ['starts_at', 'ends_at'] as const) {
+    if (campaign[field] && !isDate(campaign[field])) {
+      errors.push({
+        field,
+        value: campaign[field],
+        message: 'Must be a valid date',
+      });
+    }
+  }
+
+  if (
+    isDate(campaign.starts_at) &&
+    isDate(campaign.ends_at) &&
+    Date.parse(campaign.ends_at as string) <
+      Date.parse(campaign.starts_at as string)
+  ) {
+    errors.push({
+      field: 'ends_at',
+      value: campaign.ends_at,
+      message: 'Campaign cannot end before it starts',
+    });
+  }
+
+  return errors;
+};
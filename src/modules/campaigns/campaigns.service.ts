@@ -0,0 +1,189 @@
+import { db } from '../../database/database.service';
+import {
+  Campaign,
+  CampaignDto,
+  CampaignStats,
+} from '../../types/core-modules.types';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+import { WorkspacePermissionManager } from '../workspace/workspace.permissions';
+import { validateCampaign } from './campaign.validation';
+
+// Campaign fields that can be cleared by updating them to null
+const OPTIONAL_FIELDS = [
+  'description',
+  'color',
+  'starts_at',
+  'ends_at',
+] as const;
+
+/**
+ * Workspace campaign service
+ */
+export class CampaignsService {
+  /**
+   * Get a workspace's campaigns
+   */
+  async getCampaigns(userId: string, workspaceId: string): Promise<Campaign[]> {
+    await this.assertMember(workspaceId, userId);
+    return await db.findWorkspaceCampaigns(workspaceId);
+  }
+
+  /**
+   * Get a single campaign
+   */
+  async getCampaign(
+    userId: string,
+    workspaceId: string,
+    campaignId: string
+  ): Promise<Campaign> {
+    await this.assertMember(workspaceId, userId);
+    return await this.findCampaign(workspaceId, campaignId);
+  }
+
+  /**
+   * Create a campaign
+   */
+  async createCampaign(
+    userId: string,
+    workspaceId: string,
+    campaignData: CampaignDto
+  ): Promise<Campaign> {
+    await this.assertCanManage(workspaceId, userId);
+
+    const errors = validateCampaign(campaignData);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid campaign', errors);
+    }
+
+    const record: Omit<Campaign, 'id' | 'created_at' | 'updated_at'> = {
+      workspace_id: workspaceId,
+      name: campaignData.name.trim(),
+      created_by: userId,
+    };
+    for (const field of OPTIONAL_FIELDS) {
+      const value = campaignData[field];
+      if (value) record[field] = value;
+    }
+
+    return await db.createCampaign(record);
+  }
+
+  /**
+   * Update a campaign. Optional fields set to null are cleared.
+   */
+  async updateCampaign(
+    userId: string,
+    workspaceId: string,
+    campaignId: string,
+    updates: Partial<Record<keyof CampaignDto, string | null>>
+  ): Promise<Campaign> {
+    await this.assertCanManage(workspaceId, userId);
+    const campaign = await this.findCampaign(workspaceId, campaignId);
+
+    const merged: Partial<CampaignDto> = {};
+    for (const field of ['name', ...OPTIONAL_FIELDS] as const) {
+      const value =
+        updates[field] === undefined ? campaign[field] : updates[field];
+      if (value !== null && value !== undefined) merged[field] = value;
+    }
+
+    const errors = validateCampaign(merged);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid campaign', errors);
+    }
+
+    const changes: Partial<Campaign> = {};
+    if (typeof updates.name === 'string') changes.name = updates.name.trim();
+    for (const field of OPTIONAL_FIELDS) {
+      const value = updates[field];
+      if (value !== undefined) changes[field] = value;
+    }
+
+    return await db.updateCampaign(campaignId, changes);
+  }
+
+  /**
+   * Delete a campaign. Its posts are kept.
+   */
+  async deleteCampaign(
+    userId: string,
+    workspaceId: string,
+    campaignId: string
+  ): Promise<void> {
+    await this.assertCanManage(workspaceId, userId);
+    await this.findCampaign(workspaceId, campaignId);
+    await db.deleteCampaign(campaignId);
+  }
+
+  /**
+   * Count a campaign's posts by status
+   */
+  async getCampaignStats(
+    userId: string,
+    workspaceId: string,
+    campaignId: string
+  ): Promise<CampaignStats> {
+    await this.assertMember(workspaceId, userId);
+    await this.findCampaign(workspaceId, campaignId);
+
+    const statuses = await db.findCampaignPostStatuses(campaignId);
+    const byStatus: CampaignStats['by_status'] = {};
+    statuses.forEach(status => {
+      byStatus[status] = (byStatus[status] ?? 0) + 1;
+    });
+
+    return {
+      campaign_id: campaignId,
+      total: statuses.length,
+      by_status: byStatus,
+    };
+  }
+
+  /**
+   * Find a campaign, checking it belongs to the workspace
+   */
+  private async findCampaign(
+    workspaceId: string,
+    campaignId: string
+  ): Promise<Campaign> {
+    const campaign = await db.findCampaign(campaignId);
+    if (!campaign || campaign.workspace_id !== workspaceId) {
+      throw new NotFoundError('Campaign', campaignId);
+    }
+    return campaign;
+  }
+
+  private async assertMember(
+    workspaceId: string,
+    userId: string
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+  }
+
+  // Campaigns are managed by the members who can create posts
+  private async assertCanManage(
+    workspaceId: string,
+    userId: string
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+    WorkspacePermissionManager.requirePermission(
+      role,
+      'canCreatePosts',
+      'manage campaigns'
+    );
+  }
+}
@@ -0,0 +1,4 @@
+import { CampaignsService } from './campaigns.service';
+
+export { CampaignsService };
+export * from './campaign.validation';
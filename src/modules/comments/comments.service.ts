@@ -0,0 +1,303 @@
+import { db } from '../../database/database.service';
+import {
+  CreatePostCommentDto,
+  Post,
+  PostComment,
+  PostCommentThread,
+} from '../../types/core-modules.types';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+import { NotificationsService } from '../notifications/notifications.service';
+import { WorkspacePermissionManager } from '../workspace/workspace.permissions';
+import { resolveMentions } from './mentions';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+/**
+ * Internal post comment service. Comments are only visible to the post's
+ * author and, for workspace posts, the workspace's members.
+ */
+export class CommentsService {
+  private notificationsService: NotificationsService;
+
+  constructor() {
+    this.notificationsService = new NotificationsService();
+  }
+
+  /**
+   * Get a post's comments grouped into threads, oldest first
+   */
+  async getComments(
+    userId: string,
+    postId: string
+  ): Promise<PostCommentThread[]> {
+    await this.getCommentablePost(userId, postId);
+    const comments = await db.findPostComments(postId);
+
+    const threads = comments
+      .filter(comment => !comment.parent_id)
+      .map(comment => ({ ...comment, replies: [] as PostComment[] }));
+    const byId = new Map(threads.map(thread => [thread.id, thread]));
+    comments.forEach(comment => {
+      if (comment.parent_id) byId.get(comment.parent_id)?.replies.push(comment);
+    });
+
+    // Deleted threads are only kept for their replies
+    return threads.filter(
+      thread => !thread.deleted_at || thread.replies.length > 0
+    );
+  }
+
+  /**
+   * Comment on a post or reply to a thread, notifying the members it
+   * mentions
+   */
+  async addComment(
+    userId: string,
+    postId: string,
+    commentData: CreatePostCommentDto
+  ): Promise<PostComment> {
+    const post = await this.getCommentablePost(userId, postId);
+    this.assertValidBody(commentData.body);
+
+    const comment: Omit<PostComment, 'id' | 'created_at' | 'updated_at'> = {
+      post_id: post.id,
+      author_id: userId,
+      body: commentData.body.trim(),
+      mentions: await this.findMentions(post, commentData.body, userId),
+    };
+    if (post.workspace_id) comment.workspace_id = post.workspace_id;
+
+    if (commentData.parent_id) {
+      const parent = await db.findPostComment(commentData.parent_id);
+      if (parent?.post_id !== post.id) {
+        throw new NotFoundError('Comment', commentData.parent_id);
+      }
+      // Replies to a reply join the same thread
+      comment.parent_id = parent.parent_id ?? parent.id;
+    }
+
+    const created = await db.createPostComment(comment);
+    await this.notifyMentioned(post, created, created.mentions);
+
+    return created;
+  }
+
+  /**
+   * Edit a comment. Only its author can, and only newly mentioned members
+   * are notified.
+   */
+  async editComment(
+    userId: string,
+    postId: string,
+    commentId: string,
+    body: string
+  ): Promise<PostComment> {
+    const post = await this.getCommentablePost(userId, postId);
+    const comment = await this.findComment(post.id, commentId);
+
+    if (comment.deleted_at) {
+      throw new NotFoundError('Comment', commentId);
+    }
+    if (comment.author_id !== userId) {
+      throw new AuthorizationError('Only the author can edit a comment');
+    }
+    this.assertValidBody(body);
+
+    const mentions = await this.findMentions(post, body, userId);
+    const updated = await db.updatePostComment(commentId, {
+      body: body.trim(),
+      mentions,
+      edited_at: new Date().toISOString(),
+    });
+
+    const previous = new Set(comment.mentions ?? []);
+    await this.notifyMentioned(
+      post,
+      updated,
+      mentions.filter(memberId => !previous.has(memberId))
+    );
+
+    return updated;
+  }
+
+  /**
+   * Delete a comment and its replies. Only its author can. A thread with
+   * replies from other members keeps them, and only its text is removed.
+   */
+  async deleteComment(
+    userId: string,
+    postId: string,
+    commentId: string
+  ): Promise<void> {
+    const post = await this.getCommentablePost(userId, postId);
+    const comment = await this.findComment(post.id, commentId);
+
+    if (comment.deleted_at) {
+      throw new NotFoundError('Comment', commentId);
+    }
+    if (comment.author_id !== userId) {
+      throw new AuthorizationError('Only the author can delete a comment');
+    }
+
+    if (!comment.parent_id) {
+      const comments = await db.findPostComments(post.id);
+      const hasOtherReplies = comments.some(
+        reply => reply.parent_id === commentId && reply.author_id !== userId
+      );
+      if (hasOtherReplies) {
+        await db.updatePostComment(commentId, {
+          body: '',
+          mentions: [],
+          deleted_at: new Date().toISOString(),
+        });
+        return;
+      }
+    }
+
+    await db.deletePostComment(commentId);
+  }
+
+  /**
+   * Mark a thread as resolved, or reopen it
+   */
+  async setResolved(
+    userId: string,
+    postId: string,
+    commentId: string,
+    resolved: boolean
+  ): Promise<PostComment> {
+    const post = await this.getCommentablePost(userId, postId);
+    const comment = await this.findComment(post.id, commentId);
+
+    if (comment.parent_id) {
+      throw new ValidationError('Invalid comment', [
+        {
+          field: 'comment_id',
+          value: commentId,
+          message: 'Only top-level comments can be resolved',
+        },
+      ]);
+    }
+
+    if (resolved) {
+      return await db.updatePostComment(commentId, {
+        resolved_at: new Date().toISOString(),
+        resolved_by: userId,
+      });
+    }
+
+    return await db.updatePostComment(commentId, {
+      resolved_at: null,
+      resolved_by: null,
+    });
+  }
+
+  /**
+   * Find a post the user may comment on. Workspace posts are open to every
+   * member, including viewers; personal posts only to their author.
+   */
+  private async getCommentablePost(
+    userId: string,
+    postId: string
+  ): Promise<Post> {
+    const post =
+      (await db.findPostById(postId, userId)) ??
+      (await db.findWorkspacePost(postId));
+
+    if (post?.workspace_id) {
+      const role = await db.findWorkspaceMemberRole(post.workspace_id, userId);
+      if (role) {
+        WorkspacePermissionManager.requirePermission(
+          role,
+          'canCommentOnPosts',
+          'comment on posts'
+        );
+        return post;
+      }
+    } else if (post?.user_id === userId) {
+      return post;
+    }
+
+    // Don't reveal posts the user can't see
+    throw new Error('Post not found');
+  }
+
+  private async findComment(
+    postId: string,
+    commentId: string
+  ): Promise<PostComment> {
+    const comment = await db.findPostComment(commentId);
+    if (comment?.post_id !== postId) {
+      throw new NotFoundError('Comment', commentId);
+    }
+    return comment;
+  }
+
+  private assertValidBody(body: unknown): void {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new ValidationError('Invalid comment', [
+        { field: 'body', message: 'Comment text is required' },
+      ]);
+    }
+
+    if (body.length > MAX_COMMENT_LENGTH) {
+      throw new ValidationError('Invalid comment', [
+        {
+          field: 'body',
+          value: body.length,
+          message: `Comments can be at most ${MAX_COMMENT_LENGTH} characters`,
+        },
+      ]);
+    }
+  }
+
+  /**
+   * Members mentioned in a comment, leaving out its author
+   */
+  private async findMentions(
+    post: Post,
+    body: string,
+    authorId: string
+  ): Promise<string[]> {
+    if (!post.workspace_id) {
+      return [];
+    }
+
+    const members = await db.findWorkspaceMembers(post.workspace_id);
+    return resolveMentions(body, members).filter(
+      memberId => memberId !== authorId
+    );
+  }
+
+  private async notifyMentioned(
+    post: Post,
+    comment: PostComment,
+    memberIds: string[]
+  ): Promise<void> {
+    for (const memberId of memberIds) {
+      try {
+        await this.notificationsService.notify({
+          user_id: memberId,
+          ...(post.workspace_id ? { workspace_id: post.workspace_id } : {}),
+          type: 'mention',
+          title: 'You were mentioned in a comment',
+          message: comment.body,
+          data: {
+            post_id: post.id,
+            comment_id: comment.id,
+            author_id: comment.author_id,
+          },
+        });
+      } catch (error) {
+        console.error(
+          `Failed to send mention notification for comment ${comment.id}:`,
+          error
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,4 @@
+import { CommentsService } from './comments.service';
+
+export { CommentsService };
+export * from './mentions';
@@ -0,0 +1,62 @@
+import { WorkspaceMember } from '../workspace/workspace.types';
+
+export type MentionableMember = Pick<
+  WorkspaceMember,
+  'user_id' | 'email' | 'user_name'
+>;
+
+// `@handle` or `@name@example.com`, but not the middle of an email address
+const MENTION_PATTERN =
+  /(?:^|[^\w@.])@([\w.%+-]+(?:@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)?)/g;
+
+// Compare handles without case or punctuation, so @jane.doe finds "Jane Doe"
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The handles mentioned in a comment, without the leading `@`
+ */
+export const extractMentions = (body: string): string[] => {
+  const handles = [...body.matchAll(MENTION_PATTERN)].map(match =>
+    (match[1] as string).replace(/\.+$/, '')
+  );
+  return [...new Set(handles.filter(handle => handle.length > 0))];
+};
+
+/**
+ * Work out which members a comment mentions. A handle matches a member's
+ * email address, the part of it before the `@`, or their name. Handles
+ * that match more than one member are ignored.
+ */
+export const resolveMentions = (
+  body: string,
+  members: MentionableMember[]
+): string[] => {
+  const mentioned = new Set<string>();
+
+  for (const handle of extractMentions(body)) {
+    const byEmail = members.find(
+      member => member.email.toLowerCase() === handle.toLowerCase()
+    );
+    if (byEmail) {
+      mentioned.add(byEmail.user_id);
+      continue;
+    }
+
+    const key = normalize(handle);
+    if (!key) {
+      continue;
+    }
+
+    const matches = members.filter(
+      member =>
+        normalize(member.email.split('@')[0] ?? '') === key ||
+        (member.user_name !== undefined && normalize(member.user_name) === key)
+    );
+    if (matches.length === 1) {
+      mentioned.add((matches[0] as MentionableMember).user_id);
+    }
+  }
+
+  return [...mentioned];
+};
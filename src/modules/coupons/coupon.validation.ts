@@ -0,0 +1,182 @@
+import { BillingInfo, Coupon, CouponDto } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+
+export const COUPON_CODE_PATTERN = /^[A-Z0-9_-]{3,32}$/;
+
+const PAID_PLANS: BillingInfo['current_plan'][] = [
+  'STARTER',
+  'PROFESSIONAL',
+  'ENTERPRISE',
+];
+
+const isPositiveInteger = (value: unknown): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Codes are matched case-insensitively and stored in upper case
+ */
+export const normalizeCouponCode = (code: string): string =>
+  code.trim().toUpperCase();
+
+/**
+ * Validate a coupon, returning field-level errors
+ */
+export const validateCoupon = (coupon: Partial<CouponDto>): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (
+    typeof coupon.code !== 'string' ||
+    !COUPON_CODE_PATTERN.test(normalizeCouponCode(coupon.code))
+  ) {
+    errors.push({
+      field: 'code',
+      value: coupon.code,
+      message: 'Code must be 3-32 letters, digits, dashes or underscores',
+    });
+  }
+
+  if (coupon.discount_type === 'percent') {
+    if (
+      typeof coupon.percent_off !== 'number' ||
+      coupon.percent_off <= 0 ||
+      coupon.percent_off > 100
+    ) {
+      errors.push({
+        field: 'percent_off',
+        value: coupon.percent_off,
+        message: 'Percent off must be more than 0 and at most 100',
+      });
+    }
+  } else if (coupon.discount_type === 'fixed') {
+    if (!isPositiveInteger(coupon.amount_off)) {
+      errors.push({
+        field: 'amount_off',
+        value: coupon.amount_off,
+        message: 'Amount off must be a positive whole number of cents',
+      });
+    }
+    if (
+      typeof coupon.currency !== 'string' ||
+      !/^[a-z]{3}$/i.test(coupon.currency)
+    ) {
+      errors.push({
+        field: 'currency',
+        value: coupon.currency,
+        message: 'Fixed discounts need a three-letter currency code',
+      });
+    }
+  } else {
+    errors.push({
+      field: 'discount_type',
+      value: coupon.discount_type,
+      message: "Discount type must be 'percent' or 'fixed'",
+    });
+  }
+
+  if (!['once', 'repeating', 'forever'].includes(coupon.duration ?? '')) {
+    errors.push({
+      field: 'duration',
+      value: coupon.duration,
+      message: "Duration must be 'once', 'repeating' or 'forever'",
+    });
+  } else if (
+    coupon.duration === 'repeating' &&
+    !isPositiveInteger(coupon.duration_in_months)
+  ) {
+    errors.push({
+      field: 'duration_in_months',
+      value: coupon.duration_in_months,
+      message: 'Repeating coupons need a number of months',
+    });
+  }
+
+  if (
+    coupon.max_redemptions !== undefined &&
+    !isPositiveInteger(coupon.max_redemptions)
+  ) {
+    errors.push({
+      field: 'max_redemptions',
+      value: coupon.max_redemptions,
+      message: 'Max redemptions must be a positive whole number',
+    });
+  }
+
+  if (
+    coupon.expires_at !== undefined &&
+    (typeof coupon.expires_at !== 'string' ||
+      isNaN(Date.parse(coupon.expires_at)))
+  ) {
+    errors.push({
+      field: 'expires_at',
+      value: coupon.expires_at,
+      message: 'Must be a valid date',
+    });
+  }
+
+  if (
+    coupon.plan_ids !== undefined &&
+    (!Array.isArray(coupon.plan_ids) ||
+      !coupon.plan_ids.every(plan => PAID_PLANS.includes(plan)))
+  ) {
+    errors.push({
+      field: 'plan_ids',
+      value: coupon.plan_ids,
+      message: `Plans must be any of ${PAID_PLANS.join(', ')}`,
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Why a coupon can't be used for a plan right now, or null if it can
+ */
+export const getCouponIssue = (
+  coupon: Coupon,
+  plan: BillingInfo['current_plan'],
+  currency: string,
+  now: Date = new Date()
+): string | null => {
+  if (!coupon.active) {
+    return 'This coupon is no longer active';
+  }
+
+  if (coupon.expires_at && Date.parse(coupon.expires_at) <= now.getTime()) {
+    return 'This coupon has expired';
+  }
+
+  if (
+    typeof coupon.max_redemptions === 'number' &&
+    coupon.times_redeemed >= coupon.max_redemptions
+  ) {
+    return 'This coupon has been fully redeemed';
+  }
+
+  if (!PAID_PLANS.includes(plan)) {
+    return 'Coupons only apply to paid plans';
+  }
+
+  if (coupon.plan_ids.length > 0 && !coupon.plan_ids.includes(plan)) {
+    return `This coupon can't be used for the ${plan} plan`;
+  }
+
+  if (
+    coupon.discount_type === 'fixed' &&
+    coupon.currency?.toUpperCase() !== currency.toUpperCase()
+  ) {
+    return `This coupon can't be used for payments in ${currency}`;
+  }
+
+  return null;
+};
+
+/**
+ * The discount a coupon gives on a price, never more than the price itself
+ */
+export const calculateDiscount = (coupon: Coupon, price: number): number => {
+  const discount =
+    coupon.discount_type === 'percent'
+      ? Math.round((price * (coupon.percent_off ?? 0)) / 100)
+      : (coupon.amount_off ?? 0);
+  return Math.min(discount, price);
+};
@@ -0,0 +1,133 @@
+import { Router, Response, Request } from 'express';
+import { requireRole } from '../../auth/auth.middleware';
+import { asyncHandler } from '../../utils/async-handler';
+import { BillingService } from '../billing/billing.service';
+import { CouponsService } from './coupons.service';
+
+// The auth middleware adds user to request
+interface AuthenticatedRequest extends Request {
+  user?: any;
+}
+
+const router = Router();
+const couponsService = new CouponsService();
+const billingService = new BillingService();
+
+// Preview the discount a coupon gives on a plan
+router.post(
+  '/validate',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { planId, billingInterval } = req.body;
+    const code = req.body.code ?? req.body.couponCode;
+
+    if (
+      !planId ||
+      typeof planId !== 'string' ||
+      !['STARTER', 'PROFESSIONAL', 'ENTERPRISE'].includes(planId)
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: 'Valid paid planId is required',
+      });
+    }
+
+    if (!['monthly', 'yearly'].includes(billingInterval)) {
+      return res.status(400).json({
+        success: false,
+        message: "Billing interval must be 'monthly' or 'yearly'",
+      });
+    }
+
+    const preview = await billingService.previewCoupon(
+      req.user.id,
+      code,
+      planId as 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE',
+      billingInterval as 'monthly' | 'yearly'
+    );
+
+    return res.json({
+      success: true,
+      data: preview,
+    });
+  })
+);
+
+// Admin management of coupons
+router.get(
+  '/',
+  requireRole('admin'),
+  asyncHandler(async (_req: AuthenticatedRequest, res: Response) => {
+    const coupons = await couponsService.getCoupons();
+
+    return res.json({
+      success: true,
+      data: coupons,
+    });
+  })
+);
+
+router.post(
+  '/',
+  requireRole('admin'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const coupon = await couponsService.createCoupon(req.user.id, req.body);
+
+    return res.status(201).json({
+      success: true,
+      data: coupon,
+      message: 'Coupon created successfully',
+    });
+  })
+);
+
+router.get(
+  '/:id',
+  requireRole('admin'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const coupon = await couponsService.getCoupon(req.params.id as string);
+
+    return res.json({
+      success: true,
+      data: coupon,
+    });
+  })
+);
+
+router.patch(
+  '/:id',
+  requireRole('admin'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const coupon = await couponsService.updateCoupon(
+      req.params.id as string,
+      req.body
+    );
+
+    return res.json({
+      success: true,
+      data: coupon,
+      message: 'Coupon updated successfully',
+    });
+  })
+);
+
+router.delete(
+  '/:id',
+  requireRole('admin'),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    await couponsService.deleteCoupon(req.params.id as string);
+
+    return res.json({
+      success: true,
+      message: 'Coupon deleted successfully',
+    });
+  })
+);
+
+export default router;
@@ -0,0 +1,262 @@
+import { db } from '../../database/database.service';
+import {
+  AppliedDiscount,
+  BillingInfo,
+  Coupon,
+  CouponDto,
+} from '../../types/core-modules.types';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+import {
+  getCouponIssue,
+  normalizeCouponCode,
+  validateCoupon,
+} from './coupon.validation';
+
+// Coupon fields that can be cleared by updating them to null
+const OPTIONAL_FIELDS = [
+  'description',
+  'percent_off',
+  'amount_off',
+  'currency',
+  'duration_in_months',
+  'max_redemptions',
+  'expires_at',
+] as const;
+
+const MAX_REDEEM_ATTEMPTS = 3;
+
+/**
+ * Coupon service. Managing coupons is left to admins; the checks on who may
+ * call these methods are made by the routes.
+ */
+export class CouponsService {
+  /**
+   * Get every coupon
+   */
+  async getCoupons(): Promise<Coupon[]> {
+    return await db.findCoupons();
+  }
+
+  /**
+   * Get a single coupon
+   */
+  async getCoupon(couponId: string): Promise<Coupon> {
+    const coupon = await db.findCoupon(couponId);
+    if (!coupon) {
+      throw new NotFoundError('Coupon', couponId);
+    }
+    return coupon;
+  }
+
+  /**
+   * Create a coupon
+   */
+  async createCoupon(userId: string, couponData: CouponDto): Promise<Coupon> {
+    const errors = validateCoupon(couponData);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid coupon', errors);
+    }
+
+    const code = normalizeCouponCode(couponData.code);
+    await this.assertCodeAvailable(code);
+
+    const record: Omit<Coupon, 'id' | 'created_at' | 'updated_at'> = {
+      code,
+      discount_type: couponData.discount_type,
+      duration: couponData.duration,
+      times_redeemed: 0,
+      plan_ids: couponData.plan_ids ?? [],
+      active: couponData.active ?? true,
+      created_by: userId,
+    };
+    for (const field of OPTIONAL_FIELDS) {
+      const value = couponData[field];
+      if (value !== undefined) {
+        (record as Record<string, unknown>)[field] = value;
+      }
+    }
+    if (record.currency) record.currency = record.currency.toUpperCase();
+
+    return await db.createCoupon(record);
+  }
+
+  /**
+   * Update a coupon. Optional fields set to null are cleared. Discounts
+   * already redeemed keep the terms they were redeemed with.
+   */
+  async updateCoupon(
+    couponId: string,
+    updates: Partial<Record<keyof CouponDto, unknown>>
+  ): Promise<Coupon> {
+    const coupon = await this.getCoupon(couponId);
+
+    const merged: Partial<CouponDto> = {};
+    for (const field of [
+      'code',
+      'discount_type',
+      'duration',
+      'plan_ids',
+      'active',
+      ...OPTIONAL_FIELDS,
+    ] as const) {
+      const value =
+        updates[field] === undefined ? coupon[field] : updates[field];
+      if (value !== null && value !== undefined) {
+        (merged as Record<string, unknown>)[field] = value;
+      }
+    }
+
+    const errors = validateCoupon(merged);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid coupon', errors);
+    }
+
+    const changes: Partial<Coupon> = {};
+    if (typeof updates.code === 'string') {
+      changes.code = normalizeCouponCode(updates.code);
+      if (changes.code !== coupon.code) {
+        await this.assertCodeAvailable(changes.code);
+      }
+    }
+    for (const field of [
+      'discount_type',
+      'duration',
+      'plan_ids',
+      'active',
+      ...OPTIONAL_FIELDS,
+    ] as const) {
+      if (updates[field] !== undefined) {
+        // Each value was validated through `merged` above
+        (changes as Record<string, unknown>)[field] = updates[field];
+      }
+    }
+    if (typeof changes.currency === 'string') {
+      changes.currency = changes.currency.toUpperCase();
+    }
+
+    return await db.updateCoupon(couponId, changes);
+  }
+
+  /**
+   * Delete a coupon
+   */
+  async deleteCoupon(couponId: string): Promise<void> {
+    await this.getCoupon(couponId);
+    await db.deleteCoupon(couponId);
+  }
+
+  /**
+   * Find a coupon the user can redeem for a plan, explaining why not
+   * otherwise
+   */
+  async getRedeemableCoupon(
+    userId: string,
+    code: unknown,
+    plan: BillingInfo['current_plan'],
+    currency: string
+  ): Promise<Coupon> {
+    const coupon =
+      typeof code === 'string' && code.trim()
+        ? await db.findCouponByCode(normalizeCouponCode(code))
+        : null;
+
+    let issue = coupon
+      ? getCouponIssue(coupon, plan, currency)
+      : 'No coupon exists with this code';
+    if (coupon && !issue) {
+      const redemption = await db.findCouponRedemption(coupon.id, userId);
+      if (redemption) issue = 'You have already used this coupon';
+    }
+
+    if (!coupon || issue) {
+      throw new ValidationError(issue as string, [
+        { field: 'coupon_code', value: code, message: issue as string },
+      ]);
+    }
+
+    return coupon;
+  }
+
+  /**
+   * Redeem a coupon for a user, returning the discount to apply to their
+   * subscription. Redemptions made at the same time by other users are
+   * retried rather than failing a checkout that has already been charged.
+   */
+  async redeemCoupon(
+    userId: string,
+    coupon: Coupon,
+    plan: BillingInfo['current_plan']
+  ): Promise<AppliedDiscount> {
+    let current = coupon;
+    let redemption = await db.redeemCoupon(current, userId, plan);
+    for (
+      let attempt = 1;
+      !redemption && attempt < MAX_REDEEM_ATTEMPTS;
+      attempt++
+    ) {
+      current = await this.getCoupon(coupon.id);
+      redemption = await db.redeemCoupon(current, userId, plan);
+    }
+
+    if (!redemption) {
+      throw new ConflictError('Coupon could not be redeemed, please try again');
+    }
+
+    const startsAt = new Date(redemption.redeemed_at);
+    const discount: AppliedDiscount = {
+      coupon_id: coupon.id,
+      code: coupon.code,
+      discount_type: coupon.discount_type,
+      duration: coupon.duration,
+      starts_at: startsAt.toISOString(),
+    };
+    if (typeof coupon.percent_off === 'number') {
+      discount.percent_off = coupon.percent_off;
+    }
+    if (typeof coupon.amount_off === 'number') {
+      discount.amount_off = coupon.amount_off;
+    }
+    if (coupon.currency) discount.currency = coupon.currency;
+    if (coupon.duration === 'repeating' && coupon.duration_in_months) {
+      discount.duration_in_months = coupon.duration_in_months;
+      const endsAt = new Date(startsAt);
+      endsAt.setUTCMonth(endsAt.getUTCMonth() + coupon.duration_in_months);
+      discount.ends_at = endsAt.toISOString();
+    }
+
+    return discount;
+  }
+
+  /**
+   * Give back a user's redemption of a coupon, after the charge it was
+   * redeemed for has failed
+   */
+  async releaseCoupon(userId: string, couponId: string): Promise<void> {
+    let released = false;
+    for (
+      let attempt = 0;
+      !released && attempt < MAX_REDEEM_ATTEMPTS;
+      attempt++
+    ) {
+      const coupon = await this.getCoupon(couponId);
+      released = await db.releaseCouponRedemption(coupon, userId);
+    }
+
+    if (!released) {
+      console.error(
+        `Failed to release redemption of coupon ${couponId} for user ${userId}`
+      );
+    }
+  }
+
+  private async assertCodeAvailable(code: string): Promise<void> {
+    const existing = await db.findCouponByCode(code);
+    if (existing) {
+      throw new ConflictError(`A coupon with the code ${code} already exists`);
+    }
+  }
+}
@@ -0,0 +1,8 @@
+import couponsRoutes from './coupons.controller';
+import { CouponsService } from './coupons.service';
+
+export * from './coupon.validation';
+
+export { couponsRoutes, CouponsService };
+
+export default couponsRoutes;
@@ -0,0 +1,7 @@
+import notificationsController from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+
+export { notificationsController, NotificationsService };
+export * from './notifications.types';
+
+export default notificationsController;
@@ -0,0 +1,68 @@
+import { Router, Response } from 'express';
+import { NotificationsService } from './notifications.service';
+import { asyncHandler } from '../../utils/async-handler';
+import { AuthenticatedRequest } from '../../workspace/workspace.middleware';
+
+const router = Router();
+const notificationsService = new NotificationsService();
+
+// Get the current user's notifications
+router.get(
+  '/',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const notifications = await notificationsService.getNotifications(
+      req.user.id,
+      {
+        unreadOnly: req.query.unread === 'true',
+        limit: req.query.limit ? parseInt(req.query.limit as string) : 50,
+      }
+    );
+
+    return res.json({
+      success: true,
+      data: notifications,
+    });
+  })
+);
+
+// Mark notifications as read, or all of them when no IDs are given
+router.post(
+  '/read',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { ids } = req.body;
+
+    if (ids !== undefined && !Array.isArray(ids)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Notification IDs must be an array',
+      });
+    }
+
+    const notifications = await notificationsService.markAsRead(
+      req.user.id,
+      ids
+    );
+
+    return res.json({
+      success: true,
+      data: notifications,
+      message: `${notifications.length} notifications marked as read`,
+    });
+  })
+);
+
+export default router;
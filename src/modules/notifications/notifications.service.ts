@@ -0,0 +1,43 @@
+import { db } from '../../database/database.service';
+import { CreateNotificationDto, UserNotification } from './notifications.types';
+
+// Most notifications returned in one listing
+const MAX_NOTIFICATIONS = 100;
+
+/**
+ * In-app notification service
+ */
+export class NotificationsService {
+  /**
+   * Send a notification to a user
+   */
+  async notify(notification: CreateNotificationDto): Promise<UserNotification> {
+    return await db.createNotification(notification);
+  }
+
+  /**
+   * Get a user's notifications, newest first
+   */
+  async getNotifications(
+    userId: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<UserNotification[]> {
+    const limit = Math.min(options.limit ?? 50, MAX_NOTIFICATIONS);
+    return await db.findUserNotifications(
+      userId,
+      options.unreadOnly === true,
+      limit
+    );
+  }
+
+  /**
+   * Mark a user's notifications as read, or all of them when no IDs are
+   * given. Returns the notifications that changed.
+   */
+  async markAsRead(
+    userId: string,
+    notificationIds?: string[]
+  ): Promise<UserNotification[]> {
+    return await db.markNotificationsRead(userId, notificationIds);
+  }
+}
@@ -0,0 +1,21 @@
+export type UserNotificationType = 'post_failed' | 'mention';
+
+/**
+ * An in-app notification shown to one user
+ */
+export interface UserNotification {
+  id: string;
+  user_id: string;
+  workspace_id?: string;
+  type: UserNotificationType;
+  title: string;
+  message: string;
+  data: Record<string, any>;
+  read_at?: string;
+  created_at: string;
+}
+
+export type CreateNotificationDto = Omit<
+  UserNotification,
+  'id' | 'read_at' | 'created_at'
+>;
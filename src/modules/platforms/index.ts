@@ -0,0 +1,7 @@
+export {
+  getPlatformCapabilities,
+  listPlatformCapabilities,
+} from './platform.registry';
+export { getMediaFileType, validateForPlatforms } from './platform.validation';
+export type { PublishableContent } from './platform.validation';
+export * from './platform.types';
@@ -0,0 +1,237 @@
+import { FileType, SocialPlatform } from '../../types/enums.types';
+import { PlatformCapabilities } from './platform.types';
+
+const MB = 1024 * 1024;
+const GB = 1024 * MB;
+
+const IMAGE_TYPES = [FileType.JPEG, FileType.PNG, FileType.GIF, FileType.WEBP];
+const VIDEO_TYPES = [FileType.MP4, FileType.MOV];
+
+const PLATFORM_CAPABILITIES: Record<string, PlatformCapabilities> = {
+  [SocialPlatform.TWITTER]: {
+    platform: SocialPlatform.TWITTER,
+    name: 'X',
+    maxCharacters: 280,
+    maxMediaCount: 4,
+    allowedFileTypes: [...IMAGE_TYPES, ...VIDEO_TYPES],
+    video: { maxDurationSeconds: 140, maxSizeBytes: 512 * MB },
+    requiresMedia: false,
+    supportsThreads: true,
+    supportsCarousels: false,
+    supportsPolls: true,
+  },
+  [SocialPlatform.FACEBOOK]: {
+    platform: SocialPlatform.FACEBOOK,
+    name: 'Facebook',
+    maxCharacters: 63206,
+    maxMediaCount: 10,
+    allowedFileTypes: [
+      ...IMAGE_TYPES,
+      FileType.BMP,
+      FileType.TIFF,
+      ...VIDEO_TYPES,
+    ],
+    video: { maxDurationSeconds: 4 * 60 * 60, maxSizeBytes: 10 * GB },
+    requiresMedia: false,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  [SocialPlatform.INSTAGRAM]: {
+    platform: SocialPlatform.INSTAGRAM,
+    name: 'Instagram',
+    maxCharacters: 2200,
+    maxMediaCount: 10,
+    allowedFileTypes: [FileType.JPEG, FileType.PNG, ...VIDEO_TYPES],
+    video: { maxDurationSeconds: 15 * 60, maxSizeBytes: 1 * GB },
+    requiresMedia: true,
+    supportsThreads: false,
+    supportsCarousels: true,
+    supportsPolls: false,
+  },
+  [SocialPlatform.LINKEDIN]: {
+    platform: SocialPlatform.LINKEDIN,
+    name: 'LinkedIn',
+    maxCharacters: 3000,
+    maxMediaCount: 20,
+    allowedFileTypes: [FileType.JPEG, FileType.PNG, FileType.GIF, FileType.MP4],
+    video: { maxDurationSeconds: 15 * 60, maxSizeBytes: 5 * GB },
+    requiresMedia: false,
+    supportsThreads: false,
+    supportsCarousels: true,
+    supportsPolls: true,
+  },
+  [SocialPlatform.YOUTUBE]: {
+    platform: SocialPlatform.YOUTUBE,
+    name: 'YouTube',
+    maxCharacters: 5000,
+    maxMediaCount: 1,
+    allowedFileTypes: [
+      ...VIDEO_TYPES,
+      FileType.AVI,
+      FileType.WMV,
+      FileType.FLV,
+      FileType.WEBM,
+      FileType.MKV,
+    ],
+    video: { maxDurationSeconds: 12 * 60 * 60, maxSizeBytes: 256 * GB },
+    requiresMedia: true,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  [SocialPlatform.TIKTOK]: {
+    platform: SocialPlatform.TIKTOK,
+    name: 'TikTok',
+    maxCharacters: 2200,
+    maxMediaCount: 35,
+    allowedFileTypes: [
+      FileType.JPEG,
+      FileType.WEBP,
+      ...VIDEO_TYPES,
+      FileType.WEBM,
+    ],
+    video: { maxDurationSeconds: 10 * 60, maxSizeBytes: 4 * GB },
+    requiresMedia: true,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  [SocialPlatform.PINTEREST]: {
+    platform: SocialPlatform.PINTEREST,
+    name: 'Pinterest',
+    maxCharacters: 500,
+    maxMediaCount: 5,
+    allowedFileTypes: [...IMAGE_TYPES, ...VIDEO_TYPES],
+    video: { maxDurationSeconds: 15 * 60, maxSizeBytes: 2 * GB },
+    requiresMedia: true,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  [SocialPlatform.SNAPCHAT]: {
+    platform: SocialPlatform.SNAPCHAT,
+    name: 'Snapchat',
+    maxCharacters: 250,
+    maxMediaCount: 1,
+    allowedFileTypes: [FileType.JPEG, FileType.PNG, FileType.MP4],
+    video: { maxDurationSeconds: 60, maxSizeBytes: 32 * MB },
+    requiresMedia: true,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  [SocialPlatform.REDDIT]: {
+    platform: SocialPlatform.REDDIT,
+    name: 'Reddit',
+    maxCharacters: 40000,
+    maxMediaCount: 20,
+    allowedFileTypes: [
+      FileType.JPEG,
+      FileType.PNG,
+      FileType.GIF,
+      ...VIDEO_TYPES,
+    ],
+    video: { maxDurationSeconds: 15 * 60, maxSizeBytes: 1 * GB },
+    requiresMedia: false,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: true,
+  },
+  [SocialPlatform.DISCORD]: {
+    platform: SocialPlatform.DISCORD,
+    name: 'Discord',
+    maxCharacters: 2000,
+    maxMediaCount: 10,
+    allowedFileTypes: [...IMAGE_TYPES, ...VIDEO_TYPES, FileType.WEBM],
+    video: { maxSizeBytes: 25 * MB },
+    requiresMedia: false,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: true,
+  },
+  [SocialPlatform.TELEGRAM]: {
+    platform: SocialPlatform.TELEGRAM,
+    name: 'Telegram',
+    maxCharacters: 4096,
+    maxMediaCount: 10,
+    allowedFileTypes: [...IMAGE_TYPES, ...VIDEO_TYPES],
+    video: { maxSizeBytes: 2 * GB },
+    requiresMedia: false,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: true,
+  },
+  [SocialPlatform.WHATSAPP]: {
+    platform: SocialPlatform.WHATSAPP,
+    name: 'WhatsApp',
+    maxCharacters: 4096,
+    maxMediaCount: 1,
+    allowedFileTypes: [FileType.JPEG, FileType.PNG, FileType.MP4],
+    video: { maxSizeBytes: 16 * MB },
+    requiresMedia: false,
+    supportsThreads: false,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  threads: {
+    platform: 'threads',
+    name: 'Threads',
+    maxCharacters: 500,
+    maxMediaCount: 10,
+    allowedFileTypes: [FileType.JPEG, FileType.PNG, ...VIDEO_TYPES],
+    video: { maxDurationSeconds: 5 * 60, maxSizeBytes: 1 * GB },
+    requiresMedia: false,
+    supportsThreads: true,
+    supportsCarousels: false,
+    supportsPolls: true,
+  },
+  bluesky: {
+    platform: 'bluesky',
+    name: 'Bluesky',
+    maxCharacters: 300,
+    maxMediaCount: 4,
+    allowedFileTypes: [...IMAGE_TYPES, FileType.MP4],
+    video: { maxDurationSeconds: 3 * 60, maxSizeBytes: 100 * MB },
+    requiresMedia: false,
+    supportsThreads: true,
+    supportsCarousels: false,
+    supportsPolls: false,
+  },
+  mastodon: {
+    platform: 'mastodon',
+    name: 'Mastodon',
+    maxCharacters: 500,
+    maxMediaCount: 4,
+    allowedFileTypes: [...IMAGE_TYPES, ...VIDEO_TYPES, FileType.WEBM],
+    video: { maxSizeBytes: 40 * MB },
+    requiresMedia: false,
+    supportsThreads: true,
+    supportsCarousels: false,
+    supportsPolls: true,
+  },
+};
+
+// Postiz provider identifiers that share rules with a registry entry
+const PLATFORM_ALIASES: Record<string, string> = {
+  x: SocialPlatform.TWITTER,
+  'linkedin-page': SocialPlatform.LINKEDIN,
+  'instagram-standalone': SocialPlatform.INSTAGRAM,
+};
+
+/**
+ * Get the publishing rules for a platform, or undefined if it is not known
+ */
+export const getPlatformCapabilities = (
+  platform: string
+): PlatformCapabilities | undefined => {
+  const key = platform.toLowerCase();
+  return PLATFORM_CAPABILITIES[PLATFORM_ALIASES[key] ?? key];
+};
+
+/**
+ * List the publishing rules of every known platform
+ */
+export const listPlatformCapabilities = (): PlatformCapabilities[] => {
+  return Object.values(PLATFORM_CAPABILITIES);
+};
@@ -0,0 +1,30 @@
+import { FileType } from '../../types/enums.types';
+
+export interface VideoConstraints {
+  maxDurationSeconds?: number;
+  maxSizeBytes: number;
+}
+
+/**
+ * Publishing rules for a single social platform
+ */
+export interface PlatformCapabilities {
+  platform: string;
+  name: string;
+  maxCharacters: number;
+  maxMediaCount: number;
+  allowedFileTypes: FileType[];
+  video?: VideoConstraints;
+  requiresMedia: boolean;
+  supportsThreads: boolean;
+  supportsCarousels: boolean;
+  supportsPolls: boolean;
+}
+
+/**
+ * A social account a post will be published to
+ */
+export interface PublishTarget {
+  id: string;
+  platform: string;
+}
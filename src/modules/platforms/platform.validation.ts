@@ -0,0 +1,246 @@
+import {
+  MediaMetadata,
+  PostPart,
+  PostVariants,
+} from '../../types/core-modules.types';
+import { FileType } from '../../types/enums.types';
+import { ErrorDetails } from '../../types/errors';
+import { getPlatformCapabilities } from './platform.registry';
+import { PlatformCapabilities, PublishTarget } from './platform.types';
+
+/**
+ * The parts of a post that platform rules apply to
+ */
+export interface PublishableContent {
+  content?: string;
+  media_urls?: string[];
+  media_metadata?: Record<string, MediaMetadata>;
+  variants?: PostVariants;
+  parts?: Array<Pick<PostPart, 'content'> & { media_urls?: string[] }>;
+  settings?: Record<string, any>;
+}
+
+const FILE_TYPES_BY_EXTENSION: Record<string, FileType> = {
+  jpg: FileType.JPEG,
+  jpeg: FileType.JPEG,
+  png: FileType.PNG,
+  gif: FileType.GIF,
+  webp: FileType.WEBP,
+  svg: FileType.SVG,
+  bmp: FileType.BMP,
+  tif: FileType.TIFF,
+  tiff: FileType.TIFF,
+  mp4: FileType.MP4,
+  avi: FileType.AVI,
+  mov: FileType.MOV,
+  wmv: FileType.WMV,
+  flv: FileType.FLV,
+  webm: FileType.WEBM,
+  mkv: FileType.MKV,
+  pdf: FileType.PDF,
+};
+
+/**
+ * Work out a media file's type from its metadata or URL extension
+ */
+export const getMediaFileType = (
+  url: string,
+  metadata?: MediaMetadata
+): string | undefined => {
+  if (metadata?.mime_type) {
+    return metadata.mime_type;
+  }
+
+  const path = url.split(/[?#]/)[0] ?? '';
+  const extension = path.split('.').pop()?.toLowerCase();
+  return extension ? FILE_TYPES_BY_EXTENSION[extension] : undefined;
+};
+
+/**
+ * Characters as users see them, so emoji count once
+ */
+const countCharacters = (content: string): number => [...content].length;
+
+const validateLength = (
+  capabilities: PlatformCapabilities,
+  content: string,
+  field: string
+): ErrorDetails[] => {
+  const length = countCharacters(content);
+  if (length <= capabilities.maxCharacters) {
+    return [];
+  }
+
+  return [
+    {
+      field,
+      value: length,
+      constraint: 'maxCharacters',
+      message: `${capabilities.name} allows at most ${capabilities.maxCharacters} characters`,
+    },
+  ];
+};
+
+const validateMedia = (
+  capabilities: PlatformCapabilities,
+  mediaUrls: string[],
+  mediaField: string,
+  metadata: Record<string, MediaMetadata> = {},
+  requireMedia: boolean = capabilities.requiresMedia
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+  const { name } = capabilities;
+
+  if (requireMedia && mediaUrls.length === 0) {
+    errors.push({
+      field: mediaField,
+      constraint: 'requiresMedia',
+      message: `${name} posts require at least one media file`,
+    });
+  }
+
+  if (mediaUrls.length > capabilities.maxMediaCount) {
+    errors.push({
+      field: mediaField,
+      value: mediaUrls.length,
+      constraint: 'maxMediaCount',
+      message: `${name} allows at most ${capabilities.maxMediaCount} media files`,
+    });
+  }
+
+  mediaUrls.forEach((url, index) => {
+    const field = `${mediaField}[${index}]`;
+    const details = metadata[url];
+    const fileType = getMediaFileType(url, details);
+
+    // Unknown types are left for Postiz to reject
+    if (!fileType) return;
+
+    if (!capabilities.allowedFileTypes.includes(fileType as FileType)) {
+      errors.push({
+        field,
+        value: fileType,
+        constraint: 'allowedFileTypes',
+        message: `${name} does not accept ${fileType} files`,
+      });
+      return;
+    }
+
+    const video = capabilities.video;
+    if (!fileType.startsWith('video/') || !video || !details) return;
+
+    if (
+      video.maxDurationSeconds !== undefined &&
+      details.duration_seconds !== undefined &&
+      details.duration_seconds > video.maxDurationSeconds
+    ) {
+      errors.push({
+        field,
+        value: details.duration_seconds,
+        constraint: 'maxDurationSeconds',
+        message: `${name} videos can be at most ${video.maxDurationSeconds} seconds long`,
+      });
+    }
+
+    if (
+      details.size_bytes !== undefined &&
+      details.size_bytes > video.maxSizeBytes
+    ) {
+      errors.push({
+        field,
+        value: details.size_bytes,
+        constraint: 'maxSizeBytes',
+        message: `${name} videos can be at most ${video.maxSizeBytes} bytes`,
+      });
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Validate a post against the rules of every platform it targets.
+ * Per-account variants are checked in place of the shared content.
+ * Platforms missing from the registry are not validated.
+ */
+export const validateForPlatforms = (
+  post: PublishableContent,
+  targets: PublishTarget[]
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+  const seen = new Set<string>();
+
+  for (const target of targets) {
+    const capabilities = getPlatformCapabilities(target.platform);
+    if (!capabilities) continue;
+
+    const variant = post.variants?.[target.id];
+    const content = variant?.content ?? post.content ?? '';
+    const contentField =
+      variant?.content !== undefined
+        ? `variants.${target.id}.content`
+        : 'content';
+    const mediaUrls = variant?.media_urls ?? post.media_urls ?? [];
+    const mediaField =
+      variant?.media_urls !== undefined
+        ? `variants.${target.id}.media_urls`
+        : 'media_urls';
+
+    const targetErrors: ErrorDetails[] = [
+      ...validateLength(capabilities, content, contentField),
+      ...validateMedia(
+        capabilities,
+        mediaUrls,
+        mediaField,
+        post.media_metadata
+      ),
+    ];
+
+    if (post.settings?.poll !== undefined && !capabilities.supportsPolls) {
+      targetErrors.push({
+        field: 'settings.poll',
+        constraint: 'supportsPolls',
+        message: `${capabilities.name} does not support polls`,
+      });
+    }
+
+    const parts = post.parts ?? [];
+    if (
+      parts.length > 0 &&
+      !capabilities.supportsThreads &&
+      !capabilities.supportsCarousels
+    ) {
+      targetErrors.push({
+        field: 'parts',
+        constraint: 'supportsThreads',
+        message: `${capabilities.name} does not support threads or carousels`,
+      });
+    }
+
+    // Each part is published as its own entry, so the same limits apply
+    parts.forEach((part, index) => {
+      const field = `parts[${index}]`;
+      targetErrors.push(
+        ...validateLength(capabilities, part.content, `${field}.content`),
+        ...validateMedia(
+          capabilities,
+          part.media_urls ?? [],
+          `${field}.media_urls`,
+          post.media_metadata,
+          false
+        )
+      );
+    });
+
+    // Several accounts on one platform would otherwise repeat the same errors
+    for (const error of targetErrors) {
+      const key = `${error.field}:${error.message}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        errors.push(error);
+      }
+    }
+  }
+
+  return errors;
+};
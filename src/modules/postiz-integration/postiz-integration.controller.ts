@@ -200,7 +200,9 @@ router.post('/posts/social',
         content,
         socialAccountIds,
         publishDate,
-        media
+        media,
+        variants,
+        thread
       } = req.body;
 
       // Validate required fields
@@ -217,7 +219,9 @@ router.post('/posts/social',
         content,
         socialAccountIds,
         publishDate,
-        media
+        media,
+        variants,
+        thread
       );
 
       res.json({
@@ -6,7 +6,10 @@ import {
   TokenData,
   MediaUploadResponse,
   UserIntegrationsResponse,
-  PlatformAnalyticsResponse
+  PlatformAnalyticsResponse,
+  PlatformContentOverride,
+  PlatformVariant,
+  ThreadPart
 } from './postiz-integration.types';
 
 export class PostizIntegrationService {
@@ -288,13 +291,20 @@ export class PostizIntegrationService {
     content: string,
     socialAccountIds: string[],
     publishDate?: string,
-    media?: string[]
+    media?: string[],
+    overrides?: Record<string, PlatformContentOverride>,
+    thread?: ThreadPart[]
   ): Promise<PostizResponse> {
     try {
       // Map social account IDs to platform names
       // In a real implementation, you would fetch the social accounts and get their platforms
       const platforms = socialAccountIds; // Simplified for now
 
+      // Once any platform has overrides, every platform is sent its own variant
+      const variants = overrides && Object.keys(overrides).length > 0
+        ? platforms.map(platform => this.buildPlatformVariant(platform, content, media, overrides[platform]))
+        : undefined;
+
       const postData: CreatePostDto = {
         externalUserId: userId,
         externalService: 'middleware',
@@ -310,6 +320,14 @@ export class PostizIntegrationService {
         },
       };
 
+      if (variants) {
+        postData.variants = variants;
+      }
+
+      if (thread && thread.length > 0) {
+        postData.thread = thread;
+      }
+
       return await this.createPost(postData);
 
     } catch (error: any) {
@@ -317,4 +335,34 @@ export class PostizIntegrationService {
       throw error;
     }
   }
+
+  /**
+   * Resolve the content a single platform receives, falling back to the shared post
+   */
+  private buildPlatformVariant(
+    platform: string,
+    content: string,
+    media?: string[],
+    override?: PlatformContentOverride
+  ): PlatformVariant {
+    const variant: PlatformVariant = {
+      platform,
+      content: override?.content ?? content,
+    };
+
+    const variantMedia = override?.media ?? media;
+    if (variantMedia) {
+      variant.media = variantMedia;
+    }
+
+    if (override?.firstComment) {
+      variant.firstComment = override.firstComment;
+    }
+
+    if (override?.link) {
+      variant.link = override.link;
+    }
+
+    return variant;
+  }
 }
\ No newline at end of file
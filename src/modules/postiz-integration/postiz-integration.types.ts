@@ -16,6 +16,8 @@ export interface CreatePostDto {
   platforms: string[];
   publishDate?: string;
   media?: string[]; // Array of media URLs or IDs
+  variants?: PlatformVariant[]; // Per-platform content, overrides content/media
+  thread?: ThreadPart[]; // Follow-up parts published after the main content
   teamContext?: string;
   metadata?: {
     myAppUserId?: string;
@@ -26,16 +28,45 @@ export interface CreatePostDto {
   };
 }
 
+export interface PlatformVariant {
+  platform: string;
+  content: string;
+  media?: string[];
+  firstComment?: string;
+  link?: string;
+}
+
+export interface ThreadPart {
+  content: string;
+  media?: string[];
+}
+
+// Overrides for a single platform, applied on top of the shared content
+export interface PlatformContentOverride {
+  content?: string;
+  media?: string[];
+  firstComment?: string;
+  link?: string;
+}
+
 export interface PostizResponse {
   id: string;
   posts?: Array<{
     id: string;
     platform: string;
+    parts?: ThreadPartResult[];
   }>;
   status?: string;
   message?: string;
 }
 
+export interface ThreadPartResult {
+  position: number;
+  id?: string;
+  status?: string;
+  error?: string;
+}
+
 export interface PostStatusResponse {
   id: string;
   state: 'QUEUE' | 'PROCESSING' | 'PUBLISHED' | 'ERROR' | 'DRAFT';
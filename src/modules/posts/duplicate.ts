@@ -0,0 +1,73 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Post, PostVariants } from '../../types/core-modules.types';
+
+// Settings written while publishing, which describe the source post only
+const PUBLISHING_SETTINGS = [
+  'dispatch',
+  'dispatched_by',
+  'postizResponse',
+  'part_results',
+  'socialAccounts',
+  'webhook_data',
+  'last_webhook_update',
+  'error',
+  'failed_at',
+];
+
+/**
+ * Build a draft copy of a post. Social accounts and their variants are
+ * carried over through `accountMap`, keyed by source account ID; accounts
+ * without an entry are left out.
+ */
+export const buildDuplicatePost = (
+  source: Post,
+  userId: string,
+  workspaceId: string | undefined,
+  accountMap: Record<string, string>
+): Partial<Post> => {
+  const settings = Object.fromEntries(
+    Object.entries(source.settings ?? {}).filter(
+      ([key]) => !PUBLISHING_SETTINGS.includes(key)
+    )
+  );
+
+  const socialAccountIds = [
+    ...new Set(
+      (source.social_account_ids ?? []).flatMap(id =>
+        accountMap[id] ? [accountMap[id]] : []
+      )
+    ),
+  ];
+
+  const variants: PostVariants = {};
+  Object.entries(source.variants ?? {}).forEach(([accountId, variant]) => {
+    const targetId = accountMap[accountId];
+    if (targetId) variants[targetId] = variant;
+  });
+
+  const duplicate: Partial<Post> = {
+    user_id: userId,
+    content: source.content ?? '',
+    media_urls: source.media_urls,
+    social_account_ids: socialAccountIds,
+    variants,
+    status: 'DRAFT',
+    settings,
+  };
+
+  if (workspaceId) duplicate.workspace_id = workspaceId;
+  if (source.title) duplicate.title = source.title;
+  if (source.media_metadata) duplicate.media_metadata = source.media_metadata;
+  if (source.parts) {
+    duplicate.parts = source.parts.map(part => ({ ...part, id: uuidv4() }));
+  }
+
+  // Tags and campaigns belong to a workspace, so they only carry over
+  // within it
+  if (workspaceId === source.workspace_id) {
+    if (source.tag_ids) duplicate.tag_ids = source.tag_ids;
+    if (source.campaign_id) duplicate.campaign_id = source.campaign_id;
+  }
+
+  return duplicate;
+};
@@ -0,0 +1,181 @@
+import { EvergreenItem, Post } from '../../types/core-modules.types';
+import {
+  buildEvergreenRepost,
+  canRepostAt,
+  EvergreenCandidate,
+  pickEvergreenItems,
+  validateEvergreenItem,
+} from './evergreen';
+
+const SLOT = new Date('2026-03-10T09:00:00.000Z');
+
+const buildItem = (overrides: Partial<EvergreenItem> = {}): EvergreenItem => ({
+  id: 'item-1',
+  workspace_id: 'workspace-1',
+  post_id: 'post-1',
+  added_by: 'user-1',
+  min_interval_days: 7,
+  repost_count: 0,
+  is_active: true,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const buildSource = (overrides: Partial<Post> = {}): Post => ({
+  id: 'post-1',
+  user_id: 'user-1',
+  workspace_id: 'workspace-1',
+  content: 'Evergreen tips',
+  media_urls: ['https://cdn.example.com/tip.png'],
+  social_account_ids: ['account-1'],
+  status: 'PUBLISHED',
+  published_at: '2026-02-01T09:00:00.000Z',
+  settings: {},
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-02-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const candidate = (
+  item: Partial<EvergreenItem>,
+  source: Partial<Post> = {}
+): EvergreenCandidate => ({
+  item: buildItem(item),
+  source: buildSource({ id: item.post_id ?? 'post-1', ...source }),
+});
+
+describe('validateEvergreenItem', () => {
+  it('accepts valid settings', () => {
+    expect(
+      validateEvergreenItem({ min_interval_days: 30, max_reposts: 5 })
+    ).toEqual([]);
+  });
+
+  it('rejects out of range values', () => {
+    const errors = validateEvergreenItem({
+      min_interval_days: 0,
+      max_reposts: 1.5,
+    });
+    expect(errors.map(error => error.field)).toEqual([
+      'min_interval_days',
+      'max_reposts',
+    ]);
+  });
+});
+
+describe('canRepostAt', () => {
+  it('refuses inactive items and items at their repost limit', () => {
+    expect(canRepostAt(buildItem({ is_active: false }), SLOT)).toBe(false);
+    expect(
+      canRepostAt(buildItem({ max_reposts: 2, repost_count: 2 }), SLOT)
+    ).toBe(false);
+  });
+
+  it('treats a null repost limit as no limit', () => {
+    expect(
+      canRepostAt(buildItem({ max_reposts: null, repost_count: 50 }), SLOT)
+    ).toBe(true);
+  });
+
+  it('waits the minimum interval after the last repost', () => {
+    expect(
+      canRepostAt(
+        buildItem({ last_reposted_at: '2026-03-05T09:00:00.000Z' }),
+        SLOT
+      )
+    ).toBe(false);
+    expect(
+      canRepostAt(
+        buildItem({ last_reposted_at: '2026-03-03T09:00:00.000Z' }),
+        SLOT
+      )
+    ).toBe(true);
+  });
+
+  it('counts the first interval from when the source was published', () => {
+    const item = buildItem({ last_reposted_at: null });
+    expect(canRepostAt(item, SLOT, '2026-03-08T09:00:00.000Z')).toBe(false);
+    expect(canRepostAt(item, SLOT, '2026-03-01T09:00:00.000Z')).toBe(true);
+  });
+
+  it('prefers the last repost over the publish time', () => {
+    expect(
+      canRepostAt(
+        buildItem({ last_reposted_at: '2026-03-09T09:00:00.000Z' }),
+        SLOT,
+        '2026-01-01T09:00:00.000Z'
+      )
+    ).toBe(false);
+  });
+});
+
+describe('pickEvergreenItems', () => {
+  it('fills slots with the item reposted longest ago first', () => {
+    const recent = candidate({
+      id: 'recent',
+      post_id: 'post-recent',
+      last_reposted_at: '2026-02-20T09:00:00.000Z',
+    });
+    const never = candidate({ id: 'never', post_id: 'post-never' });
+    const older = candidate({
+      id: 'older',
+      post_id: 'post-older',
+      last_reposted_at: '2026-02-10T09:00:00.000Z',
+    });
+
+    const picks = pickEvergreenItems(
+      [recent, never, older],
+      [SLOT, new Date('2026-03-11T09:00:00.000Z')]
+    );
+
+    expect(picks.map(pick => [pick.item.id, pick.slot.toISOString()])).toEqual([
+      ['never', '2026-03-10T09:00:00.000Z'],
+      ['older', '2026-03-11T09:00:00.000Z'],
+    ]);
+  });
+
+  it('uses each item once and leaves unfillable slots out', () => {
+    const picks = pickEvergreenItems(
+      [
+        candidate({ id: 'only' }),
+        candidate(
+          { id: 'too-new', post_id: 'post-new' },
+          { published_at: '2026-03-09T09:00:00.000Z' }
+        ),
+      ],
+      [SLOT, new Date('2026-03-11T09:00:00.000Z')]
+    );
+
+    expect(picks.map(pick => pick.item.id)).toEqual(['only']);
+  });
+});
+
+describe('buildEvergreenRepost', () => {
+  it('copies the content into a scheduled post for the slot', () => {
+    const source = buildSource({
+      title: 'Tips',
+      postiz_post_id: 'postiz-1',
+      approval: {
+        requested_by: 'user-1',
+        requested_at: '2026-01-01T00:00:00.000Z',
+        decision: 'APPROVED',
+      },
+    });
+
+    const repost = buildEvergreenRepost(buildItem(), source, SLOT);
+
+    expect(repost).toEqual({
+      user_id: 'user-1',
+      workspace_id: 'workspace-1',
+      title: 'Tips',
+      content: 'Evergreen tips',
+      media_urls: ['https://cdn.example.com/tip.png'],
+      social_account_ids: ['account-1'],
+      status: 'SCHEDULED',
+      scheduled_for: '2026-03-10T09:00:00.000Z',
+      evergreen_item_id: 'item-1',
+      settings: {},
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  EvergreenItem,
+  EvergreenItemDto,
+  Post,
+} from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MAX_EVERGREEN_INTERVAL_DAYS = 365;
+
+/**
+ * Validate evergreen library settings, returning field-level errors
+ */
+export const validateEvergreenItem = (
+  settings: EvergreenItemDto
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (
+    !Number.isInteger(settings.min_interval_days) ||
+    settings.min_interval_days < 1 ||
+    settings.min_interval_days > MAX_EVERGREEN_INTERVAL_DAYS
+  ) {
+    errors.push({
+      field: 'min_interval_days',
+      value: settings.min_interval_days,
+      message: `Minimum interval must be a whole number of days between 1 and ${MAX_EVERGREEN_INTERVAL_DAYS}`,
+    });
+  }
+
+  if (
+    settings.max_reposts !== undefined &&
+    (!Number.isInteger(settings.max_reposts) || settings.max_reposts < 1)
+  ) {
+    errors.push({
+      field: 'max_reposts',
+      value: settings.max_reposts,
+      message: 'Maximum reposts must be a positive whole number',
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * A library item along with the published post it reposts
+ */
+export interface EvergreenCandidate {
+  item: EvergreenItem;
+  source: Post;
+}
+
+/**
+ * Whether an item may be reposted at the given time. Items that have not
+ * been reposted yet count their interval from when the source post was
+ * published.
+ */
+export const canRepostAt = (
+  item: EvergreenItem,
+  slot: Date,
+  publishedAt?: string
+): boolean => {
+  if (!item.is_active) {
+    return false;
+  }
+
+  // Unset limits come back from the database as null
+  if (
+    typeof item.max_reposts === 'number' &&
+    item.repost_count >= item.max_reposts
+  ) {
+    return false;
+  }
+
+  const lastPostedAt = item.last_reposted_at ?? publishedAt;
+  if (!lastPostedAt) {
+    return true;
+  }
+
+  const elapsed = slot.getTime() - new Date(lastPostedAt).getTime();
+  return elapsed >= item.min_interval_days * DAY_MS;
+};
+
+/**
+ * Pair free slots with library items. Items rotate so the one reposted
+ * longest ago (or never) goes first, and each item fills at most one slot.
+ * Slots no item can fill are left out.
+ */
+export const pickEvergreenItems = (
+  candidates: EvergreenCandidate[],
+  slots: Date[]
+): (EvergreenCandidate & { slot: Date })[] => {
+  const lastReposted = ({ item }: EvergreenCandidate): number =>
+    item.last_reposted_at ? new Date(item.last_reposted_at).getTime() : 0;
+  const rotation = [...candidates].sort(
+    (a, b) =>
+      lastReposted(a) - lastReposted(b) ||
+      a.item.created_at.localeCompare(b.item.created_at)
+  );
+
+  const picks: (EvergreenCandidate & { slot: Date })[] = [];
+  const used = new Set<string>();
+
+  for (const slot of slots) {
+    const candidate = rotation.find(
+      ({ item, source }) =>
+        !used.has(item.id) && canRepostAt(item, slot, source.published_at)
+    );
+    if (!candidate) continue;
+
+    used.add(candidate.item.id);
+    picks.push({ ...candidate, slot });
+  }
+
+  return picks;
+};
+
+/**
+ * Build the repost of a library item's post for a slot. Publishing
+ * results and approval state of the original are not carried over.
+ */
+export const buildEvergreenRepost = (
+  item: EvergreenItem,
+  source: Post,
+  slot: Date
+): Partial<Post> => {
+  const repost: Partial<Post> = {
+    user_id: source.user_id,
+    workspace_id: item.workspace_id,
+    content: source.content ?? '',
+    media_urls: source.media_urls,
+    social_account_ids: source.social_account_ids ?? [],
+    status: 'SCHEDULED',
+    scheduled_for: slot.toISOString(),
+    evergreen_item_id: item.id,
+    settings: {},
+  };
+
+  if (source.title) repost.title = source.title;
+  if (source.media_metadata) repost.media_metadata = source.media_metadata;
+  if (source.variants) repost.variants = source.variants;
+  if (source.parts) repost.parts = source.parts;
+
+  return repost;
+};
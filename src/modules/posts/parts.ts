@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  CreatePostPartDto,
+  PostPart,
+  PostPartResult,
+  UpdatePostPartDto,
+} from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+import {
+  PostizResponse,
+  ThreadPart,
+} from '../postiz-integration/postiz-integration.types';
+
+// Upper bound on parts in a single thread or carousel
+export const MAX_POST_PARTS = 25;
+
+/**
+ * Validate a new or updated part, returning field-level errors
+ */
+export const validatePostPart = (
+  part: CreatePostPartDto | UpdatePostPartDto,
+  field: string,
+  isNew: boolean
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (
+    (isNew || part.content !== undefined) &&
+    (typeof part.content !== 'string' || part.content.trim().length === 0)
+  ) {
+    errors.push({
+      field: `${field}.content`,
+      message: 'Part content must be a non-empty string',
+    });
+  }
+
+  if (
+    part.media_urls !== undefined &&
+    (!Array.isArray(part.media_urls) ||
+      !part.media_urls.every(url => typeof url === 'string'))
+  ) {
+    errors.push({
+      field: `${field}.media_urls`,
+      message: 'Part media must be a list of URLs',
+    });
+  }
+
+  if (
+    part.position !== undefined &&
+    (!Number.isInteger(part.position) || part.position < 0)
+  ) {
+    errors.push({
+      field: `${field}.position`,
+      value: part.position,
+      message: 'Position must be a non-negative whole number',
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Renumber part positions from zero, in array order
+ */
+const normalizePositions = (parts: PostPart[]): PostPart[] => {
+  return parts.map((part, position) => ({ ...part, position }));
+};
+
+/**
+ * Build the stored parts for a new post, keeping the given order
+ */
+export const buildPostParts = (parts: CreatePostPartDto[]): PostPart[] => {
+  return normalizePositions(
+    parts.map(part => ({
+      id: uuidv4(),
+      position: 0,
+      content: part.content,
+      media_urls: part.media_urls ?? [],
+    }))
+  );
+};
+
+/**
+ * Insert a part, at the end unless a position is given
+ */
+export const insertPostPart = (
+  parts: PostPart[],
+  part: CreatePostPartDto
+): { parts: PostPart[]; part: PostPart } => {
+  const created: PostPart = {
+    id: uuidv4(),
+    position: 0,
+    content: part.content,
+    media_urls: part.media_urls ?? [],
+  };
+
+  const ordered = [...parts];
+  ordered.splice(part.position ?? ordered.length, 0, created);
+
+  const normalized = normalizePositions(ordered);
+  return {
+    parts: normalized,
+    part: normalized.find(entry => entry.id === created.id) as PostPart,
+  };
+};
+
+/**
+ * Update a part in place, moving it when a new position is given
+ */
+export const updatePostPart = (
+  parts: PostPart[],
+  partId: string,
+  updates: UpdatePostPartDto
+): PostPart[] => {
+  const current = parts.find(part => part.id === partId);
+  if (!current) {
+    return parts;
+  }
+
+  const updated: PostPart = {
+    ...current,
+    content: updates.content ?? current.content,
+    media_urls: updates.media_urls ?? current.media_urls,
+  };
+
+  const ordered = parts.filter(part => part.id !== partId);
+  ordered.splice(updates.position ?? current.position, 0, updated);
+
+  return normalizePositions(ordered);
+};
+
+/**
+ * Remove a part and close the gap it leaves
+ */
+export const removePostPart = (
+  parts: PostPart[],
+  partId: string
+): PostPart[] => {
+  return normalizePositions(parts.filter(part => part.id !== partId));
+};
+
+/**
+ * Convert parts into the thread Postiz publishes after the main content
+ */
+export const toThreadPayload = (parts: PostPart[] = []): ThreadPart[] => {
+  return [...parts]
+    .sort((a, b) => a.position - b.position)
+    .map(part => ({ content: part.content, media: part.media_urls }));
+};
+
+/**
+ * Match the per-platform part outcomes in a Postiz response to stored parts
+ */
+export const collectPartResults = (
+  parts: PostPart[] = [],
+  response: PostizResponse
+): Record<string, PostPartResult[]> => {
+  const results: Record<string, PostPartResult[]> = {};
+
+  for (const platformPost of response.posts ?? []) {
+    if (!platformPost.parts) continue;
+
+    results[platformPost.platform] = platformPost.parts.flatMap(outcome => {
+      const part = parts.find(entry => entry.position === outcome.position);
+      if (!part) return [];
+
+      const result: PostPartResult = {
+        part_id: part.id,
+        position: part.position,
+      };
+      if (outcome.id) result.external_id = outcome.id;
+      if (outcome.status) result.status = outcome.status;
+      if (outcome.error) result.error = outcome.error;
+      return [result];
+    });
+  }
+
+  return results;
+};
@@ -0,0 +1,302 @@
+import { Post, PostImportRowResult } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+import { zonedTimeToUtc } from '../../utils/timezone';
+import { validateForPlatforms } from '../platforms';
+import { SocialAccount } from '../social-tokens/social-tokens.types';
+
+// Largest file accepted in a single import
+export const MAX_IMPORT_ROWS = 1000;
+
+// Columns of the result report, in order
+const REPORT_COLUMNS = ['row', 'status', 'post_id', 'errors'];
+
+/**
+ * A row that passed validation, ready to be created as a scheduled post
+ */
+export interface ImportCandidate {
+  row: number;
+  post: Pick<
+    Post,
+    'content' | 'media_urls' | 'social_account_ids' | 'scheduled_for'
+  > & { title?: string };
+}
+
+/**
+ * Split CSV text into records. Handles quoted fields, escaped quotes and
+ * line breaks inside quotes.
+ */
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  // Blank lines carry no data
+  return records.filter(entry => entry.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parse CSV text with a header row into one object per data row
+ */
+export const parseCsvRows = (text: string): Record<string, string>[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(column => column.trim().toLowerCase());
+  return records.map(record => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      row[column] = (record[index] ?? '').trim();
+    });
+    return row;
+  });
+};
+
+/**
+ * Read a list cell. CSV cells separate entries with semicolons.
+ */
+const parseList = (value: unknown): string[] | null => {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+
+  if (typeof value === 'string') {
+    return value
+      .split(';')
+      .map(entry => entry.trim())
+      .filter(entry => entry !== '');
+  }
+
+  if (Array.isArray(value) && value.every(entry => typeof entry === 'string')) {
+    return value;
+  }
+
+  return null;
+};
+
+/**
+ * Read a schedule time. Times without an offset, as spreadsheets usually
+ * export them, are taken to be in the workspace's time zone.
+ */
+const parseScheduledFor = (value: string, timeZone: string): Date => {
+  const local = value.match(
+    /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?$/
+  );
+  if (!local) {
+    return new Date(value);
+  }
+
+  const [year, month, day, hour, minute, second] = local
+    .slice(1)
+    .map(part => Number(part ?? 0));
+  return zonedTimeToUtc(
+    {
+      year: year as number,
+      month: month as number,
+      day: day as number,
+      hour: hour as number,
+      minute: minute as number,
+      second: second as number,
+    },
+    timeZone
+  );
+};
+
+/**
+ * Validate one import row and resolve its social accounts, which can be
+ * given by ID or by platform name
+ */
+export const validateImportRow = (
+  row: unknown,
+  index: number,
+  accounts: SocialAccount[],
+  timeZone: string,
+  now: Date = new Date()
+): { candidate?: ImportCandidate; result: PostImportRowResult } => {
+  const rowNumber = index + 1;
+  const errors: ErrorDetails[] = [];
+
+  if (!row || typeof row !== 'object' || Array.isArray(row)) {
+    return {
+      result: {
+        row: rowNumber,
+        status: 'INVALID',
+        errors: [{ field: 'row', message: 'Row must be an object' }],
+      },
+    };
+  }
+
+  const data = row as Record<string, unknown>;
+
+  const content = data.content;
+  if (typeof content !== 'string' || content.trim() === '') {
+    errors.push({ field: 'content', message: 'Content is required' });
+  }
+
+  const title = data.title;
+  if (title !== undefined && title !== '' && typeof title !== 'string') {
+    errors.push({ field: 'title', message: 'Title must be a string' });
+  }
+
+  let scheduledFor: Date | null = null;
+  if (typeof data.scheduled_for !== 'string' || data.scheduled_for === '') {
+    errors.push({
+      field: 'scheduled_for',
+      message: 'A scheduled date is required',
+    });
+  } else {
+    scheduledFor = parseScheduledFor(data.scheduled_for, timeZone);
+    if (isNaN(scheduledFor.getTime()) || scheduledFor <= now) {
+      errors.push({
+        field: 'scheduled_for',
+        value: data.scheduled_for,
+        message: 'Scheduled date must be a valid date in the future',
+      });
+    }
+  }
+
+  const mediaUrls = parseList(data.media_urls);
+  if (!mediaUrls) {
+    errors.push({
+      field: 'media_urls',
+      message: 'Media must be a list of URLs',
+    });
+  }
+
+  const targets = new Map<string, SocialAccount>();
+  const accountIds = parseList(data.social_account_ids);
+  const platforms = parseList(data.platforms);
+
+  if (!accountIds) {
+    errors.push({
+      field: 'social_account_ids',
+      message: 'Social account IDs must be a list',
+    });
+  }
+  for (const accountId of accountIds ?? []) {
+    const account = accounts.find(entry => entry.id === accountId);
+    if (account) {
+      targets.set(account.id, account);
+    } else {
+      errors.push({
+        field: 'social_account_ids',
+        value: accountId,
+        message: `No connected social account with ID ${accountId}`,
+      });
+    }
+  }
+
+  if (!platforms) {
+    errors.push({ field: 'platforms', message: 'Platforms must be a list' });
+  }
+  for (const platform of platforms ?? []) {
+    const matches = accounts.filter(
+      entry => entry.platform.toLowerCase() === platform.toLowerCase()
+    );
+    if (matches.length === 0) {
+      errors.push({
+        field: 'platforms',
+        value: platform,
+        message: `No connected ${platform} account`,
+      });
+    }
+    matches.forEach(account => targets.set(account.id, account));
+  }
+
+  if (accountIds?.length === 0 && platforms?.length === 0) {
+    errors.push({
+      field: 'social_account_ids',
+      message: 'At least one social account or platform is required',
+    });
+  }
+
+  if (errors.length > 0 || !scheduledFor || !mediaUrls) {
+    return { result: { row: rowNumber, status: 'INVALID', errors } };
+  }
+
+  const post: ImportCandidate['post'] = {
+    content: content as string,
+    media_urls: mediaUrls,
+    social_account_ids: [...targets.keys()],
+    scheduled_for: scheduledFor.toISOString(),
+  };
+  if (typeof title === 'string' && title !== '') {
+    post.title = title;
+  }
+
+  const platformErrors = validateForPlatforms(post, [...targets.values()]);
+  if (platformErrors.length > 0) {
+    return {
+      result: { row: rowNumber, status: 'INVALID', errors: platformErrors },
+    };
+  }
+
+  return {
+    candidate: { row: rowNumber, post },
+    result: { row: rowNumber, status: 'VALID', errors: [] },
+  };
+};
+
+const escapeCsvValue = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Render row results as a CSV report, one line per imported row
+ */
+export const buildImportReportCsv = (
+  results: PostImportRowResult[]
+): string => {
+  const lines = results.map(result =>
+    [
+      String(result.row),
+      result.status,
+      result.post_id ?? '',
+      result.errors
+        .map(error => [error.field, error.message].filter(Boolean).join(': '))
+        .join('; '),
+    ]
+      .map(escapeCsvValue)
+      .join(',')
+  );
+
+  return [REPORT_COLUMNS.join(','), ...lines].join('\n') + '\n';
+};
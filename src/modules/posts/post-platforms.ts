@@ -0,0 +1,185 @@
+import { supabaseService } from '../../services/supabase.service';
+import { Post } from '../../types/core-modules.types';
+import { PostPlatform, PostPlatformStatus } from '../../types/enhanced.types';
+
+/**
+ * One target's outcome from a Postiz webhook, read from the loosely typed
+ * `platformResults` entries
+ */
+export interface PlatformResult {
+  socialAccountId?: string;
+  integrationId?: string;
+  platform?: string;
+  status?: PostPlatformStatus;
+  platformPostId?: string;
+  url?: string;
+  error?: string;
+  publishedAt?: string;
+}
+
+const PUBLISHED_STATUSES = ['published', 'success', 'succeeded', 'done'];
+const FAILED_STATUSES = ['error', 'failed', 'failure'];
+
+// Postiz has used both camelCase and snake_case field names
+const readString = (
+  source: Record<string, unknown>,
+  ...keys: string[]
+): string | undefined => {
+  for (const key of keys) {
+    const value = source[key];
+    if (typeof value === 'string' && value.length > 0) return value;
+  }
+  return undefined;
+};
+
+/**
+ * Normalize a webhook platform result. Entries without a status count as
+ * failed when they carry an error and published when they carry a URL or
+ * platform post ID.
+ */
+export const toPlatformResult = (entry: unknown): PlatformResult | null => {
+  if (!entry || typeof entry !== 'object') {
+    return null;
+  }
+
+  const source = entry as Record<string, unknown>;
+  const result: PlatformResult = {};
+
+  const socialAccountId = readString(
+    source,
+    'socialAccountId',
+    'social_account_id'
+  );
+  const integrationId = readString(
+    source,
+    'integrationId',
+    'integration_id',
+    'integration'
+  );
+  const platform = readString(source, 'platform', 'providerIdentifier');
+  const platformPostId = readString(
+    source,
+    'platformPostId',
+    'platform_post_id',
+    'postId',
+    'externalId'
+  );
+  const url = readString(
+    source,
+    'url',
+    'releaseURL',
+    'publicUrl',
+    'public_url'
+  );
+  const error = readString(source, 'error', 'errorMessage', 'error_message');
+  const publishedAt = readString(source, 'publishedAt', 'published_at');
+  const rawStatus = readString(source, 'status', 'state')?.toLowerCase();
+
+  if (socialAccountId) result.socialAccountId = socialAccountId;
+  if (integrationId) result.integrationId = integrationId;
+  if (platform) result.platform = platform;
+  if (platformPostId) result.platformPostId = platformPostId;
+  if (url) result.url = url;
+  if (error) result.error = error;
+  if (publishedAt) result.publishedAt = publishedAt;
+
+  if (rawStatus && PUBLISHED_STATUSES.includes(rawStatus)) {
+    result.status = 'PUBLISHED';
+  } else if ((rawStatus && FAILED_STATUSES.includes(rawStatus)) || error) {
+    result.status = 'FAILED';
+  } else if (url || platformPostId) {
+    result.status = 'PUBLISHED';
+  }
+
+  return result;
+};
+
+/**
+ * Find the stored target a result belongs to. Platform names only match
+ * when a single target uses that platform.
+ */
+export const matchPlatformRow = (
+  rows: PostPlatform[],
+  result: PlatformResult
+): PostPlatform | undefined => {
+  const byAccount = rows.find(
+    row =>
+      row.social_account_id === result.socialAccountId ||
+      (result.integrationId !== undefined &&
+        row.social_account?.postiz_integration_id === result.integrationId)
+  );
+  if (byAccount) {
+    return byAccount;
+  }
+
+  const byPlatform = rows.filter(
+    row =>
+      result.platform !== undefined &&
+      row.social_account?.platform === result.platform
+  );
+  return byPlatform.length === 1 ? byPlatform[0] : undefined;
+};
+
+/**
+ * Post status implied by its targets, or null while some are still
+ * in progress
+ */
+export const derivePublishStatus = (
+  rows: PostPlatform[]
+): Post['status'] | null => {
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const published = rows.filter(row => row.status === 'PUBLISHED').length;
+  const failed = rows.filter(row => row.status === 'FAILED').length;
+
+  if (published === rows.length) return 'PUBLISHED';
+  if (failed === rows.length) return 'FAILED';
+  if (published + failed === rows.length) return 'PARTIALLY_PUBLISHED';
+  return null;
+};
+
+/**
+ * Record that a post was handed to Postiz for the given social accounts.
+ * Targets left over from an earlier attempt are reset rather than
+ * duplicated.
+ */
+export const recordDispatchedPlatforms = async (
+  postId: string,
+  socialAccountIds: string[],
+  postizPostId: string
+): Promise<void> => {
+  const existing = await supabaseService.getPostPlatforms(postId);
+  const missing: Partial<PostPlatform>[] = [];
+
+  for (const socialAccountId of socialAccountIds) {
+    const row = existing.find(
+      entry => entry.social_account_id === socialAccountId
+    );
+
+    if (!row) {
+      missing.push({
+        post_id: postId,
+        social_account_id: socialAccountId,
+        status: 'PUBLISHING',
+        postiz_post_id: postizPostId,
+      });
+      continue;
+    }
+
+    // Null clears the outcome of the previous attempt
+    await supabaseService.updatePostPlatform(row.id, {
+      status: 'PUBLISHING',
+      postiz_post_id: postizPostId,
+      platform_post_id: null,
+      public_url: null,
+      error_message: null,
+      published_at: null,
+    });
+  }
+
+  if (missing.length > 0) {
+    await supabaseService.createPostPlatforms(missing);
+  }
+};
@@ -1,11 +1,49 @@
-import { Router, Response } from 'express';
+import { Router, Response, text } from 'express';
 import { PostsService } from './posts.service';
+import { CommentsService } from '../comments/comments.service';
+import { buildImportReportCsv, parseCsvRows } from './post-import';
 import { asyncHandler } from '../../utils/async-handler';
 import { AuthenticatedRequest } from '../../workspace/workspace.middleware';
-import { PaginationOptions } from '../../types/core-modules.types';
+import {
+  PaginationOptions,
+  PostFilters,
+  PostSearchFilters,
+  RecurrenceEditScope,
+} from '../../types/core-modules.types';
 
 const router = Router();
 const postsService = new PostsService();
+const commentsService = new CommentsService();
+
+// Recurring post edits apply to one occurrence unless `?scope=following` is set
+const parseEditScope = (value: unknown): RecurrenceEditScope | null => {
+  if (value === undefined) return 'this';
+  return value === 'this' || value === 'following' ? value : null;
+};
+
+// Search filters read from the query string as they are
+const SEARCH_QUERY_FILTERS = [
+  'q',
+  'workspace_id',
+  'status',
+  'author_id',
+  'platform',
+  'social_account_id',
+  'tag_id',
+  'campaign_id',
+  'created_from',
+  'created_to',
+  'scheduled_from',
+  'scheduled_to',
+  'published_from',
+  'published_to',
+] as const;
+
+// Revision numbers start at 1
+const parseRevision = (value: string | undefined): number | null => {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+};
 
 // Create new post
 router.post(
@@ -48,11 +86,7 @@ router.get(
       });
     }
 
-    const options: PaginationOptions & {
-      workspace_id?: string;
-      status?: string;
-      search?: string;
-    } = {
+    const options: PaginationOptions & PostFilters = {
       page: req.query.page ? parseInt(req.query.page as string) : 1,
       limit: req.query.limit ? parseInt(req.query.limit as string) : 10,
       sortBy: req.query.sortBy as string,
@@ -60,6 +94,8 @@ router.get(
       workspace_id: req.query.workspace_id as string,
       status: req.query.status as string,
       search: req.query.search as string,
+      tag_id: req.query.tag_id as string,
+      campaign_id: req.query.campaign_id as string,
     };
 
     const { posts, total } = await postsService.getUserPosts(
@@ -82,6 +118,312 @@ router.get(
   })
 );
 
+// Import scheduled posts from a CSV file or JSON rows
+router.post(
+  '/import',
+  text({ type: 'text/csv', limit: '10mb' }),
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const body = typeof req.body === 'string' ? { csv: req.body } : req.body;
+    const rows: unknown =
+      typeof body.csv === 'string' ? parseCsvRows(body.csv) : body.rows;
+
+    if (!Array.isArray(rows)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Provide rows as a CSV file or a JSON array',
+      });
+    }
+
+    const options: { workspace_id?: string; dry_run?: boolean } = {
+      dry_run: req.query.dry_run === 'true' || body.dry_run === true,
+    };
+    const workspaceId = (req.query.workspace_id as string) || body.workspace_id;
+    if (workspaceId) {
+      options.workspace_id = workspaceId;
+    }
+
+    const result = await postsService.importPosts(req.user.id, rows, options);
+
+    if (result.dry_run) {
+      return res.json({
+        success: true,
+        data: result,
+        message: 'Import validated successfully',
+      });
+    }
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Import completed',
+    });
+  })
+);
+
+// Apply one action to many posts, reporting the outcome for each
+router.post(
+  '/bulk',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    if (!req.body.action) {
+      return res.status(400).json({
+        success: false,
+        message: 'Bulk action is required',
+      });
+    }
+
+    const result = await postsService.bulkUpdatePosts(req.user.id, req.body);
+
+    return res.json({
+      success: true,
+      data: result,
+      message: `${result.succeeded} of ${result.total} posts updated`,
+    });
+  })
+);
+
+// Get a post import job
+router.get(
+  '/import/:jobId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const jobId = req.params.jobId as string;
+    const job = await postsService.getImportJob(req.user.id, jobId);
+
+    return res.json({
+      success: true,
+      data: job,
+    });
+  })
+);
+
+// Download the result report of a post import as CSV
+router.get(
+  '/import/:jobId/report',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const jobId = req.params.jobId as string;
+    const job = await postsService.getImportJob(req.user.id, jobId);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="post-import-${job.id}.csv"`
+    );
+    return res.send(buildImportReportCsv(job.results));
+  })
+);
+
+// Get a workspace's evergreen library
+router.get(
+  '/evergreen',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const workspaceId = req.query.workspace_id as string;
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Workspace ID is required',
+      });
+    }
+
+    const items = await postsService.getEvergreenLibrary(
+      req.user.id,
+      workspaceId
+    );
+
+    return res.json({
+      success: true,
+      data: items,
+    });
+  })
+);
+
+// Get a workspace's posts waiting for approval
+router.get(
+  '/approvals',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const workspaceId = req.query.workspace_id as string;
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Workspace ID is required',
+      });
+    }
+
+    const posts = await postsService.getPendingApprovals(
+      req.user.id,
+      workspaceId
+    );
+
+    return res.json({
+      success: true,
+      data: posts,
+    });
+  })
+);
+
+// Get a workspace's queued posts
+router.get(
+  '/queue',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const workspaceId = req.query.workspace_id as string;
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Workspace ID is required',
+      });
+    }
+
+    const posts = await postsService.getQueue(req.user.id, workspaceId);
+
+    return res.json({
+      success: true,
+      data: posts,
+    });
+  })
+);
+
+// Reorder a workspace's queued posts
+router.put(
+  '/queue',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { workspace_id: workspaceId, post_ids: postIds } = req.body;
+
+    if (!workspaceId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Workspace ID is required',
+      });
+    }
+
+    if (!Array.isArray(postIds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Post IDs must be an array',
+      });
+    }
+
+    const posts = await postsService.reorderQueue(
+      req.user.id,
+      workspaceId,
+      postIds
+    );
+
+    return res.json({
+      success: true,
+      data: posts,
+      message: 'Queue reordered successfully',
+    });
+  })
+);
+
+// Get the current user's trashed posts
+router.get(
+  '/trash',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const workspaceId = req.query.workspace_id as string | undefined;
+    const posts = await postsService.getTrash(req.user.id, workspaceId);
+
+    return res.json({
+      success: true,
+      data: posts,
+    });
+  })
+);
+
+// Search posts with cursor pagination
+router.get(
+  '/search',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const filters: PostSearchFilters = {};
+    for (const key of SEARCH_QUERY_FILTERS) {
+      const value = req.query[key];
+      if (typeof value === 'string' && value !== '') filters[key] = value;
+    }
+    if (req.query.has_media === 'true' || req.query.has_media === 'false') {
+      filters.has_media = req.query.has_media === 'true';
+    }
+
+    const page = await postsService.searchPosts(req.user.id, filters, {
+      ...(req.query.cursor ? { cursor: req.query.cursor as string } : {}),
+      ...(req.query.limit ? { limit: Number(req.query.limit) } : {}),
+    });
+
+    return res.json({
+      success: true,
+      data: page.posts,
+      pagination: { next_cursor: page.next_cursor },
+    });
+  })
+);
+
 // Get specific post
 router.get(
   '/:id',
@@ -94,7 +436,7 @@ router.get(
     }
 
     const postId = req.params.id as string;
-    const post = await postsService.getPost(req.user.id, postId);
+    const post = await postsService.getPostWithPlatforms(req.user.id, postId);
 
     return res.json({
       success: true,
@@ -103,9 +445,9 @@ router.get(
   })
 );
 
-// Update post
-router.patch(
-  '/:id',
+// Get all occurrences of a recurring post
+router.get(
+  '/:id/occurrences',
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({
@@ -115,19 +457,18 @@ router.patch(
     }
 
     const postId = req.params.id as string;
-    const post = await postsService.updatePost(req.user.id, postId, req.body);
+    const posts = await postsService.getSeriesOccurrences(req.user.id, postId);
 
     return res.json({
       success: true,
-      data: post,
-      message: 'Post updated successfully',
+      data: posts,
     });
   })
 );
 
-// Delete post
-router.delete(
-  '/:id',
+// Get thread or carousel parts of a post
+router.get(
+  '/:id/parts',
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({
@@ -137,18 +478,18 @@ router.delete(
     }
 
     const postId = req.params.id as string;
-    await postsService.deletePost(req.user.id, postId);
+    const parts = await postsService.getPostParts(req.user.id, postId);
 
     return res.json({
       success: true,
-      message: 'Post deleted successfully',
+      data: parts,
     });
   })
 );
 
-// Schedule post
+// Add a part to a post
 router.post(
-  '/:id/schedule',
+  '/:id/parts',
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({
@@ -157,33 +498,27 @@ router.post(
       });
     }
 
-    const { scheduledFor } = req.body;
-
-    if (!scheduledFor) {
+    if (!req.body.content) {
       return res.status(400).json({
         success: false,
-        message: 'Scheduled date is required',
+        message: 'Part content is required',
       });
     }
 
     const postId = req.params.id as string;
-    const post = await postsService.schedulePost(
-      req.user.id,
-      postId,
-      scheduledFor
-    );
+    const part = await postsService.addPostPart(req.user.id, postId, req.body);
 
-    return res.json({
+    return res.status(201).json({
       success: true,
-      data: post,
-      message: 'Post scheduled successfully',
+      data: part,
+      message: 'Post part added successfully',
     });
   })
 );
 
-// Cancel scheduled post
-router.post(
-  '/:id/cancel',
+// Update or move a part
+router.patch(
+  '/:id/parts/:partId',
   asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
     if (!req.user) {
       return res.status(401).json({
@@ -193,12 +528,701 @@ router.post(
     }
 
     const postId = req.params.id as string;
-    const post = await postsService.cancelScheduledPost(req.user.id, postId);
+    const partId = req.params.partId as string;
+    const part = await postsService.updatePostPart(
+      req.user.id,
+      postId,
+      partId,
+      req.body
+    );
 
     return res.json({
       success: true,
-      data: post,
-      message: 'Post schedule cancelled successfully',
+      data: part,
+      message: 'Post part updated successfully',
+    });
+  })
+);
+
+// Remove a part
+router.delete(
+  '/:id/parts/:partId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const partId = req.params.partId as string;
+    await postsService.deletePostPart(req.user.id, postId, partId);
+
+    return res.json({
+      success: true,
+      message: 'Post part deleted successfully',
+    });
+  })
+);
+
+// Get the revision history of a post
+router.get(
+  '/:id/revisions',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const revisions = await postsService.getPostRevisions(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      data: revisions,
+    });
+  })
+);
+
+// Get a single revision of a post
+router.get(
+  '/:id/revisions/:rev',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const revision = parseRevision(req.params.rev);
+    if (revision === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Revision must be a positive whole number',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const postRevision = await postsService.getPostRevision(
+      req.user.id,
+      postId,
+      revision
+    );
+
+    return res.json({
+      success: true,
+      data: postRevision,
+    });
+  })
+);
+
+// Restore a post's content to a revision
+router.post(
+  '/:id/revisions/:rev/restore',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const revision = parseRevision(req.params.rev);
+    if (revision === null) {
+      return res.status(400).json({
+        success: false,
+        message: 'Revision must be a positive whole number',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.restorePostRevision(
+      req.user.id,
+      postId,
+      revision
+    );
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post revision restored successfully',
+    });
+  })
+);
+
+// Update post
+router.patch(
+  '/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const scope = parseEditScope(req.query.scope);
+    if (!scope) {
+      return res.status(400).json({
+        success: false,
+        message: "Scope must be 'this' or 'following'",
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.updatePost(
+      req.user.id,
+      postId,
+      req.body,
+      scope
+    );
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post updated successfully',
+    });
+  })
+);
+
+// Permanently delete everything in the trash
+router.delete(
+  '/trash',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const workspaceId = req.query.workspace_id as string | undefined;
+    const purged = await postsService.emptyTrash(req.user.id, workspaceId);
+
+    return res.json({
+      success: true,
+      data: { purged },
+      message: `${purged} posts permanently deleted`,
+    });
+  })
+);
+
+// Move post to the trash
+router.delete(
+  '/:id',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    await postsService.deletePost(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      message: 'Post moved to trash',
+    });
+  })
+);
+
+// Restore post from the trash
+router.post(
+  '/:id/restore',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.restorePost(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post restored successfully',
+    });
+  })
+);
+
+// Permanently delete a trashed post
+router.delete(
+  '/:id/permanent',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    await postsService.purgePost(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      message: 'Post permanently deleted',
+    });
+  })
+);
+
+// Archive published post
+router.post(
+  '/:id/archive',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.archivePost(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post archived successfully',
+    });
+  })
+);
+
+// Unarchive post
+router.post(
+  '/:id/unarchive',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.unarchivePost(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post unarchived successfully',
+    });
+  })
+);
+
+// Duplicate post, optionally into another workspace
+router.post(
+  '/:id/duplicate',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { workspace_id, social_account_map } = req.body;
+
+    if (
+      social_account_map !== undefined &&
+      (typeof social_account_map !== 'object' ||
+        social_account_map === null ||
+        Array.isArray(social_account_map))
+    ) {
+      return res.status(400).json({
+        success: false,
+        message: 'Social account map must be an object',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.duplicatePost(req.user.id, postId, {
+      workspace_id,
+      social_account_map,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: post,
+      message: 'Post duplicated successfully',
+    });
+  })
+);
+
+// Get a post's comment threads
+router.get(
+  '/:id/comments',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const threads = await commentsService.getComments(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      data: threads,
+    });
+  })
+);
+
+// Comment on a post or reply to a thread
+router.post(
+  '/:id/comments',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { body, parent_id } = req.body;
+
+    if (parent_id !== undefined && typeof parent_id !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Parent comment ID must be a string',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const comment = await commentsService.addComment(req.user.id, postId, {
+      body,
+      ...(parent_id ? { parent_id } : {}),
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: comment,
+      message: 'Comment added successfully',
+    });
+  })
+);
+
+// Edit a comment
+router.patch(
+  '/:id/comments/:commentId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const commentId = req.params.commentId as string;
+    const comment = await commentsService.editComment(
+      req.user.id,
+      postId,
+      commentId,
+      req.body.body
+    );
+
+    return res.json({
+      success: true,
+      data: comment,
+      message: 'Comment updated successfully',
+    });
+  })
+);
+
+// Delete a comment and its replies
+router.delete(
+  '/:id/comments/:commentId',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const commentId = req.params.commentId as string;
+    await commentsService.deleteComment(req.user.id, postId, commentId);
+
+    return res.json({
+      success: true,
+      message: 'Comment deleted successfully',
+    });
+  })
+);
+
+// Resolve a comment thread
+router.post(
+  '/:id/comments/:commentId/resolve',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const commentId = req.params.commentId as string;
+    const comment = await commentsService.setResolved(
+      req.user.id,
+      postId,
+      commentId,
+      true
+    );
+
+    return res.json({
+      success: true,
+      data: comment,
+      message: 'Comment resolved',
+    });
+  })
+);
+
+// Reopen a resolved comment thread
+router.post(
+  '/:id/comments/:commentId/unresolve',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const commentId = req.params.commentId as string;
+    const comment = await commentsService.setResolved(
+      req.user.id,
+      postId,
+      commentId,
+      false
+    );
+
+    return res.json({
+      success: true,
+      data: comment,
+      message: 'Comment reopened',
+    });
+  })
+);
+
+// Schedule post
+router.post(
+  '/:id/schedule',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { scheduledFor, socialAccountIds, recurrence } = req.body;
+
+    if (!scheduledFor) {
+      return res.status(400).json({
+        success: false,
+        message: 'Scheduled date is required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.schedulePost(
+      req.user.id,
+      postId,
+      scheduledFor,
+      socialAccountIds,
+      recurrence
+    );
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post scheduled successfully',
+    });
+  })
+);
+
+// Add post to the workspace posting queue
+router.post(
+  '/:id/enqueue',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { socialAccountIds } = req.body;
+
+    const postId = req.params.id as string;
+    const post = await postsService.enqueuePost(
+      req.user.id,
+      postId,
+      socialAccountIds
+    );
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post added to queue',
+    });
+  })
+);
+
+// Add post to the evergreen library or update its recycling settings
+router.put(
+  '/:id/evergreen',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { min_interval_days, max_reposts, is_active } = req.body;
+
+    const postId = req.params.id as string;
+    const item = await postsService.saveEvergreenItem(req.user.id, postId, {
+      min_interval_days,
+      max_reposts,
+      is_active,
+    });
+
+    return res.json({
+      success: true,
+      data: item,
+      message: 'Evergreen settings saved',
+    });
+  })
+);
+
+// Remove post from the evergreen library
+router.delete(
+  '/:id/evergreen',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    await postsService.removeEvergreenItem(req.user.id, postId);
+
+    return res.json({
+      success: true,
+      message: 'Post removed from the evergreen library',
+    });
+  })
+);
+
+// Cancel scheduled post
+router.post(
+  '/:id/cancel',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const scope = parseEditScope(req.query.scope);
+    if (!scope) {
+      return res.status(400).json({
+        success: false,
+        message: "Scope must be 'this' or 'following'",
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.cancelScheduledPost(
+      req.user.id,
+      postId,
+      scope
+    );
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post schedule cancelled successfully',
+    });
+  })
+);
+
+// Approve a post waiting for approval
+router.post(
+  '/:id/approve',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { comment } = req.body;
+    if (comment !== undefined && typeof comment !== 'string') {
+      return res.status(400).json({
+        success: false,
+        message: 'Comment must be a string',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.approvePost(req.user.id, postId, comment);
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post approved successfully',
+    });
+  })
+);
+
+// Reject a post waiting for approval, sending it back to draft
+router.post(
+  '/:id/reject',
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    if (!req.user) {
+      return res.status(401).json({
+        success: false,
+        message: 'Authentication required',
+      });
+    }
+
+    const { comment } = req.body;
+    if (typeof comment !== 'string' || !comment.trim()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A comment explaining the rejection is required',
+      });
+    }
+
+    const postId = req.params.id as string;
+    const post = await postsService.rejectPost(req.user.id, postId, comment);
+
+    return res.json({
+      success: true,
+      data: post,
+      message: 'Post rejected successfully',
     });
   })
 );
@@ -1,13 +1,103 @@
+import { v4 as uuidv4 } from 'uuid';
 import {
   Post,
   CreatePostDto,
   UpdatePostDto,
   PaginationOptions,
+  PostFilters,
+  PostSearchFilters,
+  PostSearchPage,
+  RecurrenceEditScope,
+  PostRecurrence,
+  PostVariants,
+  PostPart,
+  CreatePostPartDto,
+  UpdatePostPartDto,
+  RecurrenceRule,
+  PostApproval,
+  ApprovalDecision,
+  PostRevision,
+  PostImportJob,
+  PostImportRowResult,
+  PostImportSummary,
+  BulkPostAction,
+  BulkPostItemResult,
+  BulkPostRequest,
+  BulkPostResult,
+  TagUpdateMode,
+  EvergreenItem,
+  EvergreenItemDto,
+  PostRetryState,
+  DuplicatePostDto,
+  PostTemplateUsage,
 } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
 import { db } from '../../database/database.service';
+import { supabaseService } from '../../services/supabase.service';
+import { PostPlatform } from '../../types/enhanced.types';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../../utils/timezone';
+import { generateOccurrences, validateRecurrenceRule } from './recurrence';
+import { toPlatformOverrides, validatePostVariants } from './variants';
+import {
+  MAX_POST_PARTS,
+  buildPostParts,
+  collectPartResults,
+  insertPostPart,
+  removePostPart,
+  toThreadPayload,
+  updatePostPart,
+  validatePostPart,
+} from './parts';
+import { diffPostRevision, revertToRevision } from './revisions';
+import { MAX_IMPORT_ROWS, validateImportRow } from './post-import';
+import { validateEvergreenItem } from './evergreen';
+import { PublishFailureHandler } from './publish-failures';
+import { buildDuplicatePost } from './duplicate';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  decodeCursor,
+  encodeCursor,
+  validateSearchFilters,
+} from './search';
+import {
+  PlatformResult,
+  derivePublishStatus,
+  matchPlatformRow,
+  recordDispatchedPlatforms,
+  toPlatformResult,
+} from './post-platforms';
+import {
+  PostingSchedule,
+  QUEUE_LOOKAHEAD_DAYS,
+  findFreeSlots,
+  hasPostingSlots,
+} from './queue';
 import { BillingService } from '../billing/billing.service';
 import { PostizIntegrationService } from '../postiz-integration/postiz-integration.service';
 import { SocialTokensService } from '../social-tokens/social-tokens.service';
+import { SocialAccount } from '../social-tokens/social-tokens.types';
+import { PublishableContent, validateForPlatforms } from '../platforms';
+import { WorkspacePermissionManager } from '../workspace/workspace.permissions';
+
+// Post updates other than tags and campaigns
+type PostContentUpdates = Omit<UpdatePostDto, 'tag_ids' | 'campaign_id'>;
+
+// Most posts a single bulk request can change
+const MAX_BULK_POSTS = 500;
+
+const BULK_POST_ACTIONS: BulkPostAction[] = [
+  'schedule',
+  'cancel',
+  'delete',
+  'reassign-workspace',
+  'retag',
+];
 
 /**
  * Post management service
@@ -16,17 +106,49 @@ export class PostsService {
   private billingService: BillingService;
   private postizService: PostizIntegrationService;
   private socialTokensService: SocialTokensService;
+  private publishFailures: PublishFailureHandler;
 
   constructor() {
     this.billingService = new BillingService();
     this.postizService = new PostizIntegrationService();
     this.socialTokensService = new SocialTokensService();
+    this.publishFailures = new PublishFailureHandler();
   }
 
   /**
-   * Create a new post
+   * Create a new post. `template` records the template version the post
+   * was filled in from.
    */
-  async createPost(userId: string, postData: CreatePostDto): Promise<Post> {
+  async createPost(
+    userId: string,
+    postData: CreatePostDto,
+    template?: PostTemplateUsage
+  ): Promise<Post> {
+    await this.assertCanCreateInWorkspace(userId, postData.workspace_id);
+    this.assertValidVariants(postData.variants, postData.social_account_ids);
+    this.assertValidParts(postData.parts);
+    await this.assertValidLabels(
+      postData.workspace_id,
+      postData.tag_ids,
+      postData.campaign_id
+    );
+
+    const socialAccounts = await this.assertPublishable(
+      userId,
+      postData.workspace_id,
+      postData,
+      postData.social_account_ids
+    );
+
+    if (postData.recurrence) {
+      return await this.createRecurringPost(
+        userId,
+        postData,
+        postData.recurrence,
+        template
+      );
+    }
+
     // Check if user can create post based on plan limits
     const canCreate = await this.billingService.canCreatePost(userId);
     if (!canCreate.canCreate) {
@@ -56,18 +178,51 @@ export class PostsService {
       postRecord.scheduled_for = new Date(postData.scheduled_for).toISOString();
     }
 
+    if (postData.social_account_ids) {
+      postRecord.social_account_ids = postData.social_account_ids;
+    }
+
+    if (postData.variants) {
+      postRecord.variants = postData.variants;
+    }
+
+    if (postData.parts) {
+      postRecord.parts = buildPostParts(postData.parts);
+    }
+
+    if (postData.tag_ids) {
+      postRecord.tag_ids = [...new Set(postData.tag_ids)];
+    }
+
+    if (postData.campaign_id) {
+      postRecord.campaign_id = postData.campaign_id;
+    }
+
+    if (template) {
+      postRecord.template = template;
+    }
+
+    // Posts that would go out are held back when they need a review first
+    if (postData.social_account_ids?.length || postData.scheduled_for) {
+      const submission = await this.getSubmissionState(
+        userId,
+        postData.workspace_id
+      );
+      if (submission.status === 'PENDING_APPROVAL') {
+        const pendingPost = await db.createPost({
+          ...postRecord,
+          ...submission,
+        });
+        await this.billingService.incrementPostUsage(userId);
+        return pendingPost;
+      }
+    }
+
     const post = await db.createPost(postRecord);
 
     try {
       // Integrate with Postiz if social accounts are provided
       if (postData.social_account_ids && postData.social_account_ids.length > 0) {
-        // Get social accounts for the provided IDs
-        const socialAccounts = await this.socialTokensService.getSocialAccountsForPublishing(
-          userId,
-          postData.workspace_id || userId,
-          postData.social_account_ids
-        );
-
         if (socialAccounts.length === 0) {
           throw new Error('No valid social accounts found for the provided IDs');
         }
@@ -82,7 +237,9 @@ export class PostsService {
           postData.content,
           platformIds,
           postData.scheduled_for,
-          postData.media_urls
+          postData.media_urls,
+          toPlatformOverrides(postData.variants, socialAccounts),
+          toThreadPayload(post.parts)
         );
 
         // Update post with Postiz information
@@ -92,6 +249,7 @@ export class PostsService {
           settings: {
             ...post.settings,
             postizResponse,
+            part_results: collectPartResults(post.parts, postizResponse),
             socialAccounts: socialAccounts.map(acc => ({
               id: acc.id,
               platform: acc.platform,
@@ -99,6 +257,14 @@ export class PostsService {
             })),
           },
         });
+
+        await recordDispatchedPlatforms(
+          post.id,
+          socialAccounts.map(account => account.id),
+          postizResponse.id
+        ).catch(error => {
+          console.error(`Failed to record targets for post ${post.id}:`, error);
+        });
       } else if (postData.scheduled_for) {
         // Just schedule without social integration
         await db.updatePost(post.id, userId, {
@@ -131,15 +297,94 @@ export class PostsService {
    */
   async getUserPosts(
     userId: string,
-    options: PaginationOptions & {
-      workspace_id?: string;
-      status?: string;
-      search?: string;
-    } = {}
+    options: PaginationOptions & PostFilters = {}
   ) {
     return await db.findUserPosts(userId, options);
   }
 
+  /**
+   * Search posts, one page at a time. Pass the previous page's
+   * `next_cursor` to continue.
+   */
+  async searchPosts(
+    userId: string,
+    filters: PostSearchFilters,
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<PostSearchPage> {
+    const errors = validateSearchFilters(filters);
+    const limit = options.limit ?? DEFAULT_SEARCH_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      errors.push({
+        field: 'limit',
+        value: limit,
+        message: `Limit must be between 1 and ${MAX_SEARCH_LIMIT}`,
+      });
+    }
+
+    const cursor = options.cursor ? decodeCursor(options.cursor) : null;
+    if (options.cursor && !cursor) {
+      errors.push({ field: 'cursor', message: 'Cursor is not valid' });
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid search', errors);
+    }
+
+    const {
+      q,
+      author_id: authorId,
+      platform,
+      social_account_id: socialAccountId,
+      ...rest
+    } = filters;
+    const query: Parameters<typeof db.findPostsAfterCursor>[0] = rest;
+
+    // Members can search everything in their workspace; otherwise only
+    // the user's own posts
+    if (filters.workspace_id) {
+      const role = await db.findWorkspaceMemberRole(
+        filters.workspace_id,
+        userId
+      );
+      if (!role) {
+        throw new AuthorizationError(
+          'Access denied: You are not a member of this workspace'
+        );
+      }
+      if (authorId) query.user_id = authorId;
+    } else {
+      query.user_id = userId;
+    }
+
+    if (platform || socialAccountId) {
+      const accounts = await this.getAvailableAccounts(
+        userId,
+        filters.workspace_id
+      );
+      query.social_account_ids = accounts
+        .filter(account => !platform || account.platform === platform)
+        .filter(account => !socialAccountId || account.id === socialAccountId)
+        .map(account => account.id);
+
+      if (query.social_account_ids.length === 0) {
+        return { posts: [], next_cursor: null };
+      }
+    }
+
+    const text = q?.trim();
+    if (text) {
+      query.text = text;
+    }
+
+    const posts = await db.findPostsAfterCursor(query, cursor, limit + 1);
+    const page = posts.slice(0, limit);
+    return {
+      posts: page,
+      next_cursor:
+        posts.length > limit ? encodeCursor(page[page.length - 1]!) : null,
+    };
+  }
+
   /**
    * Get a single post by ID
    */
@@ -151,163 +396,2377 @@ export class PostsService {
     return post;
   }
 
+  /**
+   * Get a post along with the outcome for each of its target accounts
+   */
+  async getPostWithPlatforms(
+    userId: string,
+    postId: string
+  ): Promise<Post & { platforms: PostPlatform[] }> {
+    const post = await this.getPost(userId, postId);
+    const platforms = await supabaseService.getPostPlatforms(post.id);
+    return { ...post, platforms };
+  }
+
   /**
    * Update a post
    */
   async updatePost(
     userId: string,
     postId: string,
-    updates: UpdatePostDto
+    updates: UpdatePostDto,
+    scope: RecurrenceEditScope = 'this'
   ): Promise<Post> {
     const post = await this.getPost(userId, postId);
+    const { tag_ids: tagIds, campaign_id: campaignId, ...changes } = updates;
+
+    this.assertValidVariants(
+      changes.variants,
+      changes.social_account_ids ?? post.social_account_ids
+    );
+    await this.assertValidLabels(post.workspace_id, tagIds, campaignId);
+
+    // Tags and campaigns don't affect publishing, so they can be changed
+    // whatever the post's status
+    const labels: Partial<Post> = {};
+    if (tagIds) labels.tag_ids = [...new Set(tagIds)];
+    if (campaignId !== undefined) {
+      labels.campaign_id = campaignId;
+    }
+
+    if (Object.keys(labels).length === 0) {
+      return await this.updatePostContent(userId, post, changes, scope);
+    }
+
+    if (Object.keys(changes).length > 0) {
+      await this.updatePostContent(userId, post, changes, scope);
+    }
+    return await db.updatePost(postId, userId, labels);
+  }
+
+  /**
+   * Apply content and scheduling changes to a post
+   */
+  private async updatePostContent(
+    userId: string,
+    post: Post,
+    updates: PostContentUpdates,
+    scope: RecurrenceEditScope
+  ): Promise<Post> {
+    if (post.recurrence) {
+      return await this.updateSeriesPost(userId, post, updates, scope);
+    }
 
     // Only allow updates to posts that are in DRAFT or FAILED status
     if (!['DRAFT', 'FAILED'].includes(post.status)) {
       throw new Error(`Cannot update post in ${post.status} status`);
     }
 
-    return await db.updatePost(postId, userId, updates);
+    const { recurrence, ...fields } = updates;
+    if (recurrence) {
+      throw new ValidationError('Invalid post update', [
+        {
+          field: 'recurrence',
+          message:
+            'Recurrence can only be set when creating or scheduling a post',
+        },
+      ]);
+    }
+
+    // Scheduling through an update needs the same checks and review as
+    // schedulePost
+    if (fields.status === 'SCHEDULED') {
+      await this.assertCanCreateInWorkspace(userId, post.workspace_id);
+      await this.assertSchedulable(
+        userId,
+        { ...post, ...fields },
+        fields.scheduled_for ?? post.scheduled_for,
+        fields.social_account_ids ?? post.social_account_ids ?? []
+      );
+
+      return await this.saveRevisedPost(userId, post, {
+        ...fields,
+        ...(await this.getSubmissionState(userId, post.workspace_id)),
+      });
+    }
+
+    return await this.saveRevisedPost(userId, post, fields);
   }
 
   /**
-   * Delete a post
+   * Move a post to the trash. It can be restored until it is purged.
    */
   async deletePost(userId: string, postId: string): Promise<void> {
     const post = await this.getPost(userId, postId);
 
-    // Don't allow deletion of published posts
-    if (post.status === 'PUBLISHED') {
+    // Don't allow deletion of published posts; archive them instead
+    if (
+      ['PUBLISHED', 'PARTIALLY_PUBLISHED', 'ARCHIVED'].includes(post.status)
+    ) {
       throw new Error('Cannot delete published post');
     }
 
+    if (post.status === 'DELETED') {
+      throw new Error('Post is already in the trash');
+    }
+
+    await db.updatePost(postId, userId, {
+      status: 'DELETED',
+      previous_status: post.status,
+      deleted_at: new Date().toISOString(),
+      queued: false,
+    });
+
+    // Later queued posts move up into the freed slot
+    if (post.queued && post.workspace_id) {
+      await this.reflowQueue(post.workspace_id);
+    }
+  }
+
+  /**
+   * Get the user's trashed posts
+   */
+  async getTrash(userId: string, workspaceId?: string): Promise<Post[]> {
+    return await db.findTrashedPosts(userId, workspaceId);
+  }
+
+  /**
+   * Take a post out of the trash. Posts that were waiting to publish come
+   * back as drafts so nothing goes out without being scheduled again.
+   */
+  async restorePost(userId: string, postId: string): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+
+    if (post.status !== 'DELETED') {
+      throw new Error('Only posts in the trash can be restored');
+    }
+
+    const previousStatus = post.previous_status;
+    const status: Post['status'] =
+      previousStatus &&
+      ['DRAFT', 'FAILED', 'CANCELLED'].includes(previousStatus)
+        ? previousStatus
+        : 'DRAFT';
+
+    return await db.updatePost(postId, userId, {
+      status,
+      previous_status: null,
+      deleted_at: null,
+    });
+  }
+
+  /**
+   * Permanently delete a trashed post
+   */
+  async purgePost(userId: string, postId: string): Promise<void> {
+    const post = await this.getPost(userId, postId);
+
+    if (post.status !== 'DELETED') {
+      throw new Error('Only posts in the trash can be permanently deleted');
+    }
+
     await db.deletePost(postId, userId);
   }
 
+  /**
+   * Permanently delete everything in the user's trash, returning how many
+   * posts were removed
+   */
+  async emptyTrash(userId: string, workspaceId?: string): Promise<number> {
+    return await db.purgeTrashedPosts({
+      userId,
+      ...(workspaceId ? { workspaceId } : {}),
+    });
+  }
+
+  /**
+   * Archive a published post. Archived posts are left out of default
+   * listings but keep their publishing history.
+   */
+  async archivePost(userId: string, postId: string): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+
+    if (!['PUBLISHED', 'PARTIALLY_PUBLISHED'].includes(post.status)) {
+      throw new Error('Only published posts can be archived');
+    }
+
+    return await db.updatePost(postId, userId, {
+      status: 'ARCHIVED',
+      previous_status: post.status,
+      archived_at: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Return an archived post to the default listings
+   */
+  async unarchivePost(userId: string, postId: string): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+
+    if (post.status !== 'ARCHIVED') {
+      throw new Error('Post is not archived');
+    }
+
+    return await db.updatePost(postId, userId, {
+      status: post.previous_status ?? 'PUBLISHED',
+      previous_status: null,
+      archived_at: null,
+    });
+  }
+
   /**
    * Schedule a post
    */
   async schedulePost(
     userId: string,
     postId: string,
-    scheduledDate: string
+    scheduledDate: string,
+    socialAccountIds?: string[],
+    recurrence?: RecurrenceRule
   ): Promise<Post> {
     const post = await this.getPost(userId, postId);
+    await this.assertCanCreateInWorkspace(userId, post.workspace_id);
 
     // Only allow scheduling posts in DRAFT or FAILED status
     if (!['DRAFT', 'FAILED'].includes(post.status)) {
       throw new Error(`Cannot schedule post in ${post.status} status`);
     }
 
-    // Validate date
-    const scheduledFor = new Date(scheduledDate);
-    if (isNaN(scheduledFor.getTime()) || scheduledFor <= new Date()) {
-      throw new Error('Scheduled date must be in the future');
+    const targets = socialAccountIds || post.social_account_ids || [];
+    const scheduledFor = await this.assertSchedulable(
+      userId,
+      post,
+      scheduledDate,
+      targets
+    );
+    const submission = await this.getSubmissionState(userId, post.workspace_id);
+
+    if (!recurrence) {
+      return await db.updatePost(postId, userId, {
+        ...submission,
+        scheduled_for: scheduledFor.toISOString(),
+        social_account_ids: targets,
+        queued: false,
+        // A manual reschedule starts a fresh set of retries
+        retry: null,
+      });
     }
 
-    return await db.updatePost(postId, userId, {
-      status: 'SCHEDULED',
-      scheduled_for: scheduledFor.toISOString(),
+    // The post becomes the first occurrence and the rest are created as copies
+    const { rule, occurrences } = await this.buildOccurrences(
+      recurrence,
+      scheduledFor,
+      post.workspace_id
+    );
+    await this.assertCanCreatePosts(userId, occurrences.length - 1);
+
+    const seriesId = uuidv4();
+    const [firstOccurrence, ...otherOccurrences] = occurrences;
+    const template = {
+      ...this.toSeriesTemplate(post),
+      ...submission,
+      social_account_ids: targets,
+    };
+
+    const scheduledPost = await db.updatePost(postId, userId, {
+      ...submission,
+      scheduled_for: (firstOccurrence as Date).toISOString(),
+      social_account_ids: targets,
+      recurrence: { series_id: seriesId, rule, occurrence_index: 0 },
     });
+
+    if (otherOccurrences.length > 0) {
+      await db.createPosts(
+        this.buildSeriesPosts(template, seriesId, rule, otherOccurrences, 1)
+      );
+      await this.billingService.incrementPostUsage(
+        userId,
+        otherOccurrences.length
+      );
+    }
+
+    return scheduledPost;
   }
 
   /**
-   * Cancel scheduled post
+   * Schedule a post into the next free slot of its workspace's posting
+   * schedule
    */
-  async cancelScheduledPost(userId: string, postId: string): Promise<Post> {
+  async enqueuePost(
+    userId: string,
+    postId: string,
+    socialAccountIds?: string[]
+  ): Promise<Post> {
     const post = await this.getPost(userId, postId);
+    await this.assertCanCreateInWorkspace(userId, post.workspace_id);
 
-    if (post.status !== 'SCHEDULED') {
-      throw new Error('Only scheduled posts can be cancelled');
+    if (!['DRAFT', 'FAILED'].includes(post.status)) {
+      throw new Error(`Cannot schedule post in ${post.status} status`);
+    }
+
+    if (post.recurrence) {
+      throw new Error('Recurring posts cannot be added to the queue');
+    }
+
+    if (!post.workspace_id) {
+      throw new Error('Only workspace posts can be added to the queue');
+    }
+
+    const targets = socialAccountIds || post.social_account_ids || [];
+    if (targets.length === 0) {
+      throw new Error(
+        'At least one social account is required to schedule a post'
+      );
+    }
+
+    await this.assertPublishable(userId, post.workspace_id, post, targets);
+
+    const postingSchedule = await this.getPostingSchedule(post.workspace_id);
+    if (!postingSchedule) {
+      throw new Error('Workspace has no posting slots configured');
+    }
+
+    const now = new Date();
+    const upcoming = await db.findWorkspaceUpcomingPosts(
+      post.workspace_id,
+      now.toISOString()
+    );
+    const taken = new Set(
+      upcoming.map(upcomingPost =>
+        Date.parse(upcomingPost.scheduled_for as string)
+      )
+    );
+    const [slot] = findFreeSlots(
+      postingSchedule.schedule,
+      postingSchedule.timeZone,
+      now,
+      1,
+      taken
+    );
+    if (!slot) {
+      throw new Error(
+        `No free posting slot in the next ${QUEUE_LOOKAHEAD_DAYS} days`
+      );
     }
 
+    const submission = await this.getSubmissionState(userId, post.workspace_id);
     return await db.updatePost(postId, userId, {
-      status: 'DRAFT',
-      scheduled_for: null as unknown as string, // TypeScript workaround to set value to null
+      ...submission,
+      scheduled_for: slot.toISOString(),
+      social_account_ids: targets,
+      queued: true,
+      retry: null,
     });
   }
 
   /**
-   * Handle webhook from Postiz about post status updates
+   * Get a workspace's queued posts, in posting order
    */
-  async handlePostizWebhook(
+  async getQueue(userId: string, workspaceId: string): Promise<Post[]> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    const upcoming = await db.findWorkspaceUpcomingPosts(
+      workspaceId,
+      new Date().toISOString()
+    );
+    return upcoming.filter(post => this.isQueued(post));
+  }
+
+  /**
+   * Reorder a workspace's queued posts. Posts take the free slots in the
+   * new order, so `postIds` must list every queued post exactly once.
+   */
+  async reorderQueue(
+    userId: string,
+    workspaceId: string,
+    postIds: string[]
+  ): Promise<Post[]> {
+    await this.assertCanCreateInWorkspace(userId, workspaceId);
+    return await this.reflowQueue(workspaceId, postIds);
+  }
+
+  /**
+   * Cancel scheduled post
+   */
+  async cancelScheduledPost(
+    userId: string,
     postId: string,
-    status: string,
-    webhookData: {
-      postizPostId?: string;
-      platformResults?: any[];
-      publishedAt?: string;
-      scheduledAt?: string;
-      failedAt?: string;
-      updatedAt?: string;
-      error?: string;
-      success?: boolean;
-      confirmed?: boolean;
+    scope: RecurrenceEditScope = 'this'
+  ): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+
+    if (post.status !== 'SCHEDULED') {
+      throw new Error('Only scheduled posts can be cancelled');
     }
-  ): Promise<void> {
-    try {
-      // Find the post by ID
-      const { data: post, error: findError } = await db.adminClient
-        .from('posts')
-        .select('*')
-        .eq('id', postId)
-        .single();
 
-      if (findError || !post) {
-        console.error(`Post not found for webhook update: ${postId}`);
-        return;
+    if (!post.recurrence) {
+      const cancelledPost = await db.updatePost(postId, userId, {
+        status: 'DRAFT',
+        scheduled_for: null,
+        queued: false,
+      });
+
+      if (post.queued && post.workspace_id) {
+        await this.reflowQueue(post.workspace_id);
       }
 
-      // Prepare update data
-      const updateData: any = {
-        status,
-        updated_at: new Date().toISOString(),
-        settings: {
-          ...post.settings,
-          webhook_data: webhookData,
-          last_webhook_update: new Date().toISOString(),
-        },
-      };
+      return cancelledPost;
+    }
 
-      // Set Postiz post ID if provided
-      if (webhookData.postizPostId) {
-        updateData.postiz_post_id = webhookData.postizPostId;
-      }
+    // Cancelled occurrences stay in the series so their place is kept
+    if (scope === 'this') {
+      return await db.updatePost(postId, userId, { status: 'CANCELLED' });
+    }
 
-      // Set published_at if status is PUBLISHED
-      if (status === 'PUBLISHED' && webhookData.publishedAt) {
-        updateData.published_at = webhookData.publishedAt;
+    const current = post.recurrence;
+    const series = await db.findSeriesPosts(current.series_id, userId);
+    // The series now ends before this occurrence
+    const rule =
+      current.occurrence_index > 0
+        ? { ...current.rule, count: current.occurrence_index }
+        : current.rule;
+
+    let cancelledPost = post;
+    for (const seriesPost of series) {
+      const index = seriesPost.recurrence?.occurrence_index ?? 0;
+      const isFollowing = index >= current.occurrence_index;
+      if (isFollowing && !this.isPendingOccurrence(seriesPost)) {
+        continue;
       }
 
-      // Set scheduled_for if status is SCHEDULED
-      if (status === 'SCHEDULED' && webhookData.scheduledAt) {
-        updateData.scheduled_for = webhookData.scheduledAt;
+      const updates: Partial<Post> = {
+        recurrence: { ...current, rule, occurrence_index: index },
+      };
+      if (isFollowing) {
+        updates.status = 'CANCELLED';
       }
 
-      // Update error information if post failed
-      if (status === 'FAILED' && webhookData.error) {
-        updateData.settings = {
-          ...updateData.settings,
-          error: webhookData.error,
-          failed_at: webhookData.failedAt || new Date().toISOString(),
-        };
+      const updated = await db.updatePost(seriesPost.id, userId, updates);
+      if (updated.id === post.id) {
+        cancelledPost = updated;
       }
+    }
 
-      // Update the post
-      const { error: updateError } = await db.adminClient
+    return cancelledPost;
+  }
+
+  /**
+   * Get every occurrence in the recurring series a post belongs to
+   */
+  async getSeriesOccurrences(userId: string, postId: string): Promise<Post[]> {
+    const post = await this.getPost(userId, postId);
+
+    if (!post.recurrence) {
+      return [post];
+    }
+
+    return await db.findSeriesPosts(post.recurrence.series_id, userId);
+  }
+
+  /**
+   * Get the thread or carousel parts of a post, in order
+   */
+  async getPostParts(userId: string, postId: string): Promise<PostPart[]> {
+    const post = await this.getPost(userId, postId);
+    return post.parts || [];
+  }
+
+  /**
+   * Add a part to a post, at the end unless a position is given
+   */
+  async addPostPart(
+    userId: string,
+    postId: string,
+    partData: CreatePostPartDto
+  ): Promise<PostPart> {
+    const post = await this.getPost(userId, postId);
+    this.assertEditable(post);
+
+    const errors = validatePostPart(partData, 'part', true);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid post part', errors);
+    }
+
+    const currentParts = post.parts || [];
+    if (currentParts.length >= MAX_POST_PARTS) {
+      throw new ValidationError('Invalid post part', [
+        {
+          field: 'parts',
+          message: `Posts can have at most ${MAX_POST_PARTS} parts`,
+        },
+      ]);
+    }
+
+    const { parts, part } = insertPostPart(currentParts, partData);
+    await this.savePostParts(userId, post, parts);
+    return part;
+  }
+
+  /**
+   * Update a part's content or media, or move it to a new position
+   */
+  async updatePostPart(
+    userId: string,
+    postId: string,
+    partId: string,
+    updates: UpdatePostPartDto
+  ): Promise<PostPart> {
+    const post = await this.getPost(userId, postId);
+    this.assertEditable(post);
+
+    if (!post.parts?.some(part => part.id === partId)) {
+      throw new NotFoundError('Post part', partId);
+    }
+
+    const errors = validatePostPart(updates, 'part', false);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid post part', errors);
+    }
+
+    const parts = updatePostPart(post.parts, partId, updates);
+    await this.savePostParts(userId, post, parts);
+    return parts.find(part => part.id === partId) as PostPart;
+  }
+
+  /**
+   * Remove a part from a post
+   */
+  async deletePostPart(
+    userId: string,
+    postId: string,
+    partId: string
+  ): Promise<void> {
+    const post = await this.getPost(userId, postId);
+    this.assertEditable(post);
+
+    if (!post.parts?.some(part => part.id === partId)) {
+      throw new NotFoundError('Post part', partId);
+    }
+
+    await this.savePostParts(userId, post, removePostPart(post.parts, partId));
+  }
+
+  /**
+   * Import scheduled posts from spreadsheet rows. Every row is validated
+   * first and a dry run stops there. Otherwise the valid rows are created
+   * together and the outcome is stored as a job with a downloadable report.
+   */
+  async importPosts(
+    userId: string,
+    rows: unknown[],
+    options: { workspace_id?: string; dry_run?: boolean } = {}
+  ): Promise<PostImportSummary | PostImportJob> {
+    if (rows.length === 0 || rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError('Invalid import', [
+        {
+          field: 'rows',
+          value: rows.length,
+          message: `Imports must contain between 1 and ${MAX_IMPORT_ROWS} rows`,
+        },
+      ]);
+    }
+
+    const workspaceId = options.workspace_id;
+    await this.assertCanCreateInWorkspace(userId, workspaceId);
+    const accounts = await this.getAvailableAccounts(userId, workspaceId);
+
+    let timeZone = DEFAULT_TIMEZONE;
+    if (workspaceId) {
+      const settings = await db.findWorkspaceSettings(workspaceId);
+      if (settings?.timezone && isValidTimeZone(settings.timezone)) {
+        timeZone = settings.timezone;
+      }
+    }
+
+    const now = new Date();
+    const validated = rows.map((row, index) =>
+      validateImportRow(row, index, accounts, timeZone, now)
+    );
+    const results = validated.map(entry => entry.result);
+    let candidates = validated.flatMap(entry =>
+      entry.candidate ? [entry.candidate] : []
+    );
+
+    // Rows beyond what the plan still allows are refused in file order
+    const allowed = await this.countAllowedPosts(userId, candidates.length);
+    for (const candidate of candidates.slice(allowed.count)) {
+      const result = results[candidate.row - 1] as PostImportRowResult;
+      result.status = 'INVALID';
+      result.errors.push({
+        field: 'row',
+        constraint: 'planLimit',
+        message: allowed.reason,
+      });
+    }
+    candidates = candidates.slice(0, allowed.count);
+
+    const summary: PostImportSummary = {
+      dry_run: options.dry_run === true,
+      total_rows: rows.length,
+      valid_rows: candidates.length,
+      invalid_rows: rows.length - candidates.length,
+      results,
+    };
+
+    if (summary.dry_run) {
+      return summary;
+    }
+
+    const job: Omit<PostImportJob, 'id' | 'created_at'> = {
+      ...summary,
+      user_id: userId,
+      status: 'COMPLETED',
+      created_count: 0,
+    };
+    if (workspaceId) {
+      job.workspace_id = workspaceId;
+    }
+
+    if (candidates.length > 0) {
+      const submission = await this.getSubmissionState(userId, workspaceId);
+      const posts = candidates.map(candidate => ({
+        ...candidate.post,
+        id: uuidv4(),
+        user_id: userId,
+        settings: {},
+        ...submission,
+        ...(workspaceId ? { workspace_id: workspaceId } : {}),
+      }));
+
+      try {
+        await db.createPosts(posts);
+        job.created_count = posts.length;
+      } catch (error: any) {
+        console.error('Error importing posts:', error);
+        job.status = 'FAILED';
+        job.error = error.message;
+      }
+
+      candidates.forEach((candidate, index) => {
+        const result = results[candidate.row - 1] as PostImportRowResult;
+        if (job.status === 'COMPLETED') {
+          result.status = 'CREATED';
+          result.post_id = (posts[index] as Post).id;
+        } else {
+          result.status = 'FAILED';
+        }
+      });
+
+      if (job.created_count > 0) {
+        await this.billingService.incrementPostUsage(
+          userId,
+          job.created_count
+        );
+      }
+    }
+
+    return await db.createPostImportJob(job);
+  }
+
+  /**
+   * Get a post import job and its row results
+   */
+  async getImportJob(userId: string, jobId: string): Promise<PostImportJob> {
+    const job = await db.findPostImportJob(jobId, userId);
+    if (!job) {
+      throw new NotFoundError('Post import job', jobId);
+    }
+    return job;
+  }
+
+  /**
+   * Apply one action to many posts, chosen by ID or by filter. Each post
+   * follows the same rules as the single-post operation, and a failure on
+   * one post does not stop the rest.
+   */
+  async bulkUpdatePosts(
+    userId: string,
+    request: BulkPostRequest
+  ): Promise<BulkPostResult> {
+    this.assertValidBulkRequest(request);
+
+    let ids = request.ids ?? [];
+    if (!request.ids && request.filter) {
+      const { posts, total } = await db.findUserPosts(userId, {
+        ...request.filter,
+        page: 1,
+        limit: MAX_BULK_POSTS,
+      });
+      if (total > MAX_BULK_POSTS) {
+        throw new ValidationError('Invalid bulk request', [
+          {
+            field: 'filter',
+            value: total,
+            message: `Filter matches more than ${MAX_BULK_POSTS} posts`,
+          },
+        ]);
+      }
+      ids = posts.map(post => post.id);
+    }
+
+    const results: BulkPostItemResult[] = [];
+    for (const id of [...new Set(ids)]) {
+      try {
+        const post = await this.applyBulkAction(userId, id, request);
+        results.push(post ? { id, success: true, post } : { id, success: true });
+      } catch (error: any) {
+        results.push({ id, success: false, error: error.message });
+      }
+    }
+
+    const succeeded = results.filter(result => result.success).length;
+    return {
+      action: request.action,
+      total: results.length,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    };
+  }
+
+  /**
+   * Move a post to another workspace the user belongs to. Social accounts
+   * belong to a workspace, so the post's targets and variants are cleared.
+   */
+  async reassignPostWorkspace(
+    userId: string,
+    postId: string,
+    workspaceId: string
+  ): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+
+    if (!['DRAFT', 'FAILED', 'CANCELLED'].includes(post.status)) {
+      throw new Error(`Cannot move post in ${post.status} status`);
+    }
+
+    if (post.recurrence) {
+      throw new Error('Occurrences of a recurring post cannot be moved');
+    }
+
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    // Tags and campaigns belong to the old workspace too
+    return await db.updatePost(postId, userId, {
+      workspace_id: workspaceId,
+      social_account_ids: [],
+      variants: {},
+      tag_ids: [],
+      campaign_id: null,
+    });
+  }
+
+  /**
+   * Copy a post into a new draft, in the same workspace or another one the
+   * user can create posts in. Within a workspace the social accounts are
+   * kept unless remapped; across workspaces only mapped accounts carry over.
+   */
+  async duplicatePost(
+    userId: string,
+    postId: string,
+    options: DuplicatePostDto = {}
+  ): Promise<Post> {
+    const source = await this.getReadablePost(userId, postId);
+    const targetWorkspaceId = options.workspace_id ?? source.workspace_id;
+
+    await this.assertCanCreateInWorkspace(userId, targetWorkspaceId);
+
+    const sameWorkspace =
+      (targetWorkspaceId ?? null) === (source.workspace_id ?? null);
+    let accountMap: Record<string, string> = {};
+    if (options.social_account_map) {
+      accountMap = options.social_account_map;
+      await this.assertAccountsInWorkspace(
+        userId,
+        targetWorkspaceId,
+        accountMap
+      );
+    } else if (sameWorkspace) {
+      (source.social_account_ids ?? []).forEach(id => {
+        accountMap[id] = id;
+      });
+    }
+
+    // Copies count against the plan of whoever owns the target workspace
+    const billedUserId = targetWorkspaceId
+      ? ((await db.findWorkspaceOwnerId(targetWorkspaceId)) ?? userId)
+      : userId;
+    const canCreate = await this.billingService.canCreatePost(billedUserId);
+    if (!canCreate.canCreate) {
+      throw new Error(
+        canCreate.reason || 'Unable to create post due to plan limits'
+      );
+    }
+
+    const duplicate = await db.createPost(
+      buildDuplicatePost(source, userId, targetWorkspaceId, accountMap)
+    );
+    await this.billingService.incrementPostUsage(billedUserId);
+
+    return duplicate;
+  }
+
+  /**
+   * Add, remove or replace the tags on a post
+   */
+  async updatePostTags(
+    userId: string,
+    postId: string,
+    tagIds: string[],
+    mode: TagUpdateMode = 'replace'
+  ): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+    const current = post.tag_ids ?? [];
+
+    if (mode !== 'remove') {
+      await this.assertValidLabels(post.workspace_id, tagIds);
+    }
+
+    let updated: string[];
+    if (mode === 'add') {
+      updated = [...new Set([...current, ...tagIds])];
+    } else if (mode === 'remove') {
+      updated = current.filter(tagId => !tagIds.includes(tagId));
+    } else {
+      updated = [...new Set(tagIds)];
+    }
+
+    return await db.updatePost(postId, userId, { tag_ids: updated });
+  }
+
+  /**
+   * Get the revision history of a post, oldest first
+   */
+  async getPostRevisions(
+    userId: string,
+    postId: string
+  ): Promise<PostRevision[]> {
+    await this.getPost(userId, postId);
+    return await db.findPostRevisions(postId);
+  }
+
+  /**
+   * Get a single revision of a post
+   */
+  async getPostRevision(
+    userId: string,
+    postId: string,
+    revision: number
+  ): Promise<PostRevision> {
+    await this.getPost(userId, postId);
+
+    const postRevision = await db.findPostRevision(postId, revision);
+    if (!postRevision) {
+      throw new NotFoundError('Post revision', revision);
+    }
+
+    return postRevision;
+  }
+
+  /**
+   * Return a post's content to how it was right after a revision.
+   * The restore is itself recorded as a new revision.
+   */
+  async restorePostRevision(
+    userId: string,
+    postId: string,
+    revision: number
+  ): Promise<Post> {
+    const post = await this.getPost(userId, postId);
+    this.assertEditable(post);
+
+    const revisions = await db.findPostRevisions(postId);
+    if (!revisions.some(entry => entry.revision === revision)) {
+      throw new NotFoundError('Post revision', revision);
+    }
+
+    const restored = revertToRevision(revisions, revision);
+    this.assertValidVariants(restored.variants, post.social_account_ids);
+
+    if (post.status === 'SCHEDULED') {
+      await this.assertPublishable(
+        userId,
+        post.workspace_id,
+        { ...post, ...restored },
+        post.social_account_ids
+      );
+    }
+
+    return await this.saveRevisedPost(userId, post, restored);
+  }
+
+  /**
+   * Add a published post to its workspace's evergreen library, or update
+   * its recycling settings if it is already there
+   */
+  async saveEvergreenItem(
+    userId: string,
+    postId: string,
+    settings: EvergreenItemDto
+  ): Promise<EvergreenItem> {
+    const post = await this.getPost(userId, postId);
+
+    if (post.status !== 'PUBLISHED') {
+      throw new Error(
+        'Only published posts can be added to the evergreen library'
+      );
+    }
+
+    if (!post.workspace_id) {
+      throw new Error(
+        'Only workspace posts can be added to the evergreen library'
+      );
+    }
+
+    // Reposts point back to their library entry; the original is recycled
+    if (post.evergreen_item_id) {
+      throw new Error('Reposts cannot be added to the evergreen library');
+    }
+
+    const errors = validateEvergreenItem(settings);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid evergreen settings', errors);
+    }
+
+    const existing = await db.findEvergreenItemByPost(postId);
+    if (existing) {
+      return await db.updateEvergreenItem(existing.id, {
+        min_interval_days: settings.min_interval_days,
+        // Leaving out the limit clears a previous one
+        max_reposts: settings.max_reposts ?? null,
+        is_active: settings.is_active ?? existing.is_active,
+      });
+    }
+
+    return await db.createEvergreenItem({
+      workspace_id: post.workspace_id,
+      post_id: postId,
+      added_by: userId,
+      min_interval_days: settings.min_interval_days,
+      ...(settings.max_reposts !== undefined && {
+        max_reposts: settings.max_reposts,
+      }),
+      repost_count: 0,
+      is_active: settings.is_active ?? true,
+    });
+  }
+
+  /**
+   * Remove a post from its workspace's evergreen library. Reposts that
+   * are already scheduled still go out.
+   */
+  async removeEvergreenItem(userId: string, postId: string): Promise<void> {
+    await this.getPost(userId, postId);
+
+    const item = await db.findEvergreenItemByPost(postId);
+    if (!item) {
+      throw new NotFoundError('Evergreen item', postId);
+    }
+
+    await db.deleteEvergreenItem(item.id);
+  }
+
+  /**
+   * Get a workspace's evergreen library
+   */
+  async getEvergreenLibrary(
+    userId: string,
+    workspaceId: string
+  ): Promise<EvergreenItem[]> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    return await db.findWorkspaceEvergreenItems(workspaceId);
+  }
+
+  /**
+   * Get a workspace's posts that are waiting for approval
+   */
+  async getPendingApprovals(
+    userId: string,
+    workspaceId: string
+  ): Promise<Post[]> {
+    await this.assertCanApprovePosts(userId, workspaceId);
+    return await db.findPendingApprovalPosts(workspaceId);
+  }
+
+  /**
+   * Approve a post so it publishes at its scheduled time, or straight away
+   * if that time has passed. Approving an occurrence of a recurring series
+   * approves the whole series.
+   */
+  async approvePost(
+    userId: string,
+    postId: string,
+    comment?: string
+  ): Promise<Post> {
+    const post = await this.getPostForReview(userId, postId);
+
+    // Accounts or their rules may have changed while the post waited
+    await this.assertPublishable(
+      post.user_id,
+      post.workspace_id,
+      post,
+      post.social_account_ids
+    );
+
+    const now = new Date();
+    const approval = this.buildReview(post, userId, 'APPROVED', comment);
+
+    if (!post.recurrence) {
+      const scheduledFor =
+        post.scheduled_for && new Date(post.scheduled_for) > now
+          ? post.scheduled_for
+          : now.toISOString();
+
+      return await db.updatePost(post.id, post.user_id, {
+        status: 'SCHEDULED',
+        scheduled_for: scheduledFor,
+        approval,
+      });
+    }
+
+    // Occurrences whose time passed during review are skipped, not sent late
+    return await this.reviewSeries(post, occurrence =>
+      occurrence.scheduled_for && new Date(occurrence.scheduled_for) > now
+        ? { status: 'SCHEDULED', approval }
+        : { status: 'CANCELLED', approval }
+    );
+  }
+
+  /**
+   * Reject a post, returning it to DRAFT with the reviewer's comment so its
+   * author can revise it. Rejecting an occurrence of a recurring series
+   * rejects the whole series.
+   */
+  async rejectPost(
+    userId: string,
+    postId: string,
+    comment: string
+  ): Promise<Post> {
+    const post = await this.getPostForReview(userId, postId);
+    const approval = this.buildReview(post, userId, 'REJECTED', comment);
+
+    if (!post.recurrence) {
+      return await db.updatePost(post.id, post.user_id, {
+        status: 'DRAFT',
+        approval,
+      });
+    }
+
+    return await this.reviewSeries(post, () => ({
+      status: 'DRAFT',
+      approval,
+    }));
+  }
+
+  /**
+   * Handle webhook from Postiz about post status updates
+   */
+  async handlePostizWebhook(
+    postId: string,
+    status: string,
+    webhookData: {
+      postizPostId?: string;
+      platformResults?: any[];
+      publishedAt?: string;
+      scheduledAt?: string;
+      failedAt?: string;
+      updatedAt?: string;
+      error?: string;
+      success?: boolean;
+      confirmed?: boolean;
+    }
+  ): Promise<void> {
+    try {
+      // Find the post by ID
+      const { data: post, error: findError } = await db.adminClient
+        .from('posts')
+        .select('*')
+        .eq('id', postId)
+        .single();
+
+      if (findError || !post) {
+        console.error(`Post not found for webhook update: ${postId}`);
+        return;
+      }
+
+      // Per-target results decide the outcome once every target has
+      // reported. Partially published posts are not retried, so targets
+      // that succeeded are not posted to twice.
+      const platformStatus = await this.recordPlatformResults(
+        post as Post,
+        webhookData.platformResults
+      );
+      const resolvedStatus = platformStatus ?? status;
+
+      // Prepare update data
+      const updateData: any = {
+        status: resolvedStatus,
+        updated_at: new Date().toISOString(),
+        settings: {
+          ...post.settings,
+          webhook_data: webhookData,
+          last_webhook_update: new Date().toISOString(),
+        },
+      };
+
+      // Set Postiz post ID if provided
+      if (webhookData.postizPostId) {
+        updateData.postiz_post_id = webhookData.postizPostId;
+      }
+
+      // Set published_at if any target was published
+      if (
+        ['PUBLISHED', 'PARTIALLY_PUBLISHED'].includes(resolvedStatus) &&
+        webhookData.publishedAt
+      ) {
+        updateData.published_at = webhookData.publishedAt;
+      }
+
+      // Set scheduled_for if status is SCHEDULED
+      if (resolvedStatus === 'SCHEDULED' && webhookData.scheduledAt) {
+        updateData.scheduled_for = webhookData.scheduledAt;
+      }
+
+      // Update error information if post failed
+      if (resolvedStatus === 'FAILED' && webhookData.error) {
+        updateData.settings = {
+          ...updateData.settings,
+          error: webhookData.error,
+          failed_at: webhookData.failedAt || new Date().toISOString(),
+        };
+      }
+
+      // Transient failures go back to the dispatcher after a backoff
+      let retry: PostRetryState | undefined;
+      if (resolvedStatus === 'FAILED') {
+        const outcome = await this.publishFailures.recordFailure(
+          post as Post,
+          webhookData.error || 'Unknown error',
+          new Date()
+        );
+        retry = outcome.retry;
+        Object.assign(updateData, outcome.updates);
+      }
+
+      // Update the post
+      const { error: updateError } = await db.adminClient
         .from('posts')
         .update(updateData)
         .eq('id', postId);
 
-      if (updateError) {
-        console.error(`Failed to update post ${postId} from webhook:`, updateError);
-        return;
+      if (updateError) {
+        console.error(`Failed to update post ${postId} from webhook:`, updateError);
+        return;
+      }
+
+      if (retry) {
+        await this.publishFailures.notifyIfExhausted(post as Post, retry);
+      }
+
+      console.log(`Post ${postId} updated from webhook - status: ${resolvedStatus}`);
+
+    } catch (error: any) {
+      console.error(`Error handling Postiz webhook for post ${postId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Create a recurring post, storing each occurrence as its own scheduled post.
+   * Returns the first occurrence.
+   */
+  private async createRecurringPost(
+    userId: string,
+    postData: CreatePostDto,
+    recurrence: RecurrenceRule,
+    postTemplate?: PostTemplateUsage
+  ): Promise<Post> {
+    if (
+      !postData.social_account_ids ||
+      postData.social_account_ids.length === 0
+    ) {
+      throw new ValidationError('Invalid recurring post', [
+        {
+          field: 'social_account_ids',
+          message:
+            'At least one social account is required for recurring posts',
+        },
+      ]);
+    }
+
+    const startsAt = this.parseSeriesStart(postData.scheduled_for);
+    const { rule, occurrences } = await this.buildOccurrences(
+      recurrence,
+      startsAt,
+      postData.workspace_id
+    );
+    await this.assertCanCreatePosts(userId, occurrences.length);
+
+    const template: Partial<Post> = {
+      user_id: userId,
+      content: postData.content,
+      media_urls: postData.media_urls || [],
+      social_account_ids: postData.social_account_ids,
+      settings: postData.settings || {},
+      ...(await this.getSubmissionState(userId, postData.workspace_id)),
+    };
+
+    if (postData.workspace_id) {
+      template.workspace_id = postData.workspace_id;
+    }
+
+    if (postData.title) {
+      template.title = postData.title;
+    }
+
+    if (postData.variants) {
+      template.variants = postData.variants;
+    }
+
+    if (postData.parts) {
+      template.parts = buildPostParts(postData.parts);
+    }
+
+    if (postData.tag_ids) {
+      template.tag_ids = [...new Set(postData.tag_ids)];
+    }
+
+    if (postData.campaign_id) {
+      template.campaign_id = postData.campaign_id;
+    }
+
+    if (postTemplate) {
+      template.template = postTemplate;
+    }
+
+    const posts = await db.createPosts(
+      this.buildSeriesPosts(template, uuidv4(), rule, occurrences, 0)
+    );
+    await this.billingService.incrementPostUsage(userId, posts.length);
+
+    const firstPost = posts.find(
+      post => post.recurrence?.occurrence_index === 0
+    );
+    if (!firstPost) {
+      throw new Error('Failed to create recurring post');
+    }
+
+    return firstPost;
+  }
+
+  /**
+   * Update an occurrence of a recurring series, either on its own or
+   * together with every following occurrence
+   */
+  private async updateSeriesPost(
+    userId: string,
+    post: Post,
+    updates: PostContentUpdates,
+    scope: RecurrenceEditScope
+  ): Promise<Post> {
+    if (
+      !this.isPendingOccurrence(post) &&
+      !['DRAFT', 'FAILED'].includes(post.status)
+    ) {
+      throw new Error(`Cannot update post in ${post.status} status`);
+    }
+
+    const { recurrence, ...updateFields } = updates;
+
+    // Scheduling needs the same review as schedulePost
+    const fields: Partial<Post> =
+      updateFields.status === 'SCHEDULED'
+        ? {
+            ...updateFields,
+            ...(await this.getSubmissionState(userId, post.workspace_id)),
+          }
+        : updateFields;
+
+    if (post.status === 'SCHEDULED') {
+      await this.assertPublishable(
+        userId,
+        post.workspace_id,
+        { ...post, ...fields },
+        fields.social_account_ids ?? post.social_account_ids
+      );
+    }
+
+    if (scope === 'this') {
+      if (recurrence) {
+        throw new ValidationError('Invalid post update', [
+          {
+            field: 'recurrence',
+            message:
+              'Recurrence changes must apply to this and following occurrences',
+          },
+        ]);
+      }
+
+      if (updateFields.status === 'SCHEDULED' && post.status !== 'SCHEDULED') {
+        await this.assertSchedulable(
+          userId,
+          { ...post, ...fields },
+          fields.scheduled_for ?? post.scheduled_for,
+          fields.social_account_ids ?? post.social_account_ids ?? []
+        );
+      }
+
+      return await this.saveRevisedPost(userId, post, fields);
+    }
+
+    const current = post.recurrence as PostRecurrence;
+    const series = await db.findSeriesPosts(current.series_id, userId);
+    const earlier = series.filter(
+      seriesPost =>
+        (seriesPost.recurrence?.occurrence_index ?? 0) <
+        current.occurrence_index
+    );
+    const following = series.filter(
+      seriesPost =>
+        seriesPost.id === post.id ||
+        ((seriesPost.recurrence?.occurrence_index ?? 0) >
+          current.occurrence_index &&
+          this.isPendingOccurrence(seriesPost))
+    );
+
+    // Like calendar apps, editing "this and following" splits the series in two
+    const seriesId = earlier.length > 0 ? uuidv4() : current.series_id;
+    const { scheduled_for, ...contentFields } = fields;
+
+    // Rules count from the start of their series, so carry over what is left
+    let rule: RecurrenceRule =
+      current.rule.count !== undefined
+        ? {
+            ...current.rule,
+            count: current.rule.count - current.occurrence_index,
+          }
+        : current.rule;
+
+    let occurrences: Date[] | null = null;
+    if (recurrence !== undefined || scheduled_for !== undefined) {
+      const startsAt = this.parseSeriesStart(
+        scheduled_for ?? post.scheduled_for
+      );
+      const built = await this.buildOccurrences(
+        recurrence ?? rule,
+        startsAt,
+        post.workspace_id
+      );
+      rule = built.rule;
+      occurrences = built.occurrences;
+    }
+
+    let updatedPost = post;
+    const trackUpdate = (updated: Post): void => {
+      if (updated.id === post.id) {
+        updatedPost = updated;
+      }
+    };
+
+    if (!occurrences) {
+      for (const seriesPost of following) {
+        const index =
+          (seriesPost.recurrence?.occurrence_index ?? 0) -
+          current.occurrence_index;
+        trackUpdate(
+          await this.saveRevisedPost(userId, seriesPost, {
+            ...contentFields,
+            recurrence: { series_id: seriesId, rule, occurrence_index: index },
+          })
+        );
+      }
+    } else {
+      // Reuse existing occurrences where possible, then cancel or add the difference
+      const additional = occurrences.slice(following.length);
+      await this.assertCanCreatePosts(userId, additional.length);
+      const submission = await this.getSubmissionState(
+        userId,
+        post.workspace_id
+      );
+
+      for (const [index, seriesPost] of following.entries()) {
+        const occursAt = occurrences[index];
+        trackUpdate(
+          await this.saveRevisedPost(userId, seriesPost, {
+            ...contentFields,
+            ...(occursAt
+              ? { ...submission, scheduled_for: occursAt.toISOString() }
+              : { status: 'CANCELLED' }),
+            recurrence: { series_id: seriesId, rule, occurrence_index: index },
+          })
+        );
+      }
+
+      if (additional.length > 0) {
+        const template = {
+          ...this.toSeriesTemplate(updatedPost),
+          ...contentFields,
+          ...submission,
+        };
+        await db.createPosts(
+          this.buildSeriesPosts(
+            template,
+            seriesId,
+            rule,
+            additional,
+            following.length
+          )
+        );
+        await this.billingService.incrementPostUsage(userId, additional.length);
+      }
+    }
+
+    // Earlier occurrences keep the original series, which now ends before this one
+    const earlierRule = { ...current.rule, count: current.occurrence_index };
+    for (const seriesPost of earlier) {
+      await db.updatePost(seriesPost.id, userId, {
+        recurrence: {
+          ...current,
+          rule: earlierRule,
+          occurrence_index: seriesPost.recurrence?.occurrence_index ?? 0,
+        },
+      });
+    }
+
+    return updatedPost;
+  }
+
+  /**
+   * Validate a recurrence rule and expand it in the workspace time zone
+   */
+  private async buildOccurrences(
+    recurrence: RecurrenceRule,
+    startsAt: Date,
+    workspaceId?: string
+  ): Promise<{ rule: RecurrenceRule; occurrences: Date[] }> {
+    const errors = validateRecurrenceRule(recurrence, startsAt);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid recurrence rule', errors);
+    }
+
+    let timezone = recurrence.timezone;
+    if (!timezone && workspaceId) {
+      const settings = await db.findWorkspaceSettings(workspaceId);
+      if (settings?.timezone && isValidTimeZone(settings.timezone)) {
+        timezone = settings.timezone;
+      }
+    }
+
+    // Store the resolved time zone so later edits expand the same way
+    const rule: RecurrenceRule = {
+      ...recurrence,
+      timezone: timezone ?? DEFAULT_TIMEZONE,
+    };
+    const occurrences = generateOccurrences(
+      rule,
+      startsAt,
+      rule.timezone as string
+    );
+
+    if (occurrences.length === 0) {
+      throw new ValidationError('Invalid recurrence rule', [
+        {
+          field: 'recurrence',
+          message: 'Recurrence rule produces no occurrences',
+        },
+      ]);
+    }
+
+    return { rule, occurrences };
+  }
+
+  /**
+   * Parse the start of a recurring series, which must be in the future
+   */
+  private parseSeriesStart(scheduledFor: string | null | undefined): Date {
+    const startsAt = new Date(scheduledFor ?? '');
+    if (isNaN(startsAt.getTime()) || startsAt <= new Date()) {
+      throw new ValidationError('Invalid recurring post', [
+        {
+          field: 'scheduled_for',
+          value: scheduledFor,
+          message: 'Recurring posts need a start date in the future',
+        },
+      ]);
+    }
+    return startsAt;
+  }
+
+  /**
+   * Check that a bulk request names its posts and has what its action needs
+   */
+  private assertValidBulkRequest(request: BulkPostRequest): void {
+    const errors: ErrorDetails[] = [];
+
+    if (!BULK_POST_ACTIONS.includes(request.action)) {
+      errors.push({
+        field: 'action',
+        value: request.action,
+        message: `Action must be one of: ${BULK_POST_ACTIONS.join(', ')}`,
+      });
+    }
+
+    if (request.ids !== undefined) {
+      if (
+        !Array.isArray(request.ids) ||
+        !request.ids.every(id => typeof id === 'string')
+      ) {
+        errors.push({ field: 'ids', message: 'IDs must be a list of strings' });
+      } else if (request.ids.length > MAX_BULK_POSTS) {
+        errors.push({
+          field: 'ids',
+          value: request.ids.length,
+          message: `At most ${MAX_BULK_POSTS} posts can be changed at once`,
+        });
+      }
+    } else if (!request.filter || typeof request.filter !== 'object') {
+      errors.push({
+        field: 'ids',
+        message: 'Either ids or a filter is required',
+      });
+    }
+
+    if (request.action === 'schedule' && !request.scheduled_for) {
+      errors.push({
+        field: 'scheduled_for',
+        message: 'A scheduled date is required',
+      });
+    }
+
+    if (
+      request.action === 'cancel' &&
+      request.scope !== undefined &&
+      !['this', 'following'].includes(request.scope)
+    ) {
+      errors.push({
+        field: 'scope',
+        value: request.scope,
+        message: "Scope must be 'this' or 'following'",
+      });
+    }
+
+    if (request.action === 'reassign-workspace' && !request.workspace_id) {
+      errors.push({
+        field: 'workspace_id',
+        message: 'A target workspace is required',
+      });
+    }
+
+    if (request.action === 'retag') {
+      if (
+        !Array.isArray(request.tag_ids) ||
+        !request.tag_ids.every(tagId => typeof tagId === 'string')
+      ) {
+        errors.push({
+          field: 'tag_ids',
+          message: 'Tag IDs must be a list of strings',
+        });
+      }
+
+      if (
+        request.tag_mode !== undefined &&
+        !['add', 'remove', 'replace'].includes(request.tag_mode)
+      ) {
+        errors.push({
+          field: 'tag_mode',
+          value: request.tag_mode,
+          message: "Tag mode must be 'add', 'remove' or 'replace'",
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid bulk request', errors);
+    }
+  }
+
+  /**
+   * Run a bulk action on one post, returning the post unless it was deleted
+   */
+  private async applyBulkAction(
+    userId: string,
+    postId: string,
+    request: BulkPostRequest
+  ): Promise<Post | null> {
+    switch (request.action) {
+      case 'schedule':
+        return await this.schedulePost(
+          userId,
+          postId,
+          request.scheduled_for as string,
+          request.social_account_ids
+        );
+      case 'cancel':
+        return await this.cancelScheduledPost(userId, postId, request.scope);
+      case 'delete':
+        await this.deletePost(userId, postId);
+        return null;
+      case 'reassign-workspace':
+        return await this.reassignPostWorkspace(
+          userId,
+          postId,
+          request.workspace_id as string
+        );
+      case 'retag':
+        return await this.updatePostTags(
+          userId,
+          postId,
+          request.tag_ids as string[],
+          request.tag_mode
+        );
+    }
+  }
+
+  /**
+   * Find how many of the requested posts the plan still allows, along with
+   * why the rest are refused
+   */
+  private async countAllowedPosts(
+    userId: string,
+    requested: number
+  ): Promise<{ count: number; reason: string }> {
+    const check = await this.billingService.canCreatePost(userId, requested);
+    const reason = check.reason || 'Unable to create post due to plan limits';
+    if (check.canCreate) {
+      return { count: requested, reason };
+    }
+
+    // Search for the largest batch that still fits within the limit
+    let low = 0;
+    let high = requested - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const { canCreate } = await this.billingService.canCreatePost(
+        userId,
+        middle
+      );
+      if (canCreate) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { count: low, reason };
+  }
+
+  /**
+   * Check plan limits before creating several posts at once
+   */
+  private async assertCanCreatePosts(
+    userId: string,
+    count: number
+  ): Promise<void> {
+    if (count <= 0) {
+      return;
+    }
+
+    const canCreate = await this.billingService.canCreatePost(userId, count);
+    if (!canCreate.canCreate) {
+      throw new Error(
+        canCreate.reason || 'Unable to create post due to plan limits'
+      );
+    }
+  }
+
+  /**
+   * Copy the publishable fields of a post for new occurrences
+   */
+  private toSeriesTemplate(post: Post): Partial<Post> {
+    const template: Partial<Post> = {
+      user_id: post.user_id,
+      media_urls: post.media_urls,
+      settings: post.settings,
+    };
+
+    if (post.workspace_id) {
+      template.workspace_id = post.workspace_id;
+    }
+
+    if (post.title) {
+      template.title = post.title;
+    }
+
+    if (post.content) {
+      template.content = post.content;
+    }
+
+    if (post.social_account_ids) {
+      template.social_account_ids = post.social_account_ids;
+    }
+
+    if (post.variants) {
+      template.variants = post.variants;
+    }
+
+    if (post.parts) {
+      template.parts = post.parts;
+    }
+
+    return template;
+  }
+
+  /**
+   * Build posts for a run of occurrences in a series. The template carries
+   * their status, so that it comes from the workspace's approval rules.
+   */
+  private buildSeriesPosts(
+    template: Partial<Post>,
+    seriesId: string,
+    rule: RecurrenceRule,
+    occurrences: Date[],
+    firstIndex: number
+  ): Partial<Post>[] {
+    return occurrences.map((occursAt, index) => ({
+      ...template,
+      scheduled_for: occursAt.toISOString(),
+      recurrence: {
+        series_id: seriesId,
+        rule,
+        occurrence_index: firstIndex + index,
+      },
+    }));
+  }
+
+  /**
+   * Reject variants that are malformed or target accounts the post does not use
+   */
+  private assertValidVariants(
+    variants: PostVariants | undefined,
+    socialAccountIds: string[] = []
+  ): void {
+    if (variants === undefined) {
+      return;
+    }
+
+    const errors = validatePostVariants(variants, socialAccountIds);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid post variants', errors);
+    }
+  }
+
+  /**
+   * Reject malformed parts and threads longer than any platform accepts
+   */
+  private assertValidParts(
+    parts: Array<CreatePostPartDto | UpdatePostPartDto> | undefined,
+    isNew: boolean = true
+  ): void {
+    if (!parts) {
+      return;
+    }
+
+    if (!Array.isArray(parts) || parts.length > MAX_POST_PARTS) {
+      throw new ValidationError('Invalid post parts', [
+        {
+          field: 'parts',
+          message: `Parts must be a list of at most ${MAX_POST_PARTS} entries`,
+        },
+      ]);
+    }
+
+    const errors = parts.flatMap((part, index) =>
+      validatePostPart(part, `parts[${index}]`, isNew)
+    );
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid post parts', errors);
+    }
+  }
+
+  /**
+   * Content can be edited on drafts, failed posts and occurrences that
+   * are still waiting to be published
+   */
+  private assertEditable(post: Post): void {
+    const editable =
+      ['DRAFT', 'FAILED'].includes(post.status) ||
+      (post.recurrence !== undefined && this.isPendingOccurrence(post));
+
+    if (!editable) {
+      throw new Error(`Cannot update post in ${post.status} status`);
+    }
+  }
+
+  /**
+   * Store a post's parts, re-checking platform rules if it is already scheduled
+   */
+  private async savePostParts(
+    userId: string,
+    post: Post,
+    parts: PostPart[]
+  ): Promise<Post> {
+    if (post.status === 'SCHEDULED') {
+      await this.assertPublishable(
+        userId,
+        post.workspace_id,
+        { ...post, parts },
+        post.social_account_ids
+      );
+    }
+
+    return await this.saveRevisedPost(userId, post, { parts });
+  }
+
+  /**
+   * Check that a post can be scheduled for a date: the date is in the
+   * future, and the post has targets whose platform rules it meets.
+   * Returns the parsed date.
+   */
+  private async assertSchedulable(
+    userId: string,
+    post: Post,
+    scheduledDate: string | null | undefined,
+    targets: string[]
+  ): Promise<Date> {
+    const scheduledFor = new Date(scheduledDate ?? '');
+    if (isNaN(scheduledFor.getTime()) || scheduledFor <= new Date()) {
+      throw new Error('Scheduled date must be in the future');
+    }
+
+    // The dispatcher publishes to the post's social accounts when it is due
+    if (targets.length === 0) {
+      throw new Error(
+        'At least one social account is required to schedule a post'
+      );
+    }
+
+    await this.assertPublishable(userId, post.workspace_id, post, targets);
+    return scheduledFor;
+  }
+
+  /**
+   * Check a post against the rules of each platform it will be published to,
+   * returning the resolved social accounts
+   */
+  private async assertPublishable(
+    userId: string,
+    workspaceId: string | undefined,
+    post: PublishableContent,
+    socialAccountIds: string[] = []
+  ): Promise<SocialAccount[]> {
+    if (socialAccountIds.length === 0) {
+      return [];
+    }
+
+    const socialAccounts =
+      await this.socialTokensService.getSocialAccountsForPublishing(
+        userId,
+        workspaceId || userId,
+        socialAccountIds
+      );
+
+    const errors = validateForPlatforms(post, socialAccounts);
+    if (errors.length > 0) {
+      throw new ValidationError(
+        'Post does not meet platform requirements',
+        errors
+      );
+    }
+
+    return socialAccounts;
+  }
+
+  /**
+   * Store per-target results from a webhook, returning the post status
+   * they add up to
+   */
+  private async recordPlatformResults(
+    post: Post,
+    platformResults: unknown[] | undefined
+  ): Promise<Post['status'] | null> {
+    const results = (platformResults ?? [])
+      .map(toPlatformResult)
+      .filter((result): result is PlatformResult => result !== null);
+    if (results.length === 0) {
+      return null;
+    }
+
+    let rows = await supabaseService.getPostPlatforms(post.id);
+
+    // Posts sent before targets were tracked get their rows on first report
+    if (rows.length === 0 && post.social_account_ids?.length) {
+      await recordDispatchedPlatforms(
+        post.id,
+        post.social_account_ids,
+        post.postiz_post_id ?? ''
+      );
+      rows = await supabaseService.getPostPlatforms(post.id);
+    }
+
+    for (const result of results) {
+      const row = matchPlatformRow(rows, result);
+      if (!row || !result.status) continue;
+
+      const updates: Partial<PostPlatform> = { status: result.status };
+      if (result.platformPostId) {
+        updates.platform_post_id = result.platformPostId;
+      }
+      if (result.url) updates.public_url = result.url;
+      if (result.error) updates.error_message = result.error;
+      if (result.status === 'PUBLISHED') {
+        updates.published_at = new Date(result.publishedAt ?? Date.now());
       }
 
-      console.log(`Post ${postId} updated from webhook - status: ${status}`);
+      const updated = await supabaseService.updatePostPlatform(row.id, updates);
+      // Updates come back without the joined social account
+      rows = rows.map(entry => {
+        if (entry.id !== row.id) return entry;
+        const merged: PostPlatform = { ...entry, ...updated };
+        if (entry.social_account) merged.social_account = entry.social_account;
+        return merged;
+      });
+    }
 
-    } catch (error: any) {
-      console.error(`Error handling Postiz webhook for post ${postId}:`, error);
-      throw error;
+    return derivePublishStatus(rows);
+  }
+
+  /**
+   * Whether a post was queued and has not been handed to Postiz
+   */
+  private isQueued(post: Post): boolean {
+    return post.queued === true && !post.postiz_post_id;
+  }
+
+  /**
+   * Get a workspace's posting schedule and time zone, or null when the
+   * schedule has no usable slots
+   */
+  private async getPostingSchedule(
+    workspaceId: string
+  ): Promise<{ schedule: Partial<PostingSchedule>; timeZone: string } | null> {
+    const settings = await db.findWorkspaceSettings(workspaceId);
+    const schedule = settings?.default_posting_schedule;
+    if (!hasPostingSlots(schedule)) {
+      return null;
+    }
+
+    const timeZone =
+      settings?.timezone && isValidTimeZone(settings.timezone)
+        ? settings.timezone
+        : DEFAULT_TIMEZONE;
+    return { schedule, timeZone };
+  }
+
+  /**
+   * Move a workspace's queued posts, whoever queued them, into the earliest
+   * free slots, keeping their order unless a new one is given. Slots held
+   * by other scheduled posts are left alone.
+   */
+  private async reflowQueue(
+    workspaceId: string,
+    order?: string[]
+  ): Promise<Post[]> {
+    const now = new Date();
+    const upcoming = await db.findWorkspaceUpcomingPosts(
+      workspaceId,
+      now.toISOString()
+    );
+    let queue = upcoming.filter(post => this.isQueued(post));
+
+    if (order) {
+      const ids = new Set(order);
+      if (
+        ids.size !== order.length ||
+        order.length !== queue.length ||
+        !queue.every(post => ids.has(post.id))
+      ) {
+        throw new ValidationError('Invalid queue order', [
+          {
+            field: 'post_ids',
+            message: 'Must list every queued post exactly once',
+          },
+        ]);
+      }
+
+      const byId = new Map(queue.map(post => [post.id, post]));
+      queue = order.map(id => byId.get(id) as Post);
+    }
+
+    const postingSchedule = await this.getPostingSchedule(workspaceId);
+    if (!postingSchedule) {
+      // Without slots to move into, queued posts keep their times
+      if (order) {
+        throw new Error('Workspace has no posting slots configured');
+      }
+      return queue;
+    }
+
+    const queuedIds = new Set(queue.map(post => post.id));
+    const taken = new Set(
+      upcoming
+        .filter(post => !queuedIds.has(post.id))
+        .map(post => Date.parse(post.scheduled_for as string))
+    );
+    const slots = findFreeSlots(
+      postingSchedule.schedule,
+      postingSchedule.timeZone,
+      now,
+      queue.length,
+      taken
+    );
+
+    const reflowed: Post[] = [];
+    for (const [index, post] of queue.entries()) {
+      const slot = slots[index];
+      // Posts past the lookahead window keep their current time
+      if (
+        !slot ||
+        Date.parse(post.scheduled_for as string) === slot.getTime()
+      ) {
+        reflowed.push(post);
+        continue;
+      }
+
+      reflowed.push(
+        await db.updatePost(post.id, post.user_id, {
+          scheduled_for: slot.toISOString(),
+        })
+      );
+    }
+
+    return reflowed;
+  }
+
+  /**
+   * Update a post and record any content changes as a new revision.
+   * Content changes to a scheduled post send it back for approval when the
+   * workspace requires it, so the approved text is the text that goes out.
+   */
+  private async saveRevisedPost(
+    userId: string,
+    post: Post,
+    updates: Partial<Post>
+  ): Promise<Post> {
+    if (
+      post.status === 'SCHEDULED' &&
+      updates.status === undefined &&
+      Object.keys(diffPostRevision(post, { ...post, ...updates })).length > 0
+    ) {
+      updates = {
+        ...updates,
+        ...(await this.getSubmissionState(userId, post.workspace_id)),
+      };
+    }
+
+    const updatedPost = await db.updatePost(post.id, userId, updates);
+
+    const changes = diffPostRevision(post, updatedPost);
+    if (Object.keys(changes).length > 0) {
+      const latest = await db.findLatestPostRevisionNumber(post.id);
+      await db.createPostRevision({
+        post_id: post.id,
+        revision: latest + 1,
+        author_id: userId,
+        changes,
+      });
+    }
+
+    return updatedPost;
+  }
+
+  /**
+   * Whether a member's posts must be approved before they go out. Only
+   * applies in workspaces that have turned off `auto_approve_posts`.
+   */
+  private async requiresApproval(
+    userId: string,
+    workspaceId?: string
+  ): Promise<boolean> {
+    if (!workspaceId) {
+      return false;
+    }
+
+    const settings = await db.findWorkspaceSettings(workspaceId);
+    if (settings?.auto_approve_posts !== false) {
+      return false;
+    }
+
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    return !WorkspacePermissionManager.hasPermission(role, 'canApprovePosts');
+  }
+
+  /**
+   * Status a post takes when submitted for publishing, along with its
+   * approval request when it has to be reviewed first
+   */
+  private async getSubmissionState(
+    userId: string,
+    workspaceId?: string
+  ): Promise<Pick<Post, 'status' | 'approval'>> {
+    if (!(await this.requiresApproval(userId, workspaceId))) {
+      return { status: 'SCHEDULED' };
+    }
+
+    return {
+      status: 'PENDING_APPROVAL',
+      approval: {
+        requested_by: userId,
+        requested_at: new Date().toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Check that tags and a campaign being assigned to a post belong to
+   * its workspace
+   */
+  private async assertValidLabels(
+    workspaceId: string | undefined,
+    tagIds?: string[],
+    campaignId?: string | null
+  ): Promise<void> {
+    const errors: ErrorDetails[] = [];
+
+    if (tagIds !== undefined && !Array.isArray(tagIds)) {
+      errors.push({ field: 'tag_ids', message: 'Tag IDs must be an array' });
+    } else if (tagIds?.length) {
+      const tags = workspaceId
+        ? await db.findWorkspacePostTags(workspaceId)
+        : [];
+      const known = new Set(tags.map(tag => tag.id));
+      tagIds
+        .filter(tagId => !known.has(tagId))
+        .forEach(tagId => {
+          errors.push({
+            field: 'tag_ids',
+            value: tagId,
+            message: 'Tag does not exist in this workspace',
+          });
+        });
+    }
+
+    if (campaignId) {
+      const campaign = await db.findCampaign(campaignId);
+      if (!workspaceId || campaign?.workspace_id !== workspaceId) {
+        errors.push({
+          field: 'campaign_id',
+          value: campaignId,
+          message: 'Campaign does not exist in this workspace',
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid tags or campaign', errors);
+    }
+  }
+
+  /**
+   * Fetch a post the user wrote, or one from a workspace they belong to
+   */
+  private async getReadablePost(userId: string, postId: string): Promise<Post> {
+    const post =
+      (await db.findPostById(postId, userId)) ??
+      (await db.findWorkspacePost(postId));
+    if (!post) {
+      throw new Error('Post not found');
+    }
+
+    if (post.workspace_id) {
+      const role = await db.findWorkspaceMemberRole(post.workspace_id, userId);
+      if (!role) {
+        // Don't reveal posts from workspaces the user is not part of
+        throw new Error('Post not found');
+      }
+    }
+
+    return post;
+  }
+
+  /**
+   * Social accounts connected in a workspace, or the user's personal
+   * accounts when there is no workspace
+   */
+  private async getAvailableAccounts(
+    userId: string,
+    workspaceId: string | undefined
+  ): Promise<SocialAccount[]> {
+    if (workspaceId) {
+      return await this.socialTokensService.getWorkspaceConnectedPlatforms(
+        workspaceId
+      );
+    }
+
+    // Personal accounts are stored under the user's own ID
+    const userAccounts =
+      await this.socialTokensService.getUserConnectedPlatforms(userId);
+    return userAccounts.filter(account => account.workspaceId === userId);
+  }
+
+  /**
+   * Check that remapped social accounts are connected in the workspace a
+   * post is being copied to
+   */
+  private async assertAccountsInWorkspace(
+    userId: string,
+    workspaceId: string | undefined,
+    accountMap: Record<string, string>
+  ): Promise<void> {
+    const accounts = await this.getAvailableAccounts(userId, workspaceId);
+    const accountIds = new Set(accounts.map(account => account.id));
+
+    const errors: ErrorDetails[] = Object.entries(accountMap)
+      .filter(([, targetId]) => !accountIds.has(targetId))
+      .map(([sourceId, targetId]) => ({
+        field: `social_account_map.${sourceId}`,
+        value: targetId,
+        message: 'Social account is not connected in the target workspace',
+      }));
+
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid social account mapping', errors);
+    }
+  }
+
+  /**
+   * Check that a user may create and schedule posts in a workspace. Posts
+   * outside a workspace are the user's own.
+   */
+  private async assertCanCreateInWorkspace(
+    userId: string,
+    workspaceId?: string
+  ): Promise<void> {
+    if (!workspaceId) {
+      return;
+    }
+
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    WorkspacePermissionManager.requirePermission(
+      role,
+      'canCreatePosts',
+      'create posts'
+    );
+  }
+
+  /**
+   * Check that a user may approve posts in a workspace
+   */
+  private async assertCanApprovePosts(
+    userId: string,
+    workspaceId: string
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+
+    WorkspacePermissionManager.requirePermission(
+      role,
+      'canApprovePosts',
+      'approve posts'
+    );
+  }
+
+  /**
+   * Fetch a post awaiting approval for a reviewer, who need not be its author
+   */
+  private async getPostForReview(
+    userId: string,
+    postId: string
+  ): Promise<Post> {
+    const post = await db.findWorkspacePost(postId);
+    if (!post?.workspace_id) {
+      throw new NotFoundError('Post', postId);
+    }
+
+    await this.assertCanApprovePosts(userId, post.workspace_id);
+
+    if (post.status !== 'PENDING_APPROVAL') {
+      throw new Error(`Cannot review post in ${post.status} status`);
+    }
+
+    return post;
+  }
+
+  /**
+   * Record a reviewer's decision on a post's approval request
+   */
+  private buildReview(
+    post: Post,
+    reviewerId: string,
+    decision: ApprovalDecision,
+    comment?: string
+  ): PostApproval {
+    const approval: PostApproval = {
+      requested_by: post.approval?.requested_by ?? post.user_id,
+      requested_at: post.approval?.requested_at ?? post.created_at,
+      decision,
+      reviewed_by: reviewerId,
+      reviewed_at: new Date().toISOString(),
+    };
+
+    if (comment) {
+      approval.comment = comment;
+    }
+
+    return approval;
+  }
+
+  /**
+   * Apply a review to every occurrence of a series still awaiting approval,
+   * returning the reviewed post
+   */
+  private async reviewSeries(
+    post: Post,
+    getUpdates: (occurrence: Post) => Partial<Post>
+  ): Promise<Post> {
+    const series = await db.findSeriesPosts(
+      (post.recurrence as PostRecurrence).series_id,
+      post.user_id
+    );
+
+    let reviewedPost = post;
+    for (const occurrence of series) {
+      if (occurrence.status !== 'PENDING_APPROVAL') {
+        continue;
+      }
+
+      const updated = await db.updatePost(
+        occurrence.id,
+        post.user_id,
+        getUpdates(occurrence)
+      );
+      if (updated.id === post.id) {
+        reviewedPost = updated;
+      }
     }
+
+    return reviewedPost;
+  }
+
+  /**
+   * Whether an occurrence is still waiting to be published
+   */
+  private isPendingOccurrence(post: Post): boolean {
+    return post.status === 'SCHEDULED' && !post.postiz_post_id;
   }
 }
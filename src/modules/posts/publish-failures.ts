@@ -0,0 +1,97 @@
+import { db } from '../../database/database.service';
+import { Post, PostRetryState } from '../../types/core-modules.types';
+import { NotificationsService } from '../notifications/notifications.service';
+import { recordFailedAttempt, resolveRetryPolicy } from './retry';
+
+export interface PublishFailureOutcome {
+  retry: PostRetryState;
+  // Status and retry fields to save on the post
+  updates: Partial<Post>;
+}
+
+/**
+ * Handles posts that failed to publish, whether the dispatcher failed to
+ * hand them to Postiz or Postiz reported the failure later. Transient
+ * failures go back to the dispatcher after the workspace's backoff; the
+ * author is told once no retries are left.
+ */
+export class PublishFailureHandler {
+  private readonly notificationsService: Pick<NotificationsService, 'notify'>;
+
+  constructor(notificationsService?: Pick<NotificationsService, 'notify'>) {
+    this.notificationsService =
+      notificationsService ?? new NotificationsService();
+  }
+
+  /**
+   * Record a failed publishing attempt, returning the updates that either
+   * reschedule the post for a retry or fail it
+   */
+  async recordFailure(
+    post: Post,
+    error: string,
+    failedAt: Date
+  ): Promise<PublishFailureOutcome> {
+    const settings = post.workspace_id
+      ? await db.findWorkspaceSettings(post.workspace_id)
+      : null;
+
+    const retry = recordFailedAttempt(
+      post.retry,
+      resolveRetryPolicy(settings?.retry_policy),
+      error,
+      failedAt
+    );
+
+    if (!retry.next_retry_at) {
+      return { retry, updates: { status: 'FAILED', retry } };
+    }
+
+    return {
+      retry,
+      updates: {
+        status: 'SCHEDULED',
+        scheduled_for: retry.next_retry_at,
+        retry,
+        // The dispatcher only picks up posts not yet sent to Postiz
+        postiz_post_id: null,
+        queued: false,
+      },
+    };
+  }
+
+  /**
+   * Let the author know a post failed for good
+   */
+  async notifyIfExhausted(post: Post, retry: PostRetryState): Promise<void> {
+    if (!retry.exhausted_at) {
+      return;
+    }
+
+    const attempts = retry.attempts.length;
+    const lastAttempt = retry.attempts[attempts - 1];
+
+    try {
+      await this.notificationsService.notify({
+        user_id: post.user_id,
+        ...(post.workspace_id ? { workspace_id: post.workspace_id } : {}),
+        type: 'post_failed',
+        title: 'Post failed to publish',
+        message:
+          attempts > 1
+            ? `Your post failed to publish after ${attempts} attempts: ${lastAttempt?.error}`
+            : `Your post failed to publish: ${lastAttempt?.error}`,
+        data: {
+          post_id: post.id,
+          attempts,
+          error_class: lastAttempt?.error_class,
+        },
+      });
+    } catch (error) {
+      console.error(
+        `Failed to send failure notification for post ${post.id}:`,
+        error
+      );
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  LocalDate,
+  addLocalDays,
+  getLocalWeekday,
+  getZonedDateParts,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+import { WorkspaceSettings } from '../workspace/workspace.types';
+
+export type PostingSchedule = NonNullable<
+  WorkspaceSettings['default_posting_schedule']
+>;
+
+// How far ahead to look for free slots before giving up
+export const QUEUE_LOOKAHEAD_DAYS = 90;
+
+// Indexed by weekday, 0 = Sunday
+const WEEKDAY_KEYS: (keyof PostingSchedule)[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+/**
+ * Read an "HH:MM" slot time, returning minutes after midnight
+ */
+const parseSlotTime = (time: string): number | null => {
+  const match = /^([01]\d|2[0-3]):([0-5]\d)$/.exec(time);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Get a weekday's slot times in order, as minutes after midnight
+ */
+const getWeekdaySlots = (
+  schedule: Partial<PostingSchedule>,
+  weekday: number
+): number[] => {
+  const entry = schedule[WEEKDAY_KEYS[weekday] ?? 'sunday'];
+  if (!entry?.enabled || !Array.isArray(entry.times)) {
+    return [];
+  }
+
+  const minutes = entry.times
+    .map(parseSlotTime)
+    .filter((value): value is number => value !== null);
+  return [...new Set(minutes)].sort((a, b) => a - b);
+};
+
+/**
+ * Whether a schedule has at least one usable slot in the week
+ */
+export const hasPostingSlots = (
+  schedule: Partial<PostingSchedule> | undefined
+): schedule is Partial<PostingSchedule> => {
+  if (!schedule) {
+    return false;
+  }
+
+  return WEEKDAY_KEYS.some(
+    (_, weekday) => getWeekdaySlots(schedule, weekday).length > 0
+  );
+};
+
+/**
+ * Find the next free posting slots after a given time. Slot times are
+ * wall-clock times in the workspace's time zone; taken slots are given
+ * as epoch milliseconds.
+ */
+export const findFreeSlots = (
+  schedule: Partial<PostingSchedule>,
+  timeZone: string,
+  from: Date,
+  count: number,
+  taken: Set<number>
+): Date[] => {
+  const slots: Date[] = [];
+  const used = new Set(taken);
+  const start = getZonedDateParts(from, timeZone);
+
+  for (
+    let offset = 0;
+    offset < QUEUE_LOOKAHEAD_DAYS && slots.length < count;
+    offset++
+  ) {
+    const date: LocalDate = addLocalDays(start, offset);
+
+    for (const minutes of getWeekdaySlots(schedule, getLocalWeekday(date))) {
+      const slot = zonedTimeToUtc(
+        {
+          year: date.year,
+          month: date.month,
+          day: date.day,
+          hour: Math.floor(minutes / 60),
+          minute: minutes % 60,
+        },
+        timeZone
+      );
+
+      if (slot <= from || used.has(slot.getTime())) continue;
+
+      used.add(slot.getTime());
+      slots.push(slot);
+      if (slots.length === count) break;
+    }
+  }
+
+  return slots;
+};
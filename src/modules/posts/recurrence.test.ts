@@ -0,0 +1,145 @@
+import { RecurrenceRule } from '../../types/core-modules.types';
+import {
+  generateOccurrences,
+  MAX_RECURRENCE_OCCURRENCES,
+  validateRecurrenceRule,
+} from './recurrence';
+
+// A Monday
+const STARTS_AT = new Date('2026-03-02T12:00:00.000Z');
+
+const expand = (
+  rule: RecurrenceRule,
+  startsAt = STARTS_AT,
+  timeZone = 'UTC'
+): string[] =>
+  generateOccurrences(rule, startsAt, timeZone).map(date => date.toISOString());
+
+describe('validateRecurrenceRule', () => {
+  it('accepts a complete rule', () => {
+    expect(
+      validateRecurrenceRule(
+        {
+          frequency: 'weekly',
+          interval: 2,
+          by_weekday: ['MO', 'TH'],
+          until: '2026-06-01T00:00:00.000Z',
+          timezone: 'Europe/Berlin',
+        },
+        STARTS_AT
+      )
+    ).toEqual([]);
+  });
+
+  it('requires either count or until', () => {
+    const errors = validateRecurrenceRule({ frequency: 'daily' }, STARTS_AT);
+    expect(errors.map(error => error.field)).toEqual(['recurrence']);
+  });
+
+  it('reports each invalid field', () => {
+    const errors = validateRecurrenceRule(
+      {
+        frequency: 'monthly',
+        interval: 0,
+        by_weekday: ['MO'],
+        count: MAX_RECURRENCE_OCCURRENCES + 1,
+        timezone: 'Nowhere/Special',
+      },
+      STARTS_AT
+    );
+    expect(errors.map(error => error.field)).toEqual([
+      'recurrence.interval',
+      'recurrence.by_weekday',
+      'recurrence.count',
+      'recurrence.timezone',
+    ]);
+  });
+
+  it('rejects an until date before the first occurrence', () => {
+    const errors = validateRecurrenceRule(
+      { frequency: 'daily', until: '2026-03-01T00:00:00.000Z' },
+      STARTS_AT
+    );
+    expect(errors[0]?.message).toBe('Until must be after the first occurrence');
+  });
+});
+
+describe('generateOccurrences', () => {
+  it('repeats daily at the interval and includes the until date', () => {
+    expect(
+      expand({
+        frequency: 'daily',
+        interval: 2,
+        until: '2026-03-08T12:00:00.000Z',
+      })
+    ).toEqual([
+      '2026-03-02T12:00:00.000Z',
+      '2026-03-04T12:00:00.000Z',
+      '2026-03-06T12:00:00.000Z',
+      '2026-03-08T12:00:00.000Z',
+    ]);
+  });
+
+  it('only uses the listed weekdays for daily rules', () => {
+    expect(
+      expand({ frequency: 'daily', by_weekday: ['SA', 'SU'], count: 3 })
+    ).toEqual([
+      '2026-03-07T12:00:00.000Z',
+      '2026-03-08T12:00:00.000Z',
+      '2026-03-14T12:00:00.000Z',
+    ]);
+  });
+
+  it('expands weekly rules over several weekdays', () => {
+    expect(
+      expand({ frequency: 'weekly', by_weekday: ['FR', 'MO', 'WE'], count: 4 })
+    ).toEqual([
+      '2026-03-02T12:00:00.000Z',
+      '2026-03-04T12:00:00.000Z',
+      '2026-03-06T12:00:00.000Z',
+      '2026-03-09T12:00:00.000Z',
+    ]);
+  });
+
+  it('skips weekdays earlier in the first week than the start', () => {
+    expect(
+      expand(
+        { frequency: 'weekly', by_weekday: ['MO', 'TH'], count: 2 },
+        new Date('2026-03-03T12:00:00.000Z')
+      )
+    ).toEqual(['2026-03-05T12:00:00.000Z', '2026-03-09T12:00:00.000Z']);
+  });
+
+  it('keeps the local time across a DST change', () => {
+    expect(
+      expand(
+        { frequency: 'weekly', count: 3 },
+        new Date('2026-03-02T14:00:00.000Z'),
+        'America/New_York'
+      )
+    ).toEqual([
+      '2026-03-02T14:00:00.000Z',
+      '2026-03-09T13:00:00.000Z',
+      '2026-03-16T13:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the start day', () => {
+    expect(
+      expand(
+        { frequency: 'monthly', count: 3 },
+        new Date('2026-01-31T10:00:00.000Z')
+      )
+    ).toEqual([
+      '2026-01-31T10:00:00.000Z',
+      '2026-03-31T10:00:00.000Z',
+      '2026-05-31T10:00:00.000Z',
+    ]);
+  });
+
+  it('caps a series at the maximum number of occurrences', () => {
+    expect(
+      expand({ frequency: 'daily', until: '2030-01-01T00:00:00.000Z' })
+    ).toHaveLength(MAX_RECURRENCE_OCCURRENCES);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  RecurrenceRule,
+  RecurrenceWeekday,
+} from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+import {
+  LocalDate,
+  addLocalDays,
+  compareLocalDates,
+  getDaysInMonth,
+  getLocalWeekday,
+  getZonedDateParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../../utils/timezone';
+
+// Upper bound on occurrences materialized for a single series
+export const MAX_RECURRENCE_OCCURRENCES = 366;
+
+// Indexed by JavaScript weekday number (0 = Sunday)
+const WEEKDAY_CODES: RecurrenceWeekday[] = [
+  'SU',
+  'MO',
+  'TU',
+  'WE',
+  'TH',
+  'FR',
+  'SA',
+];
+
+const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+
+// Stops runaway loops for sparse rules such as "every 99 days on Mondays"
+const MAX_ITERATIONS = 10000;
+
+/**
+ * Validate a recurrence rule, returning field-level errors
+ */
+export const validateRecurrenceRule = (
+  rule: RecurrenceRule,
+  startsAt: Date
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (!FREQUENCIES.includes(rule.frequency)) {
+    errors.push({
+      field: 'recurrence.frequency',
+      value: rule.frequency,
+      message: `Frequency must be one of: ${FREQUENCIES.join(', ')}`,
+    });
+  }
+
+  if (
+    rule.interval !== undefined &&
+    (!Number.isInteger(rule.interval) ||
+      rule.interval < 1 ||
+      rule.interval > 99)
+  ) {
+    errors.push({
+      field: 'recurrence.interval',
+      value: rule.interval,
+      message: 'Interval must be a whole number between 1 and 99',
+    });
+  }
+
+  if (rule.by_weekday !== undefined) {
+    if (rule.frequency === 'monthly') {
+      errors.push({
+        field: 'recurrence.by_weekday',
+        value: rule.by_weekday,
+        message: 'Weekdays can only be used with daily or weekly recurrence',
+      });
+    } else if (
+      !Array.isArray(rule.by_weekday) ||
+      rule.by_weekday.length === 0 ||
+      rule.by_weekday.some(day => !WEEKDAY_CODES.includes(day))
+    ) {
+      errors.push({
+        field: 'recurrence.by_weekday',
+        value: rule.by_weekday,
+        message: `Weekdays must be a non-empty list of: ${WEEKDAY_CODES.join(', ')}`,
+      });
+    }
+  }
+
+  if (rule.count === undefined && rule.until === undefined) {
+    errors.push({
+      field: 'recurrence',
+      message: 'Either count or until is required',
+    });
+  }
+
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) ||
+      rule.count < 1 ||
+      rule.count > MAX_RECURRENCE_OCCURRENCES)
+  ) {
+    errors.push({
+      field: 'recurrence.count',
+      value: rule.count,
+      message: `Count must be between 1 and ${MAX_RECURRENCE_OCCURRENCES}`,
+    });
+  }
+
+  if (rule.until !== undefined) {
+    const until = new Date(rule.until);
+    if (isNaN(until.getTime())) {
+      errors.push({
+        field: 'recurrence.until',
+        value: rule.until,
+        message: 'Until must be a valid date',
+      });
+    } else if (until < startsAt) {
+      errors.push({
+        field: 'recurrence.until',
+        value: rule.until,
+        message: 'Until must be after the first occurrence',
+      });
+    }
+  }
+
+  if (rule.timezone !== undefined && !isValidTimeZone(rule.timezone)) {
+    errors.push({
+      field: 'recurrence.timezone',
+      value: rule.timezone,
+      message: 'Timezone must be a valid IANA time zone',
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * Expand a recurrence rule into concrete publish times.
+ *
+ * Occurrences keep the wall-clock time of `startsAt` in `timeZone`, so a
+ * weekly 09:00 post stays at 09:00 local time across DST changes. Monthly
+ * rules skip months that do not contain the start day (e.g. the 31st).
+ */
+export const generateOccurrences = (
+  rule: RecurrenceRule,
+  startsAt: Date,
+  timeZone: string
+): Date[] => {
+  const start = getZonedDateParts(startsAt, timeZone);
+  const startDate: LocalDate = {
+    year: start.year,
+    month: start.month,
+    day: start.day,
+  };
+  const interval = rule.interval ?? 1;
+  const until = rule.until ? new Date(rule.until) : null;
+  const limit = Math.min(
+    rule.count ?? MAX_RECURRENCE_OCCURRENCES,
+    MAX_RECURRENCE_OCCURRENCES
+  );
+  const weekdays = (rule.by_weekday ?? [WEEKDAY_CODES[start.weekday]]).map(
+    day => WEEKDAY_CODES.indexOf(day as RecurrenceWeekday)
+  );
+
+  const occurrences: Date[] = [];
+
+  // Returns false once the series is complete
+  const addOccurrence = (date: LocalDate): boolean => {
+    const occursAt = zonedTimeToUtc(
+      {
+        ...date,
+        hour: start.hour,
+        minute: start.minute,
+        second: start.second,
+      },
+      timeZone
+    );
+
+    if (occursAt < startsAt) {
+      return true;
+    }
+
+    if (until && occursAt > until) {
+      return false;
+    }
+
+    occurrences.push(occursAt);
+    return occurrences.length < limit;
+  };
+
+  switch (rule.frequency) {
+    case 'daily':
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const date = addLocalDays(startDate, i * interval);
+        if (rule.by_weekday && !weekdays.includes(getLocalWeekday(date))) {
+          continue;
+        }
+        if (!addOccurrence(date)) break;
+      }
+      break;
+
+    case 'weekly': {
+      // Weeks start on Monday, matching RRULE's default WKST
+      const offsets = weekdays.map(day => (day + 6) % 7).sort((a, b) => a - b);
+      const weekStart = addLocalDays(startDate, -((start.weekday + 6) % 7));
+
+      weeks: for (let week = 0; week < MAX_ITERATIONS; week++) {
+        for (const offset of offsets) {
+          const date = addLocalDays(weekStart, week * interval * 7 + offset);
+          if (compareLocalDates(date, startDate) < 0) {
+            continue;
+          }
+          if (!addOccurrence(date)) break weeks;
+        }
+      }
+      break;
+    }
+
+    case 'monthly':
+      for (let i = 0; i < MAX_ITERATIONS; i++) {
+        const monthIndex = start.month - 1 + i * interval;
+        const year = start.year + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+
+        if (start.day > getDaysInMonth(year, month)) {
+          continue;
+        }
+        if (!addOccurrence({ year, month, day: start.day })) break;
+      }
+      break;
+  }
+
+  return occurrences;
+};
@@ -0,0 +1,89 @@
+import { PostRetryState } from '../../types/core-modules.types';
+import {
+  classifyPostError,
+  DEFAULT_RETRY_POLICY,
+  getRetryDelayMs,
+  recordFailedAttempt,
+  resolveRetryPolicy,
+} from './retry';
+
+const FAILED_AT = new Date('2026-03-02T12:00:00.000Z');
+
+const failRepeatedly = (times: number, maxRetries: number): PostRetryState => {
+  const policy = { ...DEFAULT_RETRY_POLICY, max_retries: maxRetries };
+  let state: PostRetryState | undefined;
+  for (let i = 0; i < times; i++) {
+    state = recordFailedAttempt(state, policy, 'Request timed out', FAILED_AT);
+  }
+  return state as PostRetryState;
+};
+
+describe('classifyPostError', () => {
+  it.each([
+    ['429 Too Many Requests', 'rate_limit'],
+    ['Request timed out', 'timeout'],
+    ['socket hang up', 'network'],
+    ['Invalid access token', 'auth'],
+    ['502 Bad Gateway', 'server_error'],
+    ['Text is too long', 'validation'],
+    ['Something odd happened', 'unknown'],
+  ])('classifies "%s" as %s', (message, errorClass) => {
+    expect(classifyPostError(message)).toBe(errorClass);
+  });
+
+  it('treats a missing message as unknown', () => {
+    expect(classifyPostError(undefined)).toBe('unknown');
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  it('falls back to the defaults for out of range values', () => {
+    expect(
+      resolveRetryPolicy({ max_retries: 50, backoff_multiplier: 0 })
+    ).toEqual(DEFAULT_RETRY_POLICY);
+  });
+
+  it('keeps valid overrides', () => {
+    expect(resolveRetryPolicy({ max_retries: 0 }).max_retries).toBe(0);
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  it('grows the delay by the multiplier up to the cap', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, max_backoff_seconds: 200 };
+    expect(getRetryDelayMs(policy, 1)).toBe(60_000);
+    expect(getRetryDelayMs(policy, 2)).toBe(120_000);
+    expect(getRetryDelayMs(policy, 3)).toBe(200_000);
+  });
+});
+
+describe('recordFailedAttempt', () => {
+  it('attempts a post max_retries + 1 times in total', () => {
+    expect(failRepeatedly(3, 3).next_retry_at).toBeDefined();
+
+    const state = failRepeatedly(4, 3);
+    expect(state.attempts).toHaveLength(4);
+    expect(state.next_retry_at).toBeUndefined();
+    expect(state.exhausted_at).toBe(FAILED_AT.toISOString());
+  });
+
+  it('does not retry when max_retries is 0', () => {
+    expect(failRepeatedly(1, 0).exhausted_at).toBeDefined();
+  });
+
+  it('does not retry permanent errors', () => {
+    const state = recordFailedAttempt(
+      undefined,
+      DEFAULT_RETRY_POLICY,
+      'Invalid access token',
+      FAILED_AT
+    );
+    expect(state.exhausted_at).toBeDefined();
+    expect(state.attempts[0]?.error_class).toBe('auth');
+  });
+
+  it('schedules the first retry after the initial backoff', () => {
+    const state = failRepeatedly(1, 3);
+    expect(state.next_retry_at).toBe('2026-03-02T12:01:00.000Z');
+  });
+});
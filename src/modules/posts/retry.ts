@@ -0,0 +1,162 @@
+import {
+  PostErrorClass,
+  PostRetryAttempt,
+  PostRetryPolicy,
+  PostRetryState,
+} from '../../types/core-modules.types';
+
+export const DEFAULT_RETRY_POLICY: PostRetryPolicy = {
+  max_retries: 3,
+  initial_backoff_seconds: 60,
+  backoff_multiplier: 2,
+  max_backoff_seconds: 3600,
+  transient_errors: ['rate_limit', 'timeout', 'network', 'server_error'],
+};
+
+export const MAX_RETRIES = 10;
+
+const ERROR_CLASSES: PostErrorClass[] = [
+  'rate_limit',
+  'timeout',
+  'network',
+  'server_error',
+  'auth',
+  'validation',
+  'unknown',
+];
+
+// Checked in order, so the more specific classes come first
+const ERROR_PATTERNS: [PostErrorClass, RegExp][] = [
+  ['rate_limit', /rate.?limit|too many requests|\b429\b|quota/i],
+  ['timeout', /timed? ?out|ETIMEDOUT|ESOCKETTIMEDOUT/i],
+  [
+    'network',
+    /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|socket hang up|network/i,
+  ],
+  [
+    'auth',
+    /unauthori[sz]ed|forbidden|\b40[13]\b|token (has )?expired|invalid (access )?token|re-?authenticate/i,
+  ],
+  [
+    'server_error',
+    /\b5\d\d\b|internal server error|bad gateway|service unavailable/i,
+  ],
+  [
+    'validation',
+    /invalid|too long|not allowed|unsupported|\b40[09]\b|\b422\b/i,
+  ],
+];
+
+/**
+ * Classify a publishing error message so the retry policy can tell
+ * transient failures from permanent ones
+ */
+export const classifyPostError = (
+  error: string | undefined
+): PostErrorClass => {
+  if (!error) {
+    return 'unknown';
+  }
+
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(error));
+  return match ? match[0] : 'unknown';
+};
+
+const isWholeNumberIn = (value: unknown, min: number, max: number): boolean =>
+  Number.isInteger(value) &&
+  (value as number) >= min &&
+  (value as number) <= max;
+
+/**
+ * Fill in a workspace's retry policy from the defaults, ignoring values
+ * that are out of range
+ */
+export const resolveRetryPolicy = (
+  policy: Partial<PostRetryPolicy> | undefined
+): PostRetryPolicy => {
+  if (!policy) {
+    return DEFAULT_RETRY_POLICY;
+  }
+
+  const resolved = { ...DEFAULT_RETRY_POLICY };
+
+  if (isWholeNumberIn(policy.max_retries, 0, MAX_RETRIES)) {
+    resolved.max_retries = policy.max_retries as number;
+  }
+
+  if (isWholeNumberIn(policy.initial_backoff_seconds, 1, 86400)) {
+    resolved.initial_backoff_seconds = policy.initial_backoff_seconds as number;
+  }
+
+  if (
+    typeof policy.backoff_multiplier === 'number' &&
+    policy.backoff_multiplier >= 1 &&
+    policy.backoff_multiplier <= 10
+  ) {
+    resolved.backoff_multiplier = policy.backoff_multiplier;
+  }
+
+  if (isWholeNumberIn(policy.max_backoff_seconds, 1, 7 * 86400)) {
+    resolved.max_backoff_seconds = policy.max_backoff_seconds as number;
+  }
+
+  if (Array.isArray(policy.transient_errors)) {
+    resolved.transient_errors = policy.transient_errors.filter(errorClass =>
+      ERROR_CLASSES.includes(errorClass)
+    );
+  }
+
+  return resolved;
+};
+
+/**
+ * Delay before a retry, where `retry` counts from 1
+ */
+export const getRetryDelayMs = (
+  policy: PostRetryPolicy,
+  retry: number
+): number => {
+  const seconds =
+    policy.initial_backoff_seconds * policy.backoff_multiplier ** (retry - 1);
+  return Math.min(seconds, policy.max_backoff_seconds) * 1000;
+};
+
+/**
+ * Record a failed attempt. A retry is planned when the error is transient
+ * and the policy has retries left; otherwise the state is marked
+ * exhausted.
+ */
+export const recordFailedAttempt = (
+  state: PostRetryState | null | undefined,
+  policy: PostRetryPolicy,
+  error: string,
+  failedAt: Date
+): PostRetryState => {
+  const attempts = state?.attempts ?? [];
+  const errorClass = classifyPostError(error);
+  const attempt: PostRetryAttempt = {
+    attempt: attempts.length + 1,
+    error,
+    error_class: errorClass,
+    failed_at: failedAt.toISOString(),
+  };
+
+  // The first attempt is the original publish, not a retry
+  const retriesUsed = attempts.length;
+  if (
+    policy.transient_errors.includes(errorClass) &&
+    retriesUsed < policy.max_retries
+  ) {
+    const delay = getRetryDelayMs(policy, retriesUsed + 1);
+    attempt.retry_at = new Date(failedAt.getTime() + delay).toISOString();
+    return {
+      attempts: [...attempts, attempt],
+      next_retry_at: attempt.retry_at,
+    };
+  }
+
+  return {
+    attempts: [...attempts, attempt],
+    exhausted_at: failedAt.toISOString(),
+  };
+};
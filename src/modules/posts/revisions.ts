@@ -0,0 +1,86 @@
+import {
+  Post,
+  PostRevision,
+  RevisionChange,
+  RevisionField,
+} from '../../types/core-modules.types';
+
+// Post fields whose changes are kept in the revision history
+export const REVISION_FIELDS: RevisionField[] = [
+  'title',
+  'content',
+  'media_urls',
+  'media_metadata',
+  'variants',
+  'parts',
+  'settings',
+];
+
+/**
+ * Compare two stored values. Key order is ignored because the database
+ * does not preserve it for JSON columns.
+ */
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) {
+    return false;
+  }
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((value, index) => isEqual(value, b[index]))
+    );
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(aRecord), ...Object.keys(bRecord)]);
+  return [...keys].every(key => isEqual(aRecord[key], bRecord[key]));
+};
+
+/**
+ * List the tracked fields that differ between two versions of a post
+ */
+export const diffPostRevision = (
+  before: Partial<Post>,
+  after: Partial<Post>
+): PostRevision['changes'] => {
+  const changes: PostRevision['changes'] = {};
+
+  for (const field of REVISION_FIELDS) {
+    const change: RevisionChange = {
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    };
+    if (!isEqual(change.before, change.after)) {
+      changes[field] = change;
+    }
+  }
+
+  return changes;
+};
+
+/**
+ * Work out the updates that return a post to how it was right after a
+ * revision, by undoing every later revision from newest to oldest
+ */
+export const revertToRevision = (
+  revisions: PostRevision[],
+  target: number
+): Partial<Post> => {
+  const state: Record<string, unknown> = {};
+  const later = revisions
+    .filter(revision => revision.revision > target)
+    .sort((a, b) => b.revision - a.revision);
+
+  for (const revision of later) {
+    for (const [field, change] of Object.entries(revision.changes)) {
+      state[field] = change.before;
+    }
+  }
+
+  return state as Partial<Post>;
+};
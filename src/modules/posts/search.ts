@@ -0,0 +1,91 @@
+import { Post, PostSearchFilters } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+/**
+ * Position in the search results, as the last post of the previous page.
+ * Results are ordered by creation time and then ID, so posts created while
+ * paging don't shift later pages.
+ */
+export interface PostCursor {
+  created_at: string;
+  id: string;
+}
+
+const DATE_FILTERS = [
+  'created_from',
+  'created_to',
+  'scheduled_from',
+  'scheduled_to',
+  'published_from',
+  'published_to',
+] as const;
+
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}[T ][\d:.]+(Z|[+-][\d:]+)?$/;
+const ID_PATTERN = /^[0-9a-f-]+$/i;
+
+export const encodeCursor = (post: Pick<Post, 'created_at' | 'id'>): string =>
+  Buffer.from(`${post.created_at}|${post.id}`).toString('base64url');
+
+/**
+ * Read a cursor from a previous page, or null if it is malformed
+ */
+export const decodeCursor = (cursor: string): PostCursor | null => {
+  const [createdAt, id, ...rest] = Buffer.from(cursor, 'base64url')
+    .toString('utf8')
+    .split('|');
+
+  // Cursor values end up in a query filter, so only timestamps and IDs pass
+  if (
+    !createdAt ||
+    !id ||
+    rest.length > 0 ||
+    !TIMESTAMP_PATTERN.test(createdAt) ||
+    isNaN(Date.parse(createdAt)) ||
+    !ID_PATTERN.test(id)
+  ) {
+    return null;
+  }
+
+  return { created_at: createdAt, id };
+};
+
+/**
+ * Validate search filters, returning field-level errors
+ */
+export const validateSearchFilters = (
+  filters: PostSearchFilters
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  DATE_FILTERS.forEach(field => {
+    const value = filters[field];
+    if (value !== undefined && isNaN(Date.parse(value))) {
+      errors.push({ field, value, message: 'Must be a valid date' });
+    }
+  });
+
+  (['created', 'scheduled', 'published'] as const).forEach(prefix => {
+    const from = filters[`${prefix}_from`];
+    const to = filters[`${prefix}_to`];
+    if (from && to && Date.parse(to) < Date.parse(from)) {
+      errors.push({
+        field: `${prefix}_to`,
+        value: to,
+        message: 'End of the range must not be before its start',
+      });
+    }
+  });
+
+  if (filters.author_id && !filters.workspace_id) {
+    errors.push({
+      field: 'author_id',
+      value: filters.author_id,
+      message: 'Filtering by author requires a workspace',
+    });
+  }
+
+  return errors;
+};
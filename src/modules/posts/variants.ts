@@ -0,0 +1,138 @@
+import { PostVariant, PostVariants } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+import { PlatformContentOverride } from '../postiz-integration/postiz-integration.types';
+import { SocialAccount } from '../social-tokens/social-tokens.types';
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validate per-account variants, returning field-level errors.
+ * Every variant must belong to one of the post's social accounts.
+ */
+export const validatePostVariants = (
+  variants: PostVariants,
+  socialAccountIds: string[]
+): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (!isPlainObject(variants)) {
+    return [
+      {
+        field: 'variants',
+        value: variants,
+        message: 'Variants must be an object keyed by social account ID',
+      },
+    ];
+  }
+
+  for (const [accountId, variant] of Object.entries(variants)) {
+    const field = `variants.${accountId}`;
+
+    if (!socialAccountIds.includes(accountId)) {
+      errors.push({
+        field,
+        message: 'Variant does not match any of the post social accounts',
+      });
+    }
+
+    if (!isPlainObject(variant)) {
+      errors.push({
+        field,
+        value: variant,
+        message: 'Variant must be an object',
+      });
+      continue;
+    }
+
+    if (variant.content !== undefined && !isNonEmptyString(variant.content)) {
+      errors.push({
+        field: `${field}.content`,
+        message: 'Variant content must be a non-empty string',
+      });
+    }
+
+    if (
+      variant.media_urls !== undefined &&
+      (!Array.isArray(variant.media_urls) ||
+        !variant.media_urls.every(isNonEmptyString))
+    ) {
+      errors.push({
+        field: `${field}.media_urls`,
+        message: 'Variant media must be a list of URLs',
+      });
+    }
+
+    if (
+      variant.first_comment !== undefined &&
+      !isNonEmptyString(variant.first_comment)
+    ) {
+      errors.push({
+        field: `${field}.first_comment`,
+        message: 'First comment must be a non-empty string',
+      });
+    }
+
+    if (
+      variant.link !== undefined &&
+      !(isNonEmptyString(variant.link) && isValidUrl(variant.link))
+    ) {
+      errors.push({
+        field: `${field}.link`,
+        value: variant.link,
+        message: 'Link must be a valid http(s) URL',
+      });
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Find the variant for a social account, if the post has one
+ */
+export const getVariantForAccount = (
+  variants: PostVariants | undefined,
+  account: Pick<SocialAccount, 'id'>
+): PostVariant | undefined => {
+  return variants?.[account.id];
+};
+
+/**
+ * Convert a post's variants into Postiz overrides keyed by integration ID
+ */
+export const toPlatformOverrides = (
+  variants: PostVariants | undefined,
+  accounts: SocialAccount[]
+): Record<string, PlatformContentOverride> => {
+  const overrides: Record<string, PlatformContentOverride> = {};
+
+  for (const account of accounts) {
+    const variant = getVariantForAccount(variants, account);
+    if (!variant) continue;
+
+    const override: PlatformContentOverride = {};
+    if (variant.content !== undefined) override.content = variant.content;
+    if (variant.media_urls !== undefined) override.media = variant.media_urls;
+    if (variant.first_comment !== undefined) {
+      override.firstComment = variant.first_comment;
+    }
+    if (variant.link !== undefined) override.link = variant.link;
+
+    overrides[account.postizIntegrationId] = override;
+  }
+
+  return overrides;
+};
@@ -0,0 +1,209 @@
+import { config } from '../../common/config';
+import { db } from '../../database/database.service';
+import { EvergreenItem } from '../../types/core-modules.types';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../../utils/timezone';
+import { BillingService } from '../billing/billing.service';
+import {
+  buildEvergreenRepost,
+  EvergreenCandidate,
+  pickEvergreenItems,
+} from '../posts/evergreen';
+import { findFreeSlots, hasPostingSlots } from '../posts/queue';
+import {
+  Clock,
+  EvergreenRecyclerOptions,
+  EvergreenRunResult,
+} from './scheduler.types';
+import { systemClock } from './scheduled-post.store';
+
+export interface EvergreenRecyclerDependencies {
+  clock?: Clock;
+  billingService?: Pick<BillingService, 'canCreatePost' | 'incrementPostUsage'>;
+}
+
+/**
+ * Fills empty posting slots with reposts from each workspace's evergreen
+ * library.
+ *
+ * Only slots within the horizon are filled, so posts queued by members
+ * still get first pick of later slots. Reposts are created as SCHEDULED
+ * posts and published by the dispatcher like any other.
+ */
+export class EvergreenRecycler {
+  private readonly clock: Clock;
+  private readonly billingService: NonNullable<
+    EvergreenRecyclerDependencies['billingService']
+  >;
+  private readonly options: EvergreenRecyclerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    dependencies: EvergreenRecyclerDependencies = {},
+    options: Partial<EvergreenRecyclerOptions> = {}
+  ) {
+    this.clock = dependencies.clock ?? systemClock;
+    this.billingService = dependencies.billingService ?? new BillingService();
+    this.options = {
+      intervalMs: options.intervalMs ?? config.evergreen.intervalMs,
+      horizonHours: options.horizonHours ?? config.evergreen.horizonHours,
+    };
+  }
+
+  /**
+   * Start refilling slots periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        console.error('Evergreen recycler run failed:', error);
+      });
+    }, this.options.intervalMs);
+    this.timer.unref();
+
+    console.log(
+      `Evergreen recycler started (every ${this.options.intervalMs}ms)`
+    );
+  }
+
+  /**
+   * Stop refilling. A run already in progress is allowed to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a single pass over every workspace with an active library
+   */
+  async runOnce(): Promise<EvergreenRunResult> {
+    const result: EvergreenRunResult = { workspaces: 0, reposted: 0 };
+
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      const items = await db.findActiveEvergreenItems();
+      const byWorkspace = new Map<string, EvergreenItem[]>();
+      items.forEach(item => {
+        const workspaceItems = byWorkspace.get(item.workspace_id) ?? [];
+        workspaceItems.push(item);
+        byWorkspace.set(item.workspace_id, workspaceItems);
+      });
+
+      for (const [workspaceId, workspaceItems] of byWorkspace) {
+        result.workspaces++;
+        try {
+          result.reposted += await this.refillWorkspace(
+            workspaceId,
+            workspaceItems
+          );
+        } catch (error) {
+          console.error(
+            `Failed to recycle evergreen posts for workspace ${workspaceId}:`,
+            error
+          );
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Fill a workspace's free slots within the horizon, returning how many
+   * reposts were scheduled
+   */
+  private async refillWorkspace(
+    workspaceId: string,
+    items: EvergreenItem[]
+  ): Promise<number> {
+    const settings = await db.findWorkspaceSettings(workspaceId);
+    const schedule = settings?.default_posting_schedule;
+    if (!hasPostingSlots(schedule)) {
+      return 0;
+    }
+
+    const timeZone =
+      settings?.timezone && isValidTimeZone(settings.timezone)
+        ? settings.timezone
+        : DEFAULT_TIMEZONE;
+    const now = this.clock.now();
+    const horizon = now.getTime() + this.options.horizonHours * 60 * 60 * 1000;
+
+    const upcoming = await db.findWorkspaceUpcomingPosts(
+      workspaceId,
+      now.toISOString()
+    );
+    const taken = new Set(
+      upcoming.map(post => Date.parse(post.scheduled_for as string))
+    );
+    const slots = findFreeSlots(
+      schedule,
+      timeZone,
+      now,
+      items.length,
+      taken
+    ).filter(slot => slot.getTime() <= horizon);
+    if (slots.length === 0) {
+      return 0;
+    }
+
+    // Only items whose post is still published can be reposted
+    const candidates: EvergreenCandidate[] = [];
+    for (const item of items) {
+      const source = await db.findWorkspacePost(item.post_id);
+      if (source?.status === 'PUBLISHED') {
+        candidates.push({ item, source });
+      }
+    }
+
+    let reposted = 0;
+    for (const { item, source, slot } of pickEvergreenItems(
+      candidates,
+      slots
+    )) {
+      const { canCreate } = await this.billingService.canCreatePost(
+        source.user_id
+      );
+      if (!canCreate) {
+        continue;
+      }
+
+      // Claim the item first so other instances skip it
+      const claimed = await db.claimEvergreenItem(item, {
+        repost_count: item.repost_count + 1,
+        last_reposted_at: slot.toISOString(),
+      });
+      if (!claimed) {
+        continue;
+      }
+
+      try {
+        await db.createPost(buildEvergreenRepost(item, source, slot));
+      } catch (error) {
+        // Give the item back so it is picked again on the next run
+        await db.claimEvergreenItem(claimed, {
+          repost_count: item.repost_count,
+          last_reposted_at: item.last_reposted_at ?? null,
+        });
+        throw error;
+      }
+      await this.billingService.incrementPostUsage(source.user_id);
+      reposted++;
+    }
+
+    return reposted;
+  }
+}
@@ -0,0 +1,13 @@
+export { PostDispatcher } from './post-dispatcher';
+export type { PostDispatcherDependencies } from './post-dispatcher';
+export { EvergreenRecycler } from './evergreen-recycler';
+export type { EvergreenRecyclerDependencies } from './evergreen-recycler';
+export { TrashPurger } from './trash-purger';
+export { TrialExpirer } from './trial-expirer';
+export type { TrialExpirerDependencies } from './trial-expirer';
+export {
+  SupabaseScheduledPostStore,
+  InMemoryScheduledPostStore,
+  systemClock,
+} from './scheduled-post.store';
+export * from './scheduler.types';
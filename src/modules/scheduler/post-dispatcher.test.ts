@@ -0,0 +1,208 @@
+import { Post } from '../../types/core-modules.types';
+import { PublishFailureHandler } from '../posts/publish-failures';
+import { SocialAccount } from '../social-tokens/social-tokens.types';
+import { PostDispatcher, PostDispatcherDependencies } from './post-dispatcher';
+import { InMemoryScheduledPostStore } from './scheduled-post.store';
+import { Clock } from './scheduler.types';
+
+const NOW = new Date('2026-03-02T12:00:00.000Z');
+
+const buildPost = (overrides: Partial<Post> = {}): Post => ({
+  id: 'post-1',
+  user_id: 'user-1',
+  content: 'Hello world',
+  media_urls: [],
+  social_account_ids: ['account-1'],
+  status: 'SCHEDULED',
+  scheduled_for: '2026-03-02T11:59:00.000Z',
+  settings: {},
+  created_at: '2026-03-01T00:00:00.000Z',
+  updated_at: '2026-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const socialAccount: SocialAccount = {
+  id: 'account-1',
+  userId: 'user-1',
+  platform: 'twitter',
+  postizIntegrationId: 'integration-1',
+  platformUsername: 'poster',
+  isActive: true,
+  connectionMetadata: {},
+  connectedAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const fixedClock = (date: Date): Clock => ({ now: () => new Date(date) });
+
+const setup = (
+  posts: Post[],
+  dependencies: Partial<PostDispatcherDependencies> = {}
+) => {
+  const store = new InMemoryScheduledPostStore(posts);
+  const createPostWithSocialAccounts = jest
+    .fn()
+    .mockResolvedValue({ id: 'postiz-1' });
+  const getSocialAccountsForPublishing = jest
+    .fn()
+    .mockResolvedValue([socialAccount]);
+  const notify = jest.fn().mockResolvedValue(undefined);
+
+  const createDispatcher = (instanceId: string): PostDispatcher =>
+    new PostDispatcher(
+      {
+        store,
+        clock: fixedClock(NOW),
+        postizService: { createPostWithSocialAccounts },
+        socialTokensService: { getSocialAccountsForPublishing },
+        failureHandler: new PublishFailureHandler({ notify }),
+        ...dependencies,
+      },
+      { batchSize: 10, lockTimeoutMs: 10 * 60 * 1000, instanceId }
+    );
+
+  return {
+    store,
+    createPostWithSocialAccounts,
+    notify,
+    dispatcher: createDispatcher('instance-a'),
+    createDispatcher,
+  };
+};
+
+describe('PostDispatcher', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  it('publishes a due post and records its targets', async () => {
+    const { store, dispatcher, createPostWithSocialAccounts } = setup([
+      buildPost(),
+    ]);
+
+    const result = await dispatcher.runOnce();
+
+    expect(result).toMatchObject({ due: 1, claimed: 1, published: 1 });
+    expect(createPostWithSocialAccounts).toHaveBeenCalledTimes(1);
+    const post = store.getPost('post-1');
+    expect(post?.status).toBe('PUBLISHED');
+    expect(post?.postiz_post_id).toBe('postiz-1');
+    expect(post?.published_at).toBe(NOW.toISOString());
+    expect(post?.settings['dispatched_by']).toBe('instance-a');
+    expect(store.getPostPlatforms('post-1')).toEqual(['account-1']);
+  });
+
+  it('leaves posts that are not due yet alone', async () => {
+    const { store, dispatcher } = setup([
+      buildPost({ scheduled_for: '2026-03-02T12:01:00.000Z' }),
+    ]);
+
+    const result = await dispatcher.runOnce();
+
+    expect(result.due).toBe(0);
+    expect(store.getPost('post-1')?.status).toBe('SCHEDULED');
+  });
+
+  it('publishes a post only once when instances race for it', async () => {
+    const { store, createDispatcher, createPostWithSocialAccounts } = setup([
+      buildPost(),
+    ]);
+
+    const results = await Promise.all([
+      createDispatcher('instance-a').runOnce(),
+      createDispatcher('instance-b').runOnce(),
+    ]);
+
+    expect(results.map(result => result.claimed).sort()).toEqual([0, 1]);
+    expect(createPostWithSocialAccounts).toHaveBeenCalledTimes(1);
+    expect(store.getPost('post-1')?.status).toBe('PUBLISHED');
+  });
+
+  it('fails a post on a permanent error and notifies the author', async () => {
+    const { store, dispatcher, createPostWithSocialAccounts, notify } = setup([
+      buildPost(),
+    ]);
+    createPostWithSocialAccounts.mockRejectedValue(
+      new Error('Invalid access token')
+    );
+
+    const result = await dispatcher.runOnce();
+
+    expect(result).toMatchObject({ claimed: 1, published: 0, failed: 1 });
+    const post = store.getPost('post-1');
+    expect(post?.status).toBe('FAILED');
+    expect(post?.settings['error']).toBe('Invalid access token');
+    expect(post?.retry?.exhausted_at).toBe(NOW.toISOString());
+    expect(notify).toHaveBeenCalledTimes(1);
+  });
+
+  it('reschedules a post after a transient error', async () => {
+    const { store, dispatcher, createPostWithSocialAccounts, notify } = setup([
+      buildPost(),
+    ]);
+    createPostWithSocialAccounts.mockRejectedValue(
+      new Error('Request timed out')
+    );
+
+    await dispatcher.runOnce();
+
+    const post = store.getPost('post-1');
+    expect(post?.status).toBe('SCHEDULED');
+    expect(post?.scheduled_for).toBe('2026-03-02T12:01:00.000Z');
+    expect(notify).not.toHaveBeenCalled();
+  });
+
+  it('fails a post and carries on with the batch when recording the failure throws', async () => {
+    const recordFailure = jest
+      .fn()
+      .mockRejectedValue(new Error('Database unavailable'));
+    const { store, dispatcher, createPostWithSocialAccounts } = setup(
+      [
+        buildPost(),
+        buildPost({ id: 'post-2', scheduled_for: '2026-03-02T11:59:30.000Z' }),
+      ],
+      { failureHandler: { recordFailure, notifyIfExhausted: jest.fn() } }
+    );
+    createPostWithSocialAccounts
+      .mockRejectedValueOnce(new Error('Request timed out'))
+      .mockResolvedValueOnce({ id: 'postiz-2' });
+
+    const result = await dispatcher.runOnce();
+
+    expect(result).toMatchObject({ claimed: 2, published: 1, failed: 1 });
+    expect(store.getPost('post-1')?.status).toBe('FAILED');
+    expect(store.getPost('post-2')?.status).toBe('PUBLISHED');
+  });
+
+  it('fails posts whose dispatch lock has gone stale', async () => {
+    const { store, dispatcher, createPostWithSocialAccounts } = setup([
+      buildPost({
+        status: 'PUBLISHING',
+        settings: {
+          dispatch: {
+            locked_by: 'instance-b',
+            locked_at: '2026-03-02T11:00:00.000Z',
+          },
+        },
+      }),
+      buildPost({
+        id: 'post-2',
+        status: 'PUBLISHING',
+        settings: {
+          dispatch: {
+            locked_by: 'instance-b',
+            locked_at: '2026-03-02T11:55:00.000Z',
+          },
+        },
+      }),
+    ]);
+
+    const result = await dispatcher.runOnce();
+
+    expect(result.recovered).toBe(1);
+    expect(store.getPost('post-1')?.status).toBe('FAILED');
+    expect(store.getPost('post-1')?.settings['error']).toContain('instance-b');
+    expect(store.getPost('post-2')?.status).toBe('PUBLISHING');
+    expect(createPostWithSocialAccounts).not.toHaveBeenCalled();
+  });
+});
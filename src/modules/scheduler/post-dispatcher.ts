@@ -0,0 +1,307 @@
+import * as os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../../common/config';
+import { Post } from '../../types/core-modules.types';
+import { PostizIntegrationService } from '../postiz-integration/postiz-integration.service';
+import { collectPartResults, toThreadPayload } from '../posts/parts';
+import { PublishFailureHandler } from '../posts/publish-failures';
+import { toPlatformOverrides } from '../posts/variants';
+import { SocialTokensService } from '../social-tokens/social-tokens.service';
+import {
+  Clock,
+  DispatchLock,
+  DispatcherOptions,
+  DispatchRunResult,
+  ScheduledPostStore,
+} from './scheduler.types';
+import {
+  SupabaseScheduledPostStore,
+  systemClock,
+} from './scheduled-post.store';
+
+export interface PostDispatcherDependencies {
+  store?: ScheduledPostStore;
+  clock?: Clock;
+  postizService?: Pick<
+    PostizIntegrationService,
+    'createPostWithSocialAccounts'
+  >;
+  socialTokensService?: Pick<
+    SocialTokensService,
+    'getSocialAccountsForPublishing'
+  >;
+  failureHandler?: Pick<
+    PublishFailureHandler,
+    'recordFailure' | 'notifyIfExhausted'
+  >;
+}
+
+/**
+ * Publishes SCHEDULED posts once they become due.
+ *
+ * Each due post is claimed with a conditional SCHEDULED -> PUBLISHING
+ * update, so when several middleware instances poll the same table only
+ * one of them sends a given post to Postiz.
+ */
+export class PostDispatcher {
+  private readonly store: ScheduledPostStore;
+  private readonly clock: Clock;
+  private readonly postizService: NonNullable<
+    PostDispatcherDependencies['postizService']
+  >;
+  private readonly socialTokensService: NonNullable<
+    PostDispatcherDependencies['socialTokensService']
+  >;
+  private readonly failureHandler: NonNullable<
+    PostDispatcherDependencies['failureHandler']
+  >;
+  private readonly options: DispatcherOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    dependencies: PostDispatcherDependencies = {},
+    options: Partial<DispatcherOptions> = {}
+  ) {
+    this.store = dependencies.store ?? new SupabaseScheduledPostStore();
+    this.clock = dependencies.clock ?? systemClock;
+    this.postizService =
+      dependencies.postizService ?? new PostizIntegrationService();
+    this.socialTokensService =
+      dependencies.socialTokensService ?? new SocialTokensService();
+    this.failureHandler =
+      dependencies.failureHandler ?? new PublishFailureHandler();
+    this.options = {
+      intervalMs: options.intervalMs ?? config.scheduler.intervalMs,
+      batchSize: options.batchSize ?? config.scheduler.batchSize,
+      lockTimeoutMs: options.lockTimeoutMs ?? config.scheduler.lockTimeoutMs,
+      instanceId:
+        options.instanceId ?? `${os.hostname()}-${process.pid}-${uuidv4()}`,
+    };
+  }
+
+  /**
+   * Start polling for due posts
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        console.error('Post dispatcher run failed:', error);
+      });
+    }, this.options.intervalMs);
+    this.timer.unref();
+
+    console.log(
+      `Post dispatcher started (${this.options.instanceId}, every ${this.options.intervalMs}ms)`
+    );
+  }
+
+  /**
+   * Stop polling. A run already in progress is allowed to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run a single dispatch pass: recover stale locks, then publish due posts
+   */
+  async runOnce(): Promise<DispatchRunResult> {
+    const result: DispatchRunResult = {
+      due: 0,
+      claimed: 0,
+      published: 0,
+      failed: 0,
+      recovered: 0,
+    };
+
+    // Skip overlapping runs when a pass takes longer than the interval
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      const now = this.clock.now();
+      result.recovered = await this.recoverStaleLocks(now);
+
+      const duePosts = await this.store.findDuePosts(
+        now,
+        this.options.batchSize
+      );
+      result.due = duePosts.length;
+
+      // One post's failure must not hold up the rest of the batch
+      for (const duePost of duePosts) {
+        try {
+          const post = await this.store.claimPost(duePost, {
+            locked_by: this.options.instanceId,
+            locked_at: now.toISOString(),
+          });
+
+          if (!post) {
+            continue;
+          }
+
+          result.claimed++;
+          if (await this.dispatchPost(post)) {
+            result.published++;
+          } else {
+            result.failed++;
+          }
+        } catch (error) {
+          console.error(
+            `Failed to dispatch scheduled post ${duePost.id}:`,
+            error
+          );
+          result.failed++;
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Send a claimed post to Postiz and record the outcome
+   */
+  private async dispatchPost(post: Post): Promise<boolean> {
+    const workspaceId = post.workspace_id ?? post.user_id;
+    const { dispatch, ...settings } = post.settings;
+    const lock = dispatch as DispatchLock | undefined;
+
+    try {
+      const socialAccountIds = post.social_account_ids ?? [];
+      if (socialAccountIds.length === 0) {
+        throw new Error('Post has no social accounts to publish to');
+      }
+
+      const socialAccounts =
+        await this.socialTokensService.getSocialAccountsForPublishing(
+          post.user_id,
+          workspaceId,
+          socialAccountIds
+        );
+
+      if (socialAccounts.length === 0) {
+        throw new Error('No valid social accounts found for the provided IDs');
+      }
+
+      const postizResponse =
+        await this.postizService.createPostWithSocialAccounts(
+          post.user_id,
+          workspaceId,
+          post.content ?? '',
+          socialAccounts.map(account => account.postizIntegrationId),
+          undefined,
+          post.media_urls,
+          toPlatformOverrides(post.variants, socialAccounts),
+          toThreadPayload(post.parts)
+        );
+
+      await this.store.updatePost(post, {
+        status: 'PUBLISHED',
+        postiz_post_id: postizResponse.id,
+        published_at: this.clock.now().toISOString(),
+        settings: {
+          ...settings,
+          postizResponse,
+          part_results: collectPartResults(post.parts, postizResponse),
+          socialAccounts: socialAccounts.map(account => ({
+            id: account.id,
+            platform: account.platform,
+            platformUsername: account.platformUsername,
+          })),
+          dispatched_by: lock?.locked_by,
+        },
+      });
+
+      // The post has already gone out, so this must not mark it failed
+      try {
+        await this.store.recordPostPlatforms(
+          post,
+          socialAccounts.map(account => account.id),
+          postizResponse.id
+        );
+      } catch (error) {
+        console.error(`Failed to record targets for post ${post.id}:`, error);
+      }
+
+      return true;
+    } catch (error: any) {
+      console.error(`Failed to dispatch scheduled post ${post.id}:`, error);
+      await this.recordDispatchFailure(post, settings, error.message);
+      return false;
+    }
+  }
+
+  /**
+   * Record a failed dispatch. Transient failures go back to SCHEDULED until
+   * the next retry. If the failure can't be handled, the post is failed
+   * outright rather than left locked until the stale-lock sweep.
+   */
+  private async recordDispatchFailure(
+    post: Post,
+    settings: Post['settings'],
+    message: string
+  ): Promise<void> {
+    const failedAt = this.clock.now();
+    const failureSettings = {
+      ...settings,
+      error: message,
+      failed_at: failedAt.toISOString(),
+    };
+
+    try {
+      const { retry, updates } = await this.failureHandler.recordFailure(
+        post,
+        message,
+        failedAt
+      );
+      await this.store.updatePost(post, {
+        ...updates,
+        settings: failureSettings,
+      });
+      await this.failureHandler.notifyIfExhausted(post, retry);
+    } catch (error) {
+      console.error(`Failed to record failure of post ${post.id}:`, error);
+      await this.store.updatePost(post, {
+        status: 'FAILED',
+        settings: failureSettings,
+      });
+    }
+  }
+
+  /**
+   * Fail posts whose dispatcher died mid-publish. They are not retried
+   * automatically because Postiz may already have accepted them.
+   */
+  private async recoverStaleLocks(now: Date): Promise<number> {
+    const lockedBefore = new Date(now.getTime() - this.options.lockTimeoutMs);
+    const stalePosts = await this.store.findStalePosts(lockedBefore);
+
+    for (const post of stalePosts) {
+      const { dispatch, ...settings } = post.settings;
+      const lock = dispatch as DispatchLock | undefined;
+      await this.store.updatePost(post, {
+        status: 'FAILED',
+        settings: {
+          ...settings,
+          error: `Dispatch lock held by ${lock?.locked_by} expired before publishing completed`,
+          failed_at: now.toISOString(),
+        },
+      });
+    }
+
+    return stalePosts.length;
+  }
+}
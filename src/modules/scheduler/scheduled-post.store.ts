@@ -0,0 +1,124 @@
+import { Post } from '../../types/core-modules.types';
+import { db } from '../../database/database.service';
+import { recordDispatchedPlatforms } from '../posts/post-platforms';
+import { Clock, DispatchLock, ScheduledPostStore } from './scheduler.types';
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Scheduled post store backed by the `posts` table
+ */
+export class SupabaseScheduledPostStore implements ScheduledPostStore {
+  async findDuePosts(now: Date, limit: number): Promise<Post[]> {
+    return await db.findDueScheduledPosts(now.toISOString(), limit);
+  }
+
+  async claimPost(post: Post, lock: DispatchLock): Promise<Post | null> {
+    return await db.transitionPostStatus(post.id, 'SCHEDULED', {
+      status: 'PUBLISHING',
+      settings: { ...post.settings, dispatch: lock },
+    });
+  }
+
+  async findStalePosts(lockedBefore: Date): Promise<Post[]> {
+    return await db.findStaleDispatchingPosts(lockedBefore.toISOString());
+  }
+
+  async updatePost(post: Post, updates: Partial<Post>): Promise<Post> {
+    return await db.updatePost(post.id, post.user_id, updates);
+  }
+
+  async recordPostPlatforms(
+    post: Post,
+    socialAccountIds: string[],
+    postizPostId: string
+  ): Promise<void> {
+    await recordDispatchedPlatforms(post.id, socialAccountIds, postizPostId);
+  }
+}
+
+/**
+ * In-memory scheduled post store, used for tests and local experiments
+ */
+export class InMemoryScheduledPostStore implements ScheduledPostStore {
+  private posts = new Map<string, Post>();
+  private platforms = new Map<string, string[]>();
+
+  constructor(posts: Post[] = []) {
+    posts.forEach(post => this.posts.set(post.id, { ...post }));
+  }
+
+  getPost(postId: string): Post | undefined {
+    return this.posts.get(postId);
+  }
+
+  getPostPlatforms(postId: string): string[] {
+    return this.platforms.get(postId) ?? [];
+  }
+
+  findDuePosts(now: Date, limit: number): Promise<Post[]> {
+    const duePosts = Array.from(this.posts.values())
+      .filter(
+        post =>
+          post.status === 'SCHEDULED' &&
+          !post.postiz_post_id &&
+          !!post.scheduled_for &&
+          new Date(post.scheduled_for).getTime() <= now.getTime()
+      )
+      .sort(
+        (a, b) =>
+          new Date(a.scheduled_for as string).getTime() -
+          new Date(b.scheduled_for as string).getTime()
+      )
+      .slice(0, limit);
+
+    return Promise.resolve(duePosts);
+  }
+
+  claimPost(post: Post, lock: DispatchLock): Promise<Post | null> {
+    const current = this.posts.get(post.id);
+    if (!current || current.status !== 'SCHEDULED') {
+      return Promise.resolve(null);
+    }
+
+    const claimed: Post = {
+      ...current,
+      status: 'PUBLISHING',
+      settings: { ...current.settings, dispatch: lock },
+      updated_at: lock.locked_at,
+    };
+    this.posts.set(post.id, claimed);
+    return Promise.resolve(claimed);
+  }
+
+  findStalePosts(lockedBefore: Date): Promise<Post[]> {
+    const stalePosts = Array.from(this.posts.values()).filter(post => {
+      const lock = post.settings.dispatch as DispatchLock | undefined;
+      return (
+        post.status === 'PUBLISHING' &&
+        lock !== undefined &&
+        new Date(lock.locked_at).getTime() < lockedBefore.getTime()
+      );
+    });
+
+    return Promise.resolve(stalePosts);
+  }
+
+  updatePost(post: Post, updates: Partial<Post>): Promise<Post> {
+    const current = this.posts.get(post.id);
+    if (!current) {
+      return Promise.reject(new Error('Post not found'));
+    }
+
+    const updated: Post = { ...current, ...updates };
+    this.posts.set(post.id, updated);
+    return Promise.resolve(updated);
+  }
+
+  recordPostPlatforms(post: Post, socialAccountIds: string[]): Promise<void> {
+    this.platforms.set(post.id, [...socialAccountIds]);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,95 @@
+import { Post } from '../../types/core-modules.types';
+
+/**
+ * Source of the current time. Swappable so the dispatcher can be driven
+ * by a fake clock in tests.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Lock metadata written to `settings.dispatch` while a post is publishing
+ */
+export interface DispatchLock {
+  locked_by: string;
+  locked_at: string;
+}
+
+/**
+ * Persistence operations the dispatcher relies on
+ */
+export interface ScheduledPostStore {
+  /**
+   * Scheduled posts whose `scheduled_for` is at or before `now`
+   */
+  findDuePosts(now: Date, limit: number): Promise<Post[]>;
+
+  /**
+   * Move a post from SCHEDULED to PUBLISHING. Resolves to null when the
+   * post was claimed (or changed) by someone else in the meantime.
+   */
+  claimPost(post: Post, lock: DispatchLock): Promise<Post | null>;
+
+  /**
+   * Posts still PUBLISHING whose lock was taken before `lockedBefore`
+   */
+  findStalePosts(lockedBefore: Date): Promise<Post[]>;
+
+  /**
+   * Persist the outcome of a dispatch attempt
+   */
+  updatePost(post: Post, updates: Partial<Post>): Promise<Post>;
+
+  /**
+   * Record the social accounts a post was handed to Postiz for
+   */
+  recordPostPlatforms(
+    post: Post,
+    socialAccountIds: string[],
+    postizPostId: string
+  ): Promise<void>;
+}
+
+export interface DispatcherOptions {
+  intervalMs: number;
+  batchSize: number;
+  lockTimeoutMs: number;
+  instanceId: string;
+}
+
+export interface DispatchRunResult {
+  due: number;
+  claimed: number;
+  published: number;
+  failed: number;
+  recovered: number;
+}
+
+export interface EvergreenRecyclerOptions {
+  intervalMs: number;
+  // Only slots starting within this many hours are filled
+  horizonHours: number;
+}
+
+export interface EvergreenRunResult {
+  workspaces: number;
+  reposted: number;
+}
+
+export interface TrashPurgerOptions {
+  intervalMs: number;
+  retentionDays: number;
+}
+
+export interface TrialExpirerOptions {
+  intervalMs: number;
+  batchSize: number;
+  lockTimeoutMs: number;
+}
+
+export interface TrialExpiryRunResult {
+  ended: number;
+  converted: number;
+  recovered: number;
+}
@@ -0,0 +1,67 @@
+import { config } from '../../common/config';
+import { db } from '../../database/database.service';
+import { Clock, TrashPurgerOptions } from './scheduler.types';
+import { systemClock } from './scheduled-post.store';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently deletes posts that have been in the trash longer than the
+ * retention period
+ */
+export class TrashPurger {
+  private readonly clock: Clock;
+  private readonly options: TrashPurgerOptions;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    dependencies: { clock?: Clock } = {},
+    options: Partial<TrashPurgerOptions> = {}
+  ) {
+    this.clock = dependencies.clock ?? systemClock;
+    this.options = {
+      intervalMs: options.intervalMs ?? config.trash.purgeIntervalMs,
+      retentionDays: options.retentionDays ?? config.trash.retentionDays,
+    };
+  }
+
+  /**
+   * Start purging periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        console.error('Trash purge failed:', error);
+      });
+    }, this.options.intervalMs);
+    this.timer.unref();
+
+    console.log(
+      `Trash purger started (${this.options.retentionDays} day retention, every ${this.options.intervalMs}ms)`
+    );
+  }
+
+  /**
+   * Stop purging
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Purge expired posts once, returning how many were removed
+   */
+  async runOnce(): Promise<number> {
+    const cutoff = new Date(
+      this.clock.now().getTime() - this.options.retentionDays * DAY_MS
+    );
+    return await db.purgeTrashedPosts({ deletedBefore: cutoff.toISOString() });
+  }
+}
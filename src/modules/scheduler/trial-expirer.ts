@@ -0,0 +1,146 @@
+import { config } from '../../common/config';
+import { db } from '../../database/database.service';
+import { BillingService } from '../billing/billing.service';
+import {
+  Clock,
+  TrialExpirerOptions,
+  TrialExpiryRunResult,
+} from './scheduler.types';
+import { systemClock } from './scheduled-post.store';
+
+export interface TrialExpirerDependencies {
+  clock?: Clock;
+  billingService?: Pick<BillingService, 'endTrial' | 'recoverTrial'>;
+}
+
+/**
+ * Ends free trials whose time is up, converting them to paid subscriptions
+ * or moving them back to the Free plan
+ */
+export class TrialExpirer {
+  private readonly clock: Clock;
+  private readonly billingService: NonNullable<
+    TrialExpirerDependencies['billingService']
+  >;
+  private readonly options: TrialExpirerOptions;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(
+    dependencies: TrialExpirerDependencies = {},
+    options: Partial<TrialExpirerOptions> = {}
+  ) {
+    this.clock = dependencies.clock ?? systemClock;
+    this.billingService = dependencies.billingService ?? new BillingService();
+    this.options = {
+      intervalMs: options.intervalMs ?? config.trials.intervalMs,
+      batchSize: options.batchSize ?? config.trials.batchSize,
+      lockTimeoutMs: options.lockTimeoutMs ?? config.trials.lockTimeoutMs,
+    };
+  }
+
+  /**
+   * Start ending trials periodically
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => {
+        console.error('Trial expiry run failed:', error);
+      });
+    }, this.options.intervalMs);
+    this.timer.unref();
+
+    console.log(`Trial expirer started (every ${this.options.intervalMs}ms)`);
+  }
+
+  /**
+   * Stop ending trials. A run already in progress is allowed to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Recover trials whose conversion stalled, then end one batch of trials
+   * that are past their end date
+   */
+  async runOnce(): Promise<TrialExpiryRunResult> {
+    const result: TrialExpiryRunResult = {
+      ended: 0,
+      converted: 0,
+      recovered: 0,
+    };
+
+    if (this.running) {
+      return result;
+    }
+
+    this.running = true;
+    try {
+      result.recovered = await this.recoverStaleTrials(this.clock.now());
+
+      const trials = await db.findEndedTrials(
+        this.clock.now().toISOString(),
+        this.options.batchSize
+      );
+
+      for (const billingInfo of trials) {
+        try {
+          const updated = await this.billingService.endTrial(
+            billingInfo.user_id,
+            this.clock.now()
+          );
+          result.ended++;
+          if (updated.current_plan !== 'FREE') {
+            result.converted++;
+          }
+        } catch (error) {
+          console.error(
+            `Failed to end trial for user ${billingInfo.user_id}:`,
+            error
+          );
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Finish trials whose expirer died mid-conversion. They are not converted
+   * again because the payment may already have gone through.
+   */
+  private async recoverStaleTrials(now: Date): Promise<number> {
+    const convertingBefore = new Date(
+      now.getTime() - this.options.lockTimeoutMs
+    );
+    const staleTrials = await db.findStaleConvertingTrials(
+      convertingBefore.toISOString(),
+      this.options.batchSize
+    );
+
+    let recovered = 0;
+    for (const trial of staleTrials) {
+      try {
+        await this.billingService.recoverTrial(trial.user_id, now);
+        recovered++;
+      } catch (error) {
+        console.error(
+          `Failed to recover trial for user ${trial.user_id}:`,
+          error
+        );
+      }
+    }
+
+    return recovered;
+  }
+}
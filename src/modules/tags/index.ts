@@ -0,0 +1,4 @@
+import { TagsService } from './tags.service';
+
+export { TagsService };
+export * from './tag.validation';
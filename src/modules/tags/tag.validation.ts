@@ -0,0 +1,36 @@
+import { PostTagDto } from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+
+export const MAX_TAG_NAME_LENGTH = 50;
+
+export const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Validate a tag, returning field-level errors
+ */
+export const validateTag = (tag: Partial<PostTagDto>): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (typeof tag.name !== 'string' || !tag.name.trim()) {
+    errors.push({ field: 'name', message: 'Tag name is required' });
+  } else if (tag.name.trim().length > MAX_TAG_NAME_LENGTH) {
+    errors.push({
+      field: 'name',
+      value: tag.name,
+      message: `Tag names can be at most ${MAX_TAG_NAME_LENGTH} characters`,
+    });
+  }
+
+  if (
+    tag.color !== undefined &&
+    (typeof tag.color !== 'string' || !HEX_COLOR_PATTERN.test(tag.color))
+  ) {
+    errors.push({
+      field: 'color',
+      value: tag.color,
+      message: 'Color must be a hex code such as #1a2b3c',
+    });
+  }
+
+  return errors;
+};
@@ -0,0 +1,147 @@
+import { db } from '../../database/database.service';
+import { PostTag, PostTagDto } from '../../types/core-modules.types';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+import { WorkspacePermissionManager } from '../workspace/workspace.permissions';
+import { validateTag } from './tag.validation';
+
+/**
+ * Workspace tag service
+ */
+export class TagsService {
+  /**
+   * Get a workspace's tags
+   */
+  async getTags(userId: string, workspaceId: string): Promise<PostTag[]> {
+    await this.assertMember(workspaceId, userId);
+    return await db.findWorkspacePostTags(workspaceId);
+  }
+
+  /**
+   * Create a tag. Names are unique within a workspace, ignoring case.
+   */
+  async createTag(
+    userId: string,
+    workspaceId: string,
+    tagData: PostTagDto
+  ): Promise<PostTag> {
+    await this.assertCanManage(workspaceId, userId);
+
+    const errors = validateTag(tagData);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid tag', errors);
+    }
+
+    const name = tagData.name.trim();
+    await this.assertNameAvailable(workspaceId, name);
+
+    const record: Omit<PostTag, 'id' | 'created_at' | 'updated_at'> = {
+      workspace_id: workspaceId,
+      name,
+      created_by: userId,
+    };
+    if (tagData.color) record.color = tagData.color;
+
+    return await db.createPostTag(record);
+  }
+
+  /**
+   * Rename or recolor a tag
+   */
+  async updateTag(
+    userId: string,
+    workspaceId: string,
+    tagId: string,
+    updates: Partial<PostTagDto>
+  ): Promise<PostTag> {
+    await this.assertCanManage(workspaceId, userId);
+    const tag = await this.findTag(workspaceId, tagId);
+
+    const errors = validateTag({ name: tag.name, ...updates });
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid tag', errors);
+    }
+
+    const changes: Partial<PostTag> = {};
+    if (updates.name !== undefined) {
+      changes.name = updates.name.trim();
+      await this.assertNameAvailable(workspaceId, changes.name, tagId);
+    }
+    if (updates.color !== undefined) changes.color = updates.color;
+
+    return await db.updatePostTag(tagId, changes);
+  }
+
+  /**
+   * Delete a tag, taking it off every post that has it
+   */
+  async deleteTag(
+    userId: string,
+    workspaceId: string,
+    tagId: string
+  ): Promise<void> {
+    await this.assertCanManage(workspaceId, userId);
+    await this.findTag(workspaceId, tagId);
+    await db.deletePostTag(tagId);
+  }
+
+  /**
+   * Find a tag, checking it belongs to the workspace
+   */
+  private async findTag(workspaceId: string, tagId: string): Promise<PostTag> {
+    const tag = await db.findPostTag(tagId);
+    if (!tag || tag.workspace_id !== workspaceId) {
+      throw new NotFoundError('Tag', tagId);
+    }
+    return tag;
+  }
+
+  private async assertNameAvailable(
+    workspaceId: string,
+    name: string,
+    exceptTagId?: string
+  ): Promise<void> {
+    const tags = await db.findWorkspacePostTags(workspaceId);
+    const taken = tags.some(
+      tag =>
+        tag.id !== exceptTagId && tag.name.toLowerCase() === name.toLowerCase()
+    );
+    if (taken) {
+      throw new ConflictError(`A tag named "${name}" already exists`);
+    }
+  }
+
+  private async assertMember(
+    workspaceId: string,
+    userId: string
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+  }
+
+  // Tags are managed by the members who can create posts
+  private async assertCanManage(
+    workspaceId: string,
+    userId: string
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+    WorkspacePermissionManager.requirePermission(
+      role,
+      'canCreatePosts',
+      'manage tags'
+    );
+  }
+}
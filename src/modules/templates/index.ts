@@ -0,0 +1,4 @@
+import { TemplatesService } from './templates.service';
+
+export { TemplatesService };
+export * from './template-variables';
@@ -0,0 +1,185 @@
+import {
+  PostTemplateDto,
+  TemplateVariable,
+} from '../../types/core-modules.types';
+import { ErrorDetails } from '../../types/errors';
+
+export const MAX_TEMPLATE_VARIABLES = 50;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Names of the placeholders used in a piece of text, in order of first use
+ */
+export const extractPlaceholders = (text: string | undefined): string[] => {
+  if (!text) {
+    return [];
+  }
+
+  const names = [...text.matchAll(PLACEHOLDER_PATTERN)].map(match => match[1]);
+  return [...new Set(names as string[])];
+};
+
+/**
+ * Validate a template, returning field-level errors
+ */
+export const validateTemplate = (template: PostTemplateDto): ErrorDetails[] => {
+  const errors: ErrorDetails[] = [];
+
+  if (typeof template.name !== 'string' || !template.name.trim()) {
+    errors.push({ field: 'name', message: 'Template name is required' });
+  }
+
+  if (typeof template.content !== 'string' || !template.content.trim()) {
+    errors.push({ field: 'content', message: 'Template content is required' });
+  }
+
+  if (template.variables === undefined) {
+    return errors;
+  }
+
+  if (!Array.isArray(template.variables)) {
+    errors.push({ field: 'variables', message: 'Variables must be an array' });
+    return errors;
+  }
+
+  if (template.variables.length > MAX_TEMPLATE_VARIABLES) {
+    errors.push({
+      field: 'variables',
+      message: `A template can have at most ${MAX_TEMPLATE_VARIABLES} variables`,
+    });
+  }
+
+  const seen = new Set<string>();
+  template.variables.forEach((variable, index) => {
+    const name = variable?.name;
+    if (typeof name !== 'string' || !VARIABLE_NAME_PATTERN.test(name)) {
+      errors.push({
+        field: `variables[${index}].name`,
+        value: name,
+        message:
+          'Variable names must start with a letter or underscore and contain only letters, numbers and underscores',
+      });
+      return;
+    }
+
+    if (seen.has(name)) {
+      errors.push({
+        field: `variables[${index}].name`,
+        value: name,
+        message: `Variable "${name}" is declared more than once`,
+      });
+    }
+    seen.add(name);
+
+    if (
+      variable.default_value !== undefined &&
+      typeof variable.default_value !== 'string'
+    ) {
+      errors.push({
+        field: `variables[${index}].default_value`,
+        value: variable.default_value,
+        message: 'Default values must be strings',
+      });
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Merge the declared variables with the placeholders the template uses.
+ * Placeholders that were not declared are added as required variables.
+ */
+export const resolveTemplateVariables = (
+  template: Pick<PostTemplateDto, 'title' | 'content' | 'variables'>
+): TemplateVariable[] => {
+  const variables: TemplateVariable[] = (template.variables ?? []).map(
+    variable => {
+      const resolved: TemplateVariable = {
+        name: variable.name,
+        required: variable.required !== false,
+      };
+      if (variable.default_value !== undefined) {
+        resolved.default_value = variable.default_value;
+      }
+      if (variable.description) resolved.description = variable.description;
+      return resolved;
+    }
+  );
+
+  const declared = new Set(variables.map(variable => variable.name));
+  [
+    ...extractPlaceholders(template.title),
+    ...extractPlaceholders(template.content),
+  ].forEach(name => {
+    if (!declared.has(name)) {
+      variables.push({ name, required: true });
+      declared.add(name);
+    }
+  });
+
+  return variables;
+};
+
+/**
+ * Work out the value of every variable from the supplied values and the
+ * defaults. Required variables without either are reported as errors.
+ */
+export const resolveVariableValues = (
+  variables: TemplateVariable[],
+  values: Record<string, unknown>
+): { values: Record<string, string>; errors: ErrorDetails[] } => {
+  const resolved: Record<string, string> = {};
+  const errors: ErrorDetails[] = [];
+
+  for (const variable of variables) {
+    const supplied = values[variable.name];
+
+    if (supplied !== undefined && typeof supplied !== 'string') {
+      errors.push({
+        field: `variables.${variable.name}`,
+        value: supplied,
+        message: `Variable "${variable.name}" must be a string`,
+      });
+      continue;
+    }
+
+    // Unset defaults come back from the database as null
+    const value =
+      supplied !== undefined && supplied !== ''
+        ? supplied
+        : (variable.default_value ?? undefined);
+
+    if (value === undefined) {
+      if (variable.required) {
+        errors.push({
+          field: `variables.${variable.name}`,
+          message: `Variable "${variable.name}" is required`,
+        });
+      } else {
+        resolved[variable.name] = '';
+      }
+      continue;
+    }
+
+    resolved[variable.name] = value;
+  }
+
+  return { values: resolved, errors };
+};
+
+/**
+ * Replace the placeholders in a piece of text. Placeholders without a value
+ * are left as they are.
+ */
+export const renderTemplateText = (
+  text: string,
+  values: Record<string, string>
+): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name)
+      ? (values[name] as string)
+      : placeholder
+  );
@@ -0,0 +1,316 @@
+import { db } from '../../database/database.service';
+import {
+  CreatePostFromTemplateDto,
+  Post,
+  PostTemplate,
+  PostTemplateDto,
+  PostTemplateVersion,
+} from '../../types/core-modules.types';
+import {
+  AuthorizationError,
+  NotFoundError,
+  ValidationError,
+} from '../../utils/errors';
+import { PostsService } from '../posts/posts.service';
+import { WorkspacePermissionManager } from '../workspace/workspace.permissions';
+import {
+  renderTemplateText,
+  resolveTemplateVariables,
+  resolveVariableValues,
+  validateTemplate,
+} from './template-variables';
+
+// Template fields that make up a version; other changes keep the version
+const VERSIONED_FIELDS = [
+  'title',
+  'content',
+  'media_urls',
+  'variables',
+] as const;
+
+/**
+ * Workspace post template service
+ */
+export class TemplatesService {
+  private postsService: PostsService;
+
+  constructor() {
+    this.postsService = new PostsService();
+  }
+
+  /**
+   * Get a workspace's templates
+   */
+  async getTemplates(
+    userId: string,
+    workspaceId: string
+  ): Promise<PostTemplate[]> {
+    await this.assertMember(workspaceId, userId);
+    return await db.findWorkspacePostTemplates(workspaceId);
+  }
+
+  /**
+   * Get a single template
+   */
+  async getTemplate(
+    userId: string,
+    workspaceId: string,
+    templateId: string
+  ): Promise<PostTemplate> {
+    await this.assertMember(workspaceId, userId);
+    return await this.findTemplate(workspaceId, templateId);
+  }
+
+  /**
+   * Create a template. Placeholders that were not declared as variables are
+   * added as required ones.
+   */
+  async createTemplate(
+    userId: string,
+    workspaceId: string,
+    templateData: PostTemplateDto
+  ): Promise<PostTemplate> {
+    await this.assertCanManage(workspaceId, userId);
+
+    const errors = validateTemplate(templateData);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid template', errors);
+    }
+
+    const record: Omit<PostTemplate, 'id' | 'created_at' | 'updated_at'> = {
+      workspace_id: workspaceId,
+      name: templateData.name.trim(),
+      content: templateData.content,
+      media_urls: templateData.media_urls ?? [],
+      variables: resolveTemplateVariables(templateData),
+      version: 1,
+      created_by: userId,
+    };
+    if (templateData.title) record.title = templateData.title;
+    if (templateData.description) {
+      record.description = templateData.description;
+    }
+
+    const template = await db.createPostTemplate(record);
+    await this.saveVersion(template, userId);
+
+    return template;
+  }
+
+  /**
+   * Update a template. Changes to its title, content, media or variables
+   * start a new version; posts already created keep the version they used.
+   */
+  async updateTemplate(
+    userId: string,
+    workspaceId: string,
+    templateId: string,
+    updates: Partial<PostTemplateDto>
+  ): Promise<PostTemplate> {
+    await this.assertCanManage(workspaceId, userId);
+    const template = await this.findTemplate(workspaceId, templateId);
+
+    const merged: PostTemplateDto = {
+      name: updates.name ?? template.name,
+      content: updates.content ?? template.content,
+      media_urls: updates.media_urls ?? template.media_urls,
+      variables: updates.variables ?? template.variables,
+    };
+    const title = updates.title ?? template.title;
+    if (title) merged.title = title;
+
+    const errors = validateTemplate(merged);
+    if (errors.length > 0) {
+      throw new ValidationError('Invalid template', errors);
+    }
+
+    const changes: Partial<PostTemplate> = {
+      name: merged.name.trim(),
+      content: merged.content,
+      media_urls: merged.media_urls ?? [],
+      variables: resolveTemplateVariables(merged),
+      title: merged.title ?? null,
+    };
+    if (updates.description !== undefined) {
+      changes.description = updates.description;
+    }
+
+    const versionChanged = VERSIONED_FIELDS.some(
+      field =>
+        JSON.stringify(changes[field] ?? null) !==
+        JSON.stringify(template[field] ?? null)
+    );
+    if (versionChanged) {
+      changes.version = template.version + 1;
+    }
+
+    const updated = await db.updatePostTemplate(templateId, changes);
+    if (versionChanged) {
+      await this.saveVersion(updated, userId);
+    }
+
+    return updated;
+  }
+
+  /**
+   * Delete a template. Posts created from it keep their template record.
+   */
+  async deleteTemplate(
+    userId: string,
+    workspaceId: string,
+    templateId: string
+  ): Promise<void> {
+    await this.assertCanManage(workspaceId, userId);
+    await this.findTemplate(workspaceId, templateId);
+    await db.deletePostTemplate(templateId);
+  }
+
+  /**
+   * Get every version of a template, oldest first
+   */
+  async getTemplateVersions(
+    userId: string,
+    workspaceId: string,
+    templateId: string
+  ): Promise<PostTemplateVersion[]> {
+    await this.assertMember(workspaceId, userId);
+    await this.findTemplate(workspaceId, templateId);
+    return await db.findPostTemplateVersions(templateId);
+  }
+
+  /**
+   * Get the posts created from a template, optionally from one version
+   */
+  async getTemplatePosts(
+    userId: string,
+    workspaceId: string,
+    templateId: string,
+    version?: number
+  ): Promise<Post[]> {
+    await this.assertMember(workspaceId, userId);
+    await this.findTemplate(workspaceId, templateId);
+
+    const posts = await db.findTemplatePosts(templateId, version);
+    // Posts moved to another workspace since are not shown
+    return posts.filter(post => post.workspace_id === workspaceId);
+  }
+
+  /**
+   * Create a post from the current version of a template, filling its
+   * placeholders with the supplied values and the variables' defaults
+   */
+  async createPostFromTemplate(
+    userId: string,
+    workspaceId: string,
+    templateId: string,
+    postData: CreatePostFromTemplateDto
+  ): Promise<Post> {
+    await this.assertCanManage(workspaceId, userId, 'create posts');
+    const template = await this.findTemplate(workspaceId, templateId);
+
+    const { variables: supplied = {}, ...rest } = postData;
+    if (typeof supplied !== 'object' || Array.isArray(supplied)) {
+      throw new ValidationError('Invalid template variables', [
+        { field: 'variables', message: 'Variables must be an object' },
+      ]);
+    }
+
+    const { values, errors } = resolveVariableValues(
+      template.variables,
+      supplied
+    );
+    if (errors.length > 0) {
+      throw new ValidationError(
+        'Missing or invalid template variables',
+        errors
+      );
+    }
+
+    const content = renderTemplateText(template.content, values);
+    const title = template.title
+      ? renderTemplateText(template.title, values)
+      : undefined;
+
+    return await this.postsService.createPost(
+      userId,
+      {
+        ...rest,
+        content,
+        ...(title ? { title } : {}),
+        workspace_id: workspaceId,
+        media_urls: rest.media_urls ?? template.media_urls,
+        social_account_ids: rest.social_account_ids ?? [],
+      },
+      {
+        template_id: template.id,
+        version: template.version,
+        variables: values,
+      }
+    );
+  }
+
+  /**
+   * Store the current content of a template as its latest version
+   */
+  private async saveVersion(
+    template: PostTemplate,
+    userId: string
+  ): Promise<void> {
+    const version: Omit<PostTemplateVersion, 'id' | 'created_at'> = {
+      template_id: template.id,
+      version: template.version,
+      content: template.content,
+      media_urls: template.media_urls,
+      variables: template.variables,
+      created_by: userId,
+    };
+    if (template.title) version.title = template.title;
+
+    await db.createPostTemplateVersion(version);
+  }
+
+  /**
+   * Find a template, checking it belongs to the workspace
+   */
+  private async findTemplate(
+    workspaceId: string,
+    templateId: string
+  ): Promise<PostTemplate> {
+    const template = await db.findPostTemplate(templateId);
+    if (!template || template.workspace_id !== workspaceId) {
+      throw new NotFoundError('Template', templateId);
+    }
+    return template;
+  }
+
+  private async assertMember(
+    workspaceId: string,
+    userId: string
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+  }
+
+  // Templates are managed and used by the members who can create posts
+  private async assertCanManage(
+    workspaceId: string,
+    userId: string,
+    action = 'manage templates'
+  ): Promise<void> {
+    const role = await db.findWorkspaceMemberRole(workspaceId, userId);
+    if (!role) {
+      throw new AuthorizationError(
+        'Access denied: You are not a member of this workspace'
+      );
+    }
+    WorkspacePermissionManager.requirePermission(
+      role,
+      'canCreatePosts',
+      action
+    );
+  }
+}
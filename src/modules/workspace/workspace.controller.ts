@@ -1,5 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { WorkspaceService } from './workspace.service';
+import { TemplatesService } from '../templates/templates.service';
+import { TagsService } from '../tags/tags.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { CalendarService } from '../calendar/calendar.service';
+import { CalendarQuery, CalendarView } from '../calendar/calendar.types';
 import {
   authenticateWorkspaceRequest,
   validateWorkspaceId,
@@ -14,6 +19,10 @@ import { asyncHandler } from '../../utils/async-handler';
 import { AuthenticatedRequest } from './workspace.middleware';
 
 const workspaceService = new WorkspaceService();
+const templatesService = new TemplatesService();
+const tagsService = new TagsService();
+const campaignsService = new CampaignsService();
+const calendarService = new CalendarService();
 const router = Router();
 
 /**
@@ -293,4 +302,463 @@ router.delete(
   })
 );
 
+/**
+ * Get workspace tags
+ */
+router.get(
+  '/:id/tags',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const tags = await tagsService.getTags(userId, id);
+
+    res.status(200).json({
+      success: true,
+      data: tags,
+    });
+  })
+);
+
+/**
+ * Create a workspace tag
+ */
+router.post(
+  '/:id/tags',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const tag = await tagsService.createTag(userId, id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: tag,
+      message: 'Tag created successfully',
+    });
+  })
+);
+
+/**
+ * Rename or recolor a tag
+ */
+router.patch(
+  '/:id/tags/:tagId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const tagId = req.params.tagId as string;
+    const userId = req.user!.id;
+
+    const tag = await tagsService.updateTag(userId, id, tagId, req.body);
+
+    res.status(200).json({
+      success: true,
+      data: tag,
+      message: 'Tag updated successfully',
+    });
+  })
+);
+
+/**
+ * Delete a tag and remove it from its posts
+ */
+router.delete(
+  '/:id/tags/:tagId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const tagId = req.params.tagId as string;
+    const userId = req.user!.id;
+
+    await tagsService.deleteTag(userId, id, tagId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Tag deleted successfully',
+    });
+  })
+);
+
+/**
+ * Get workspace campaigns
+ */
+router.get(
+  '/:id/campaigns',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const campaigns = await campaignsService.getCampaigns(userId, id);
+
+    res.status(200).json({
+      success: true,
+      data: campaigns,
+    });
+  })
+);
+
+/**
+ * Create a workspace campaign
+ */
+router.post(
+  '/:id/campaigns',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const campaign = await campaignsService.createCampaign(
+      userId,
+      id,
+      req.body
+    );
+
+    res.status(201).json({
+      success: true,
+      data: campaign,
+      message: 'Campaign created successfully',
+    });
+  })
+);
+
+/**
+ * Get a campaign
+ */
+router.get(
+  '/:id/campaigns/:campaignId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const campaignId = req.params.campaignId as string;
+    const userId = req.user!.id;
+
+    const campaign = await campaignsService.getCampaign(userId, id, campaignId);
+
+    res.status(200).json({
+      success: true,
+      data: campaign,
+    });
+  })
+);
+
+/**
+ * Count a campaign's posts by status
+ */
+router.get(
+  '/:id/campaigns/:campaignId/stats',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const campaignId = req.params.campaignId as string;
+    const userId = req.user!.id;
+
+    const stats = await campaignsService.getCampaignStats(
+      userId,
+      id,
+      campaignId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: stats,
+    });
+  })
+);
+
+/**
+ * Update a campaign
+ */
+router.patch(
+  '/:id/campaigns/:campaignId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const campaignId = req.params.campaignId as string;
+    const userId = req.user!.id;
+
+    const campaign = await campaignsService.updateCampaign(
+      userId,
+      id,
+      campaignId,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      data: campaign,
+      message: 'Campaign updated successfully',
+    });
+  })
+);
+
+/**
+ * Delete a campaign, keeping its posts
+ */
+router.delete(
+  '/:id/campaigns/:campaignId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const campaignId = req.params.campaignId as string;
+    const userId = req.user!.id;
+
+    await campaignsService.deleteCampaign(userId, id, campaignId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Campaign deleted successfully',
+    });
+  })
+);
+
+/**
+ * Get workspace post templates
+ */
+router.get(
+  '/:id/templates',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const templates = await templatesService.getTemplates(userId, id);
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+    });
+  })
+);
+
+/**
+ * Create a workspace post template
+ */
+router.post(
+  '/:id/templates',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const template = await templatesService.createTemplate(
+      userId,
+      id,
+      req.body
+    );
+
+    res.status(201).json({
+      success: true,
+      data: template,
+      message: 'Template created successfully',
+    });
+  })
+);
+
+/**
+ * Get a template
+ */
+router.get(
+  '/:id/templates/:templateId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const templateId = req.params.templateId as string;
+    const userId = req.user!.id;
+
+    const template = await templatesService.getTemplate(userId, id, templateId);
+
+    res.status(200).json({
+      success: true,
+      data: template,
+    });
+  })
+);
+
+/**
+ * Update a template, starting a new version when its content changes
+ */
+router.patch(
+  '/:id/templates/:templateId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const templateId = req.params.templateId as string;
+    const userId = req.user!.id;
+
+    const template = await templatesService.updateTemplate(
+      userId,
+      id,
+      templateId,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      data: template,
+      message: 'Template updated successfully',
+    });
+  })
+);
+
+/**
+ * Delete a template
+ */
+router.delete(
+  '/:id/templates/:templateId',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const templateId = req.params.templateId as string;
+    const userId = req.user!.id;
+
+    await templatesService.deleteTemplate(userId, id, templateId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Template deleted successfully',
+    });
+  })
+);
+
+/**
+ * Get every version of a template
+ */
+router.get(
+  '/:id/templates/:templateId/versions',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const templateId = req.params.templateId as string;
+    const userId = req.user!.id;
+
+    const versions = await templatesService.getTemplateVersions(
+      userId,
+      id,
+      templateId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+    });
+  })
+);
+
+/**
+ * Get the posts created from a template, optionally from one version
+ */
+router.get(
+  '/:id/templates/:templateId/posts',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const templateId = req.params.templateId as string;
+    const userId = req.user!.id;
+
+    let version: number | undefined;
+    if (req.query.version !== undefined) {
+      version = Number(req.query.version);
+      if (!Number.isInteger(version) || version < 1) {
+        return res.status(400).json({
+          success: false,
+          message: 'Version must be a positive whole number',
+        });
+      }
+    }
+
+    const posts = await templatesService.getTemplatePosts(
+      userId,
+      id,
+      templateId,
+      version
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: posts,
+    });
+  })
+);
+
+/**
+ * Create a post from a template
+ */
+router.post(
+  '/:id/templates/:templateId/posts',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const templateId = req.params.templateId as string;
+    const userId = req.user!.id;
+
+    const post = await templatesService.createPostFromTemplate(
+      userId,
+      id,
+      templateId,
+      req.body
+    );
+
+    res.status(201).json({
+      success: true,
+      data: post,
+      message: 'Post created successfully',
+    });
+  })
+);
+
+/**
+ * Get the workspace calendar: posts with their publishing state, recurring
+ * occurrences and free queue slots, grouped by day in the workspace's time
+ * zone
+ */
+router.get(
+  '/:id/calendar',
+  authenticateWorkspaceRequest,
+  validateWorkspaceId,
+  asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const id = req.params.id as string;
+    const userId = req.user!.id;
+
+    const query: CalendarQuery = {};
+    if (typeof req.query.view === 'string') {
+      query.view = req.query.view as CalendarView;
+    }
+    if (typeof req.query.from === 'string') query.from = req.query.from;
+    if (typeof req.query.to === 'string') query.to = req.query.to;
+
+    const calendar = await calendarService.getWorkspaceCalendar(
+      userId,
+      id,
+      query
+    );
+
+    res.status(200).json({
+      success: true,
+      data: calendar,
+    });
+  })
+);
+
 export default router;
@@ -16,6 +16,9 @@ const PERMISSION_MATRIX: Record<WorkspaceRole, WorkspacePermissions> = {
     canRemoveMembers: true,
     canUpdateMemberRoles: true,
     canManageSocialAccounts: true,
+    canCreatePosts: true,
+    canApprovePosts: true,
+    canCommentOnPosts: true,
     canViewMembers: true,
     canViewWorkspaceDetails: true,
     canSwitchWorkspace: true,
@@ -28,6 +31,9 @@ const PERMISSION_MATRIX: Record<WorkspaceRole, WorkspacePermissions> = {
     canRemoveMembers: true,
     canUpdateMemberRoles: false, // Can't promote to owner or demote owners
     canManageSocialAccounts: true,
+    canCreatePosts: true,
+    canApprovePosts: true,
+    canCommentOnPosts: true,
     canViewMembers: true,
     canViewWorkspaceDetails: true,
     canSwitchWorkspace: true,
@@ -40,6 +46,9 @@ const PERMISSION_MATRIX: Record<WorkspaceRole, WorkspacePermissions> = {
     canRemoveMembers: false,
     canUpdateMemberRoles: false,
     canManageSocialAccounts: true,
+    canCreatePosts: true,
+    canApprovePosts: false,
+    canCommentOnPosts: true,
     canViewMembers: true,
     canViewWorkspaceDetails: true,
     canSwitchWorkspace: true,
@@ -52,6 +61,9 @@ const PERMISSION_MATRIX: Record<WorkspaceRole, WorkspacePermissions> = {
     canRemoveMembers: false,
     canUpdateMemberRoles: false,
     canManageSocialAccounts: false,
+    canCreatePosts: false,
+    canApprovePosts: false,
+    canCommentOnPosts: true,
     canViewMembers: true,
     canViewWorkspaceDetails: true,
     canSwitchWorkspace: true,
@@ -1,3 +1,5 @@
+import { PostRetryPolicy } from '../../types/core-modules.types';
+
 // Core Types
 export type WorkspaceRole = 'owner' | 'manager' | 'editor' | 'viewer';
 
@@ -10,6 +12,10 @@ export interface WorkspacePermissions {
   canRemoveMembers: boolean;
   canUpdateMemberRoles: boolean;
   canManageSocialAccounts: boolean;
+  canCreatePosts: boolean;
+  canApprovePosts: boolean;
+  // Viewers can comment on posts they can't edit
+  canCommentOnPosts: boolean;
   canViewMembers: boolean;
   canViewWorkspaceDetails: boolean;
   canSwitchWorkspace: boolean;
@@ -42,6 +48,7 @@ export interface WorkspaceSettings {
     sunday: { enabled: boolean; times: string[] };
   };
   auto_approve_posts?: boolean;
+  retry_policy?: Partial<PostRetryPolicy>;
   notifications?: {
     email: boolean;
     slack: boolean;
@@ -560,13 +560,13 @@ export class SupabaseService {
   async createPostPlatforms(
     postPlatforms: Partial<PostPlatform>[]
   ): Promise<PostPlatform[]> {
-    const { data, error } = await this.client
+    const { data, error } = await this.adminClient
       .from('post_platforms')
       .insert(postPlatforms)
       .select();
 
     if (error) throw error;
-    return data.map(this.transformPostPlatform);
+    return data.map(row => this.transformPostPlatform(row));
   }
 
   /**
@@ -576,7 +576,7 @@ export class SupabaseService {
     postPlatformId: string,
     updates: Partial<PostPlatform>
   ): Promise<PostPlatform> {
-    const { data, error } = await this.client
+    const { data, error } = await this.adminClient
       .from('post_platforms')
       .update(updates)
       .eq('id', postPlatformId)
@@ -591,7 +591,7 @@ export class SupabaseService {
    * Get post platforms for a post
    */
   async getPostPlatforms(postId: string): Promise<PostPlatform[]> {
-    const { data, error } = await this.client
+    const { data, error } = await this.adminClient
       .from('post_platforms')
       .select(
         `
@@ -602,7 +602,29 @@ export class SupabaseService {
       .eq('post_id', postId);
 
     if (error) throw error;
-    return data.map(this.transformPostPlatform);
+    return data.map(row => this.transformPostPlatform(row));
+  }
+
+  /**
+   * Get post platforms for several posts at once
+   */
+  async getPostPlatformsForPosts(postIds: string[]): Promise<PostPlatform[]> {
+    if (postIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.adminClient
+      .from('post_platforms')
+      .select(
+        `
+        *,
+        social_account:social_accounts(*)
+      `
+      )
+      .in('post_id', postIds);
+
+    if (error) throw error;
+    return data.map(row => this.transformPostPlatform(row));
   }
 
   /**
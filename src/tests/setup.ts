@@ -0,0 +1,5 @@
+// Modules read their configuration when they are imported, so tests get
+// placeholder values instead of needing a real environment
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_ANON_KEY ??= 'test-anon-key';
+process.env.SUPABASE_SERVICE_KEY ??= 'test-service-key';
@@ -1,4 +1,7 @@
 // Core modules types for Phase 2
+import { ErrorDetails } from './errors';
+import { BillingAddress, InvoiceItem } from './entity.types';
+import { InvoiceStatus } from './enums.types';
 
 // Base response types
 export interface BaseResponse {
@@ -57,40 +60,476 @@ export interface Post {
   id: string;
   user_id: string;
   workspace_id?: string;
-  postiz_post_id?: string;
+  postiz_post_id?: string | null;
   title?: string;
   content?: string;
   media_urls: string[];
+  media_metadata?: Record<string, MediaMetadata>;
+  social_account_ids?: string[];
   status:
     | 'DRAFT'
     | 'SCHEDULED'
     | 'PUBLISHING'
     | 'PUBLISHED'
     | 'FAILED'
-    | 'CANCELLED';
-  scheduled_for?: string;
+    | 'CANCELLED'
+    | 'PENDING_APPROVAL'
+    // Some targets published and the rest failed
+    | 'PARTIALLY_PUBLISHED'
+    | 'ARCHIVED'
+    // In the trash until restored or purged
+    | 'DELETED';
+  scheduled_for?: string | null;
   published_at?: string;
+  variants?: PostVariants;
+  parts?: PostPart[];
+  recurrence?: PostRecurrence;
+  approval?: PostApproval;
+  tag_ids?: string[];
+  campaign_id?: string | null;
+  // Set when the post's time was picked from the workspace posting schedule
+  queued?: boolean;
+  // Set on reposts created from the workspace's evergreen library
+  evergreen_item_id?: string;
+  retry?: PostRetryState | null;
+  // Set on posts created from a workspace template
+  template?: PostTemplateUsage;
+  // Status to return to when a post is restored from the trash or unarchived
+  previous_status?: Post['status'] | null;
+  deleted_at?: string | null;
+  archived_at?: string | null;
   settings: Record<string, any>;
   created_at: string;
   updated_at: string;
 }
 
+/**
+ * Details about a media file that platform rules depend on.
+ * Posts store these keyed by media URL.
+ */
+export interface MediaMetadata {
+  mime_type?: string;
+  size_bytes?: number;
+  duration_seconds?: number;
+}
+
+/**
+ * Content overrides for one social account. Unset fields fall back to the
+ * post's shared content and media.
+ */
+export interface PostVariant {
+  content?: string;
+  media_urls?: string[];
+  first_comment?: string;
+  link?: string;
+}
+
+// Keyed by social account ID
+export type PostVariants = Record<string, PostVariant>;
+
+/**
+ * One entry of a thread or carousel. Parts are published after the post's
+ * own content, in position order.
+ */
+export interface PostPart {
+  id: string;
+  position: number;
+  content: string;
+  media_urls: string[];
+}
+
+export interface CreatePostPartDto {
+  content: string;
+  media_urls?: string[];
+  position?: number;
+}
+
+export interface UpdatePostPartDto {
+  content?: string;
+  media_urls?: string[];
+  position?: number;
+}
+
+/**
+ * How a platform handled one part, stored in `settings.part_results`
+ */
+export interface PostPartResult {
+  part_id: string;
+  position: number;
+  external_id?: string;
+  status?: string;
+  error?: string;
+}
+
+// Recurrence types
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type RecurrenceWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  by_weekday?: RecurrenceWeekday[];
+  count?: number;
+  until?: string;
+  timezone?: string;
+}
+
+export interface PostRecurrence {
+  series_id: string;
+  rule: RecurrenceRule;
+  occurrence_index: number;
+}
+
+/**
+ * Which occurrences of a recurring series an edit or cancellation applies to
+ */
+export type RecurrenceEditScope = 'this' | 'following';
+
+// Approval types
+export type ApprovalDecision = 'APPROVED' | 'REJECTED';
+
+/**
+ * Review state of a post submitted by a member who needs approval to publish
+ */
+export interface PostApproval {
+  requested_by: string;
+  requested_at: string;
+  decision?: ApprovalDecision;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  comment?: string;
+}
+
+// Revision types
+export type RevisionField =
+  | 'title'
+  | 'content'
+  | 'media_urls'
+  | 'media_metadata'
+  | 'variants'
+  | 'parts'
+  | 'settings';
+
+/**
+ * A field's value before and after a change. Unset values are stored as null.
+ */
+export interface RevisionChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * An immutable record of one change to a post's content
+ */
+export interface PostRevision {
+  id: string;
+  post_id: string;
+  revision: number;
+  author_id: string;
+  changes: Partial<Record<RevisionField, RevisionChange>>;
+  created_at: string;
+}
+
+// Comment types
+/**
+ * An internal comment on a post. Replies point at the top-level comment of
+ * their thread, and only top-level comments are resolved.
+ */
+export interface PostComment {
+  id: string;
+  post_id: string;
+  workspace_id?: string;
+  author_id: string;
+  parent_id?: string;
+  body: string;
+  // IDs of the workspace members mentioned in the body
+  mentions: string[];
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+  edited_at?: string;
+  // Set on threads deleted while other members' replies were kept
+  deleted_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A top-level comment with its replies, oldest first
+ */
+export interface PostCommentThread extends PostComment {
+  replies: PostComment[];
+}
+
+export interface CreatePostCommentDto {
+  body: string;
+  parent_id?: string;
+}
+
+// Import types
+export type PostImportRowStatus = 'VALID' | 'INVALID' | 'CREATED' | 'FAILED';
+
+/**
+ * Outcome of one imported row. Rows are numbered from 1, not counting
+ * the CSV header.
+ */
+export interface PostImportRowResult {
+  row: number;
+  status: PostImportRowStatus;
+  post_id?: string;
+  errors: ErrorDetails[];
+}
+
+export interface PostImportSummary {
+  dry_run: boolean;
+  total_rows: number;
+  valid_rows: number;
+  invalid_rows: number;
+  results: PostImportRowResult[];
+}
+
+/**
+ * A stored import run, kept so its report can be downloaded later
+ */
+export interface PostImportJob extends PostImportSummary {
+  id: string;
+  user_id: string;
+  workspace_id?: string;
+  status: 'COMPLETED' | 'FAILED';
+  created_count: number;
+  error?: string;
+  created_at: string;
+}
+
+// Retry types
+export type PostErrorClass =
+  | 'rate_limit'
+  | 'timeout'
+  | 'network'
+  | 'server_error'
+  | 'auth'
+  | 'validation'
+  | 'unknown';
+
+/**
+ * How failed posts in a workspace are retried. Delays grow by
+ * `backoff_multiplier` after each attempt, up to `max_backoff_seconds`.
+ */
+export interface PostRetryPolicy {
+  // Retries after the original publish fails, so a post is attempted at
+  // most max_retries + 1 times; 0 turns retrying off
+  max_retries: number;
+  initial_backoff_seconds: number;
+  backoff_multiplier: number;
+  max_backoff_seconds: number;
+  // Errors of these classes are retried, anything else fails straight away
+  transient_errors: PostErrorClass[];
+}
+
+/**
+ * One failed publishing attempt. `retry_at` is set when another attempt
+ * was scheduled.
+ */
+export interface PostRetryAttempt {
+  attempt: number;
+  error: string;
+  error_class: PostErrorClass;
+  failed_at: string;
+  retry_at?: string;
+}
+
+export interface PostRetryState {
+  attempts: PostRetryAttempt[];
+  // When the post goes back to the dispatcher, while a retry is pending
+  next_retry_at?: string;
+  exhausted_at?: string;
+}
+
+// Evergreen types
+/**
+ * A published post kept in its workspace's evergreen library. The
+ * scheduler reposts it into empty posting slots, waiting at least
+ * `min_interval_days` between reposts.
+ */
+export interface EvergreenItem {
+  id: string;
+  workspace_id: string;
+  post_id: string;
+  added_by: string;
+  min_interval_days: number;
+  max_reposts?: number | null;
+  repost_count: number;
+  last_reposted_at?: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EvergreenItemDto {
+  min_interval_days: number;
+  max_reposts?: number;
+  is_active?: boolean;
+}
+
+// Tag and campaign types
+export interface PostTag {
+  id: string;
+  workspace_id: string;
+  name: string;
+  color?: string;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PostTagDto {
+  name: string;
+  color?: string;
+}
+
+/**
+ * A group of posts in a workspace, such as a product launch, tracked
+ * together. A post belongs to at most one campaign.
+ */
+export interface Campaign {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description?: string | null;
+  color?: string | null;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CampaignDto {
+  name: string;
+  description?: string;
+  color?: string;
+  starts_at?: string;
+  ends_at?: string;
+}
+
+/**
+ * How many of a campaign's posts are in each status. Trashed posts are
+ * not counted.
+ */
+export interface CampaignStats {
+  campaign_id: string;
+  total: number;
+  by_status: Partial<Record<Post['status'], number>>;
+}
+
+// Template types
+/**
+ * A placeholder used as `{{name}}` in a template's title or content
+ */
+export interface TemplateVariable {
+  name: string;
+  required: boolean;
+  default_value?: string;
+  description?: string;
+}
+
+/**
+ * Reusable post content for a workspace. `version` goes up whenever the
+ * title, content, media or variables change, and every version is kept.
+ */
+export interface PostTemplate {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description?: string;
+  title?: string | null;
+  content: string;
+  media_urls: string[];
+  variables: TemplateVariable[];
+  version: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * The content of a template as it was at one version
+ */
+export interface PostTemplateVersion {
+  id: string;
+  template_id: string;
+  version: number;
+  title?: string;
+  content: string;
+  media_urls: string[];
+  variables: TemplateVariable[];
+  created_by: string;
+  created_at: string;
+}
+
+export interface PostTemplateDto {
+  name: string;
+  description?: string;
+  title?: string;
+  content: string;
+  media_urls?: string[];
+  variables?: TemplateVariable[];
+}
+
+/**
+ * The template version a post was created from and the values it was
+ * filled in with
+ */
+export interface PostTemplateUsage {
+  template_id: string;
+  version: number;
+  variables: Record<string, string>;
+}
+
+export interface CreatePostFromTemplateDto
+  extends Omit<CreatePostDto, 'content' | 'title' | 'workspace_id'> {
+  variables?: Record<string, string>;
+}
+
 export interface CreatePostDto {
   content: string;
   title?: string;
   workspace_id?: string;
   media_urls?: string[];
+  media_metadata?: Record<string, MediaMetadata>;
   social_account_ids: string[];
   scheduled_for?: string;
+  variants?: PostVariants;
+  parts?: CreatePostPartDto[];
+  recurrence?: RecurrenceRule;
+  tag_ids?: string[];
+  campaign_id?: string;
   settings?: Record<string, any>;
 }
 
+/**
+ * Where a duplicated post goes. `social_account_map` maps source account
+ * IDs to accounts in the target workspace; unmapped accounts are dropped
+ * when copying to another workspace.
+ */
+export interface DuplicatePostDto {
+  workspace_id?: string;
+  social_account_map?: Record<string, string>;
+}
+
 export interface UpdatePostDto {
   content?: string;
   title?: string;
   media_urls?: string[];
+  media_metadata?: Record<string, MediaMetadata>;
+  social_account_ids?: string[];
   status?: 'DRAFT' | 'SCHEDULED' | 'CANCELLED';
   scheduled_for?: string;
+  variants?: PostVariants;
+  recurrence?: RecurrenceRule;
+  tag_ids?: string[];
+  // Null takes the post out of its campaign
+  campaign_id?: string | null;
   settings?: Record<string, any>;
 }
 
@@ -116,12 +555,19 @@ export interface BillingInfo {
   id: string;
   user_id: string;
   dodo_billing_customer_id?: string;
+  dodo_subscription_id?: string | null;
+  default_payment_method_id?: string | null;
+  discount?: AppliedDiscount | null;
   current_plan: 'FREE' | 'STARTER' | 'PROFESSIONAL' | 'ENTERPRISE';
-  billing_interval?: 'monthly' | 'yearly';
-  subscription_status?: 'active' | 'cancelled' | 'past_due';
+  billing_interval?: 'monthly' | 'yearly' | null;
+  subscription_status?: 'active' | 'trialing' | 'cancelled' | 'past_due';
   current_period_start?: string;
   current_period_end?: string;
   cancel_at_period_end: boolean;
+  trial_started_at?: string;
+  trial_ends_at?: string;
+  // Computed when billing info is read, not stored
+  trial_days_remaining?: number;
   posts_used_this_month: number;
   workspaces_used: number;
   social_accounts_used: number;
@@ -129,6 +575,189 @@ export interface BillingInfo {
   updated_at: string;
 }
 
+// Coupon types
+export type CouponDiscountType = 'percent' | 'fixed';
+
+/**
+ * How long a coupon's discount lasts once redeemed: the first invoice only,
+ * a number of months, or for as long as the subscription runs
+ */
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+/**
+ * A promotion code for paid plans. Fixed amounts are in the currency's
+ * minor unit; an empty `plan_ids` allows every paid plan.
+ */
+export interface Coupon {
+  id: string;
+  code: string;
+  description?: string | null;
+  discount_type: CouponDiscountType;
+  percent_off?: number | null;
+  amount_off?: number | null;
+  currency?: string | null;
+  duration: CouponDuration;
+  duration_in_months?: number | null;
+  max_redemptions?: number | null;
+  times_redeemed: number;
+  expires_at?: string | null;
+  plan_ids: BillingInfo['current_plan'][];
+  active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CouponDto = Pick<Coupon, 'code' | 'discount_type' | 'duration'> &
+  Partial<
+    Pick<
+      Coupon,
+      | 'description'
+      | 'percent_off'
+      | 'amount_off'
+      | 'currency'
+      | 'duration_in_months'
+      | 'max_redemptions'
+      | 'expires_at'
+      | 'plan_ids'
+      | 'active'
+    >
+  >;
+
+export interface CouponRedemption {
+  id: string;
+  coupon_id: string;
+  user_id: string;
+  plan: BillingInfo['current_plan'];
+  redeemed_at: string;
+}
+
+/**
+ * The discount on a user's subscription, copied from the coupon when it
+ * was redeemed so later coupon changes don't alter it
+ */
+export interface AppliedDiscount {
+  coupon_id: string;
+  code: string;
+  discount_type: CouponDiscountType;
+  percent_off?: number;
+  amount_off?: number;
+  currency?: string;
+  duration: CouponDuration;
+  duration_in_months?: number;
+  starts_at: string;
+  ends_at?: string;
+}
+
+/**
+ * What a plan would cost for one billing period with a coupon applied.
+ * Amounts are in the currency's minor unit.
+ */
+export interface CouponPreview {
+  code: string;
+  plan: BillingInfo['current_plan'];
+  billing_interval: 'monthly' | 'yearly';
+  currency: string;
+  price: number;
+  discount: number;
+  total: number;
+  duration: CouponDuration;
+  duration_in_months?: number;
+}
+
+/**
+ * The cost of switching plan or billing interval part way through a
+ * billing period. `credit` is the unused time on the current plan,
+ * `charge` the new plan over the period it will cover and `discount` a
+ * coupon's share of that charge; a positive `total` is charged now and a
+ * negative one is credited to the account. Amounts are in the currency's
+ * minor unit.
+ */
+export interface ProrationPreview {
+  current_plan: BillingInfo['current_plan'];
+  current_interval?: 'monthly' | 'yearly';
+  new_plan: BillingInfo['current_plan'];
+  new_interval: 'monthly' | 'yearly';
+  currency: string;
+  credit: number;
+  charge: number;
+  discount: number;
+  coupon_code?: string;
+  total: number;
+  proration_date: string;
+  period_start: string;
+  period_end: string;
+}
+
+/**
+ * An invoice for a user's subscription, kept from Dodo webhooks. Amounts
+ * are in the currency's minor unit (e.g. cents).
+ */
+export interface BillingInvoice {
+  id: string;
+  user_id: string;
+  dodo_invoice_id: string;
+  number: string;
+  status: InvoiceStatus;
+  currency: string;
+  subtotal: number;
+  discount: number;
+  coupon_code?: string;
+  tax: number;
+  total: number;
+  amount_paid: number;
+  items: InvoiceItem[];
+  customer_name?: string;
+  customer_email?: string;
+  billing_address?: BillingAddress;
+  period_start?: string;
+  period_end?: string;
+  due_date?: string;
+  paid_at?: string;
+  issued_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A Dodo Payments webhook event we have received, kept so redelivered
+ * events are only processed once
+ */
+export interface BillingWebhookEvent {
+  id: string;
+  type: string;
+  status: 'processing' | 'processed' | 'failed';
+  error_message?: string;
+  received_at: string;
+  // When the latest attempt at processing the event started
+  processing_started_at?: string;
+  processed_at?: string;
+}
+
+export type BillingTrialStatus =
+  | 'active'
+  | 'converting'
+  | 'converted'
+  | 'expired'
+  | 'cancelled';
+
+/**
+ * A free trial of a paid plan. Each user and each workspace gets one trial,
+ * so records are kept after the trial ends.
+ */
+export interface BillingTrial {
+  id: string;
+  user_id: string;
+  workspace_id: string;
+  plan: BillingInfo['current_plan'];
+  status: BillingTrialStatus;
+  started_at: string;
+  ends_at: string;
+  ended_at?: string;
+  // When the trial was claimed for conversion
+  converting_at?: string | null;
+}
+
 export interface PlanLimits {
   maxPosts: number;
   maxWorkspaces: number;
@@ -143,6 +772,8 @@ export interface PlanConfig {
   priceYearly: number;
   limits: PlanLimits;
   features: string[];
+  // Length of the free trial offered on the plan, if any
+  trialDays?: number;
   dodoPlanId?: string;
   isCurrent?: boolean;
 }
@@ -158,3 +789,81 @@ export interface PaginationOptions {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
+
+// Filters shared by post listings and bulk operations
+export interface PostFilters {
+  workspace_id?: string;
+  status?: string;
+  search?: string;
+  tag_id?: string;
+  campaign_id?: string;
+}
+
+/**
+ * Filters for post search. `q` matches the title, content and variant
+ * text; date ranges include both ends. Without a workspace only the
+ * user's own posts are searched.
+ */
+export interface PostSearchFilters extends Omit<PostFilters, 'search'> {
+  q?: string;
+  author_id?: string;
+  platform?: string;
+  social_account_id?: string;
+  has_media?: boolean;
+  created_from?: string;
+  created_to?: string;
+  scheduled_from?: string;
+  scheduled_to?: string;
+  published_from?: string;
+  published_to?: string;
+}
+
+/**
+ * One page of search results, newest first. `next_cursor` is null on the
+ * last page.
+ */
+export interface PostSearchPage {
+  posts: Post[];
+  next_cursor: string | null;
+}
+
+// Bulk operation types
+export type BulkPostAction =
+  | 'schedule'
+  | 'cancel'
+  | 'delete'
+  | 'reassign-workspace'
+  | 'retag';
+
+export type TagUpdateMode = 'add' | 'remove' | 'replace';
+
+/**
+ * One action applied to posts chosen by ID or by filter. Only the
+ * parameters for the chosen action are read.
+ */
+export interface BulkPostRequest {
+  action: BulkPostAction;
+  ids?: string[];
+  filter?: PostFilters;
+  scheduled_for?: string;
+  social_account_ids?: string[];
+  scope?: RecurrenceEditScope;
+  workspace_id?: string;
+  tag_ids?: string[];
+  tag_mode?: TagUpdateMode;
+}
+
+export interface BulkPostItemResult {
+  id: string;
+  success: boolean;
+  post?: Post;
+  error?: string;
+}
+
+export interface BulkPostResult {
+  action: BulkPostAction;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: BulkPostItemResult[];
+}
@@ -200,7 +200,11 @@ export type PostStatus =
   | 'PUBLISHING'
   | 'PUBLISHED'
   | 'FAILED'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'PENDING_APPROVAL'
+  | 'PARTIALLY_PUBLISHED'
+  | 'ARCHIVED'
+  | 'DELETED';
 export type PostPlatformStatus =
   | 'PENDING'
   | 'SCHEDULED'
@@ -255,9 +259,10 @@ export interface PostPlatform {
   social_account_id: string;
   status: PostPlatformStatus;
   postiz_post_id?: string;
-  platform_post_id?: string;
-  error_message?: string;
-  published_at?: Date;
+  platform_post_id?: string | null;
+  public_url?: string | null;
+  error_message?: string | null;
+  published_at?: Date | null;
   created_at: Date;
 
   // Joined data
@@ -611,6 +616,10 @@ export function isPostStatus(value: string): value is PostStatus {
     'PUBLISHED',
     'FAILED',
     'CANCELLED',
+    'PENDING_APPROVAL',
+    'PARTIALLY_PUBLISHED',
+    'ARCHIVED',
+    'DELETED',
   ].includes(value);
 }
 
@@ -660,4 +669,8 @@ export const POST_STATUS_COLORS: Record<PostStatus, string> = {
   PUBLISHED: '#10B981',
   FAILED: '#EF4444',
   CANCELLED: '#6B7280',
+  PENDING_APPROVAL: '#8B5CF6',
+  PARTIALLY_PUBLISHED: '#F97316',
+  ARCHIVED: '#9CA3AF',
+  DELETED: '#374151',
 };
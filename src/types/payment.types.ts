@@ -26,6 +26,20 @@ export interface SubscriptionRequest {
   couponCode?: string;
 }
 
+/**
+ * Changes to an existing subscription. `prorationAmount` is what to charge
+ * (or credit, if negative) for the change at `prorationDate`, in the
+ * currency's minor unit.
+ */
+export interface SubscriptionUpdateRequest {
+  planId?: string;
+  billingInterval?: 'monthly' | 'yearly';
+  couponCode?: string;
+  cancelAtPeriodEnd?: boolean;
+  prorationAmount?: number;
+  prorationDate?: string;
+}
+
 export interface SubscriptionResponse {
   id: string;
   customerId: string;
@@ -50,6 +64,18 @@ export interface PaymentIntentResponse {
   currency: string;
 }
 
+/**
+ * Standard Webhooks headers sent with each Dodo webhook delivery
+ */
+export interface DodoWebhookHeaders {
+  // Unique per event and kept across redeliveries
+  id: string;
+  // Unix seconds
+  timestamp: string;
+  // Space-separated `v1,<base64>` signatures
+  signature: string;
+}
+
 export interface DodoWebhookEvent {
   id: string;
   type: string;
@@ -59,6 +85,65 @@ export interface DodoWebhookEvent {
   created: number;
 }
 
+// Objects carried by Dodo webhook events. Times are unix seconds.
+export interface DodoSubscriptionObject {
+  id: string;
+  customer_id: string;
+  status: string;
+  plan_id: string;
+  current_period_start?: number;
+  current_period_end?: number;
+  cancel_at_period_end?: boolean;
+}
+
+export interface DodoInvoiceObject {
+  id: string;
+  customer_id: string;
+  subscription_id?: string;
+  number?: string;
+  status?: string;
+  currency?: string;
+  subtotal?: number;
+  discount?: number;
+  coupon_code?: string;
+  tax?: number;
+  total?: number;
+  amount_paid?: number;
+  lines?: DodoInvoiceLine[];
+  customer_name?: string;
+  customer_email?: string;
+  customer_address?: DodoAddress;
+  period_start?: number;
+  period_end?: number;
+  due_date?: number;
+  paid_at?: number;
+  created?: number;
+}
+
+export interface DodoInvoiceLine {
+  description?: string;
+  quantity?: number;
+  unit_amount?: number;
+  amount: number;
+  period?: { start: number; end: number };
+}
+
+export interface DodoAddress {
+  line1?: string;
+  line2?: string;
+  city?: string;
+  state?: string;
+  postal_code?: string;
+  country?: string;
+  tax_id?: string;
+}
+
+export interface DodoPaymentMethodObject {
+  id: string;
+  customer_id: string;
+  is_default?: boolean;
+}
+
 export interface BillingPortalSessionResponse {
   url: string;
   expiresAt: number;
@@ -0,0 +1,114 @@
+import {
+  addLocalDays,
+  compareLocalDates,
+  formatLocalDate,
+  getDaysInMonth,
+  getZonedDateParts,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from './timezone';
+
+const NEW_YORK = 'America/New_York';
+
+describe('zonedTimeToUtc', () => {
+  it('converts wall-clock times on either side of DST', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 1, day: 15, hour: 9, minute: 0 },
+        NEW_YORK
+      ).toISOString()
+    ).toBe('2026-01-15T14:00:00.000Z');
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 7, day: 1, hour: 9, minute: 0 },
+        NEW_YORK
+      ).toISOString()
+    ).toBe('2026-07-01T13:00:00.000Z');
+  });
+
+  it('resolves a time skipped by DST to the instant the clocks jump', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 3, day: 8, hour: 2, minute: 30 },
+        NEW_YORK
+      ).toISOString()
+    ).toBe('2026-03-08T07:00:00.000Z');
+  });
+
+  it('resolves a repeated time to its first occurrence', () => {
+    expect(
+      zonedTimeToUtc(
+        { year: 2026, month: 11, day: 1, hour: 1, minute: 30 },
+        NEW_YORK
+      ).toISOString()
+    ).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('round-trips through getZonedDateParts', () => {
+    const local = { year: 2026, month: 3, day: 2, hour: 21, minute: 15 };
+    const parts = getZonedDateParts(
+      zonedTimeToUtc(local, 'Asia/Tokyo'),
+      'Asia/Tokyo'
+    );
+    expect(parts).toMatchObject(local);
+  });
+});
+
+describe('getZonedDateParts', () => {
+  it('returns the local date, time and weekday', () => {
+    expect(
+      getZonedDateParts(new Date('2026-03-02T12:00:00.000Z'), 'Asia/Tokyo')
+    ).toEqual({
+      year: 2026,
+      month: 3,
+      day: 2,
+      hour: 21,
+      minute: 0,
+      second: 0,
+      weekday: 1,
+    });
+  });
+
+  it('uses hour 0 at midnight', () => {
+    expect(
+      getZonedDateParts(new Date('2026-03-02T00:00:00.000Z'), 'UTC').hour
+    ).toBe(0);
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones and rejects anything else', () => {
+    expect(isValidTimeZone('Europe/London')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
+
+describe('calendar helpers', () => {
+  it('adds days across month and year ends', () => {
+    expect(addLocalDays({ year: 2026, month: 12, day: 30 }, 3)).toEqual({
+      year: 2027,
+      month: 1,
+      day: 2,
+    });
+    expect(addLocalDays({ year: 2026, month: 3, day: 1 }, -1)).toEqual({
+      year: 2026,
+      month: 2,
+      day: 28,
+    });
+  });
+
+  it('counts days in a month, including leap years', () => {
+    expect(getDaysInMonth(2026, 2)).toBe(28);
+    expect(getDaysInMonth(2028, 2)).toBe(29);
+    expect(getDaysInMonth(2026, 4)).toBe(30);
+  });
+
+  it('formats and compares calendar dates', () => {
+    const earlier = { year: 2026, month: 3, day: 2 };
+    const later = { year: 2026, month: 10, day: 19 };
+    expect(formatLocalDate(earlier)).toBe('2026-03-02');
+    expect(compareLocalDates(earlier, later)).toBeLessThan(0);
+    expect(compareLocalDates(later, earlier)).toBeGreaterThan(0);
+    expect(compareLocalDates(earlier, { ...earlier })).toBe(0);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Time zone helpers built on Intl, so wall-clock times in a workspace's
+ * time zone can be converted to UTC instants without extra dependencies.
+ */
+
+export interface LocalDate {
+  year: number;
+  month: number; // 1-12
+  day: number;
+}
+
+export interface LocalDateTime extends LocalDate {
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+export interface ZonedDateParts extends LocalDateTime {
+  second: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock date and time of an instant in a time zone
+ */
+export const getZonedDateParts = (
+  date: Date,
+  timeZone: string
+): ZonedDateParts => {
+  const values: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = parseInt(part.value, 10);
+    }
+  }
+
+  const local: LocalDate = {
+    year: values.year ?? 0,
+    month: values.month ?? 1,
+    day: values.day ?? 1,
+  };
+
+  return {
+    ...local,
+    hour: values.hour ?? 0,
+    minute: values.minute ?? 0,
+    second: values.second ?? 0,
+    weekday: getLocalWeekday(local),
+  };
+};
+
+const getTimeZoneOffsetMs = (date: Date, timeZone: string): number => {
+  const parts = getZonedDateParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - (date.getTime() - date.getUTCMilliseconds());
+};
+
+/**
+ * Convert a wall-clock time in a time zone to a UTC instant.
+ * Times skipped by a DST change resolve to the following valid instant.
+ */
+export const zonedTimeToUtc = (
+  local: LocalDateTime,
+  timeZone: string
+): Date => {
+  const guess = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second ?? 0
+  );
+
+  const firstOffset = getTimeZoneOffsetMs(new Date(guess), timeZone);
+  let result = guess - firstOffset;
+
+  const secondOffset = getTimeZoneOffsetMs(new Date(result), timeZone);
+  if (secondOffset !== firstOffset) {
+    result = guess - secondOffset;
+
+    // In a gap neither offset gives back the requested wall time, so move
+    // forward to the instant the clocks jump
+    if (getTimeZoneOffsetMs(new Date(result), timeZone) !== secondOffset) {
+      result = findOffsetChange(
+        Math.min(guess - firstOffset, guess - secondOffset),
+        Math.max(guess - firstOffset, guess - secondOffset),
+        timeZone
+      );
+    }
+  }
+
+  return new Date(result);
+};
+
+/**
+ * First instant after `before` with the same UTC offset as `after`, where
+ * the offsets at the two instants differ
+ */
+const findOffsetChange = (
+  before: number,
+  after: number,
+  timeZone: string
+): number => {
+  const afterOffset = getTimeZoneOffsetMs(new Date(after), timeZone);
+  let low = before;
+  let high = after;
+  while (high - low > 1000) {
+    const middle = Math.floor((low + high) / 2);
+    if (getTimeZoneOffsetMs(new Date(middle), timeZone) === afterOffset) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+  // Offsets change on whole seconds
+  return Math.ceil(high / 1000) * 1000;
+};
+
+/**
+ * Day of the week for a calendar date (0 = Sunday)
+ */
+export const getLocalWeekday = (date: LocalDate): number => {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+};
+
+/**
+ * Add calendar days to a date, ignoring time zones entirely
+ */
+export const addLocalDays = (date: LocalDate, days: number): LocalDate => {
+  const shifted = new Date(
+    Date.UTC(date.year, date.month - 1, date.day + days)
+  );
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+};
+
+/**
+ * Number of days in a month (month is 1-12)
+ */
+export const getDaysInMonth = (year: number, month: number): number => {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+};
+
+/**
+ * Format a calendar date as YYYY-MM-DD
+ */
+export const formatLocalDate = (date: LocalDate): string => {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+};
+
+/**
+ * Compare two calendar dates, returning a negative, zero or positive number
+ */
+export const compareLocalDates = (a: LocalDate, b: LocalDate): number => {
+  return (
+    Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day)
+  );
+};